@@ -5,7 +5,8 @@
  * No side effects, no stdout writes -- consumers compose and write.
  *
  * Covers: screen management, cursor control, scroll regions,
- * mouse tracking, keyboard protocols, and bracketed paste.
+ * mouse tracking, keyboard protocols, bracketed paste, and
+ * tmux/screen passthrough.
  *
  * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html
  * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/
@@ -79,6 +80,24 @@ export function cursorHome(): string {
   return `${CSI}H`
 }
 
+/**
+ * Move cursor up by N lines (CUU), keeping the column.
+ * Stops at the top margin; never scrolls.
+ */
+export function cursorUp(n: number): string {
+  if (n <= 0) return ""
+  return `${CSI}${n}A`
+}
+
+/**
+ * Move cursor down by N lines (CUD), keeping the column.
+ * Stops at the bottom margin; never scrolls.
+ */
+export function cursorDown(n: number): string {
+  if (n <= 0) return ""
+  return `${CSI}${n}B`
+}
+
 /**
  * Hide the cursor (DEC private mode 25, reset).
  */
@@ -122,6 +141,45 @@ export function setTitle(title: string): string {
   return `${OSC}2;${title}${BEL}`
 }
 
+/**
+ * Taskbar/tab progress states for setTaskbarProgress().
+ */
+export type TaskbarProgressState = "normal" | "error" | "indeterminate" | "paused"
+
+const TASKBAR_PROGRESS_STATES: Record<TaskbarProgressState, number> = {
+  normal: 1,
+  error: 2,
+  indeterminate: 3,
+  paused: 4,
+}
+
+/**
+ * Show progress in the taskbar or tab (OSC 9;4, ConEmu convention).
+ * `percent` is clamped to 0-100 and ignored for "indeterminate".
+ * Supported by: Windows Terminal, ConEmu, Ghostty 1.2+, iTerm2 3.6+.
+ */
+export function setTaskbarProgress(percent: number, state: TaskbarProgressState = "normal"): string {
+  const value = Math.round(Math.min(100, Math.max(0, percent)))
+  return `${OSC}9;4;${TASKBAR_PROGRESS_STATES[state]};${value}${BEL}`
+}
+
+/**
+ * Remove taskbar/tab progress (OSC 9;4;0).
+ */
+export function clearTaskbarProgress(): string {
+  return `${OSC}9;4;0;0${BEL}`
+}
+
+/**
+ * Optional mouse tracking modes for enableMouse()/disableMouse().
+ */
+export interface MouseTrackingOptions {
+  /** 1003: report motion with no button held (hover) */
+  anyEvent?: boolean
+  /** 1016: report positions in pixels instead of cells */
+  pixels?: boolean
+}
+
 /**
  * Enable mouse tracking.
  *
@@ -129,18 +187,26 @@ export function setTitle(title: string): string {
  * - 1000: Basic button press/release reporting
  * - 1002: Button-event tracking (drag events)
  * - 1006: SGR extended coordinates (supports >223 columns)
+ *
+ * Plus, when requested, 1003 (any-event motion) and 1016 (SGR pixel coordinates).
+ * Reports are decoded into MouseEvents by term.input().
  */
-export function enableMouse(): string {
-  return `${CSI}?1000h${CSI}?1002h${CSI}?1006h`
+export function enableMouse(options: MouseTrackingOptions = {}): string {
+  const anyEvent = options.anyEvent ? `${CSI}?1003h` : ""
+  const pixels = options.pixels ? `${CSI}?1016h` : ""
+  return `${CSI}?1000h${CSI}?1002h${anyEvent}${CSI}?1006h${pixels}`
 }
 
 /**
  * Disable mouse tracking.
  *
- * Disables in reverse order of enabling.
+ * Disables in reverse order of enabling. Pass the same options given to
+ * enableMouse() to also turn off 1003/1016.
  */
-export function disableMouse(): string {
-  return `${CSI}?1006l${CSI}?1002l${CSI}?1000l`
+export function disableMouse(options: MouseTrackingOptions = {}): string {
+  const anyEvent = options.anyEvent ? `${CSI}?1003l` : ""
+  const pixels = options.pixels ? `${CSI}?1016l` : ""
+  return `${pixels}${CSI}?1006l${anyEvent}${CSI}?1002l${CSI}?1000l`
 }
 
 /**
@@ -249,3 +315,40 @@ export function enableKittyKeyboard(flags: number): string {
 export function disableKittyKeyboard(): string {
   return `${CSI}<u`
 }
+
+// =============================================================================
+// Multiplexer Passthrough
+// =============================================================================
+
+/**
+ * Terminal multiplexer between the app and the real terminal.
+ */
+export type Multiplexer = "tmux" | "screen"
+
+/** GNU screen truncates DCS strings longer than this */
+const SCREEN_CHUNK = 768
+
+/**
+ * Wrap a sequence so a multiplexer forwards it to the outer terminal
+ * instead of interpreting (or dropping) it. Returns the sequence
+ * unchanged when `multiplexer` is null.
+ *
+ * - tmux: DCS tmux; with every ESC doubled (needs `allow-passthrough on` in tmux 3.3+)
+ * - screen: one DCS per 768-byte chunk, screen's string limit
+ *
+ * @example
+ * ```ts
+ * term.write(passthrough(copyToClipboard("hi", { multiplexer: null }), detectMultiplexer()))
+ * ```
+ */
+export function passthrough(sequence: string, multiplexer: Multiplexer | null): string {
+  if (multiplexer === "tmux") return `${ESC}Ptmux;${sequence.replaceAll(ESC, ESC + ESC)}${ESC}\\`
+  if (multiplexer === "screen") {
+    let out = ""
+    for (let i = 0; i < sequence.length; i += SCREEN_CHUNK) {
+      out += `${ESC}P${sequence.slice(i, i + SCREEN_CHUNK)}${ESC}\\`
+    }
+    return out
+  }
+  return sequence
+}
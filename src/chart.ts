@@ -0,0 +1,172 @@
+/**
+ * Sparklines and bar charts.
+ *
+ * Small inline charts for status output, built from block elements with
+ * ASCII fallbacks when `hasUnicode()` is false. Colors go through the
+ * term's style chain, so they degrade through 256/basic/none with its
+ * color level. Results are plain styled strings of a known display width.
+ */
+
+import { PARTIAL_BLOCKS } from "./progress.js"
+import { truncateAnsi } from "./text.js"
+import type { Term } from "./term.js"
+import type { Color } from "./types.js"
+import { displayLength } from "./utils.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for sparkline().
+ */
+export interface SparklineOptions {
+  /** Width in cells (default: one cell per value) */
+  width?: number
+  /** Value drawn as the lowest level (default: smallest value) */
+  min?: number
+  /** Value drawn as the highest level (default: largest value) */
+  max?: number
+  /** Color of the line */
+  color?: Color
+}
+
+/**
+ * One bar of a bar chart.
+ */
+export interface BarChartEntry {
+  label: string
+  value: number
+  /** Color for this bar, overriding `colorScale` */
+  color?: Color
+}
+
+/**
+ * Options for barChart().
+ */
+export interface BarChartOptions {
+  /** Width of each line in cells (default: term.cols, or 80) */
+  width?: number
+  /** Show the label column (default: true) */
+  labels?: boolean
+  /** Show values after the bars (default: true) */
+  values?: boolean
+  /** Value of a full-width bar (default: largest value) */
+  max?: number
+  /**
+   * Bar colors: a scale from low to high values, or a function of the
+   * value and its 0-1 fraction of `max` (default: "$primary").
+   */
+  colorScale?: readonly Color[] | ((value: number, fraction: number) => Color)
+  /** Value formatter (default: String) */
+  format?: (value: number) => string
+}
+
+// =============================================================================
+// Sparkline
+// =============================================================================
+
+const SPARK_LEVELS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"]
+const ASCII_SPARK_LEVELS = ["_", ".", "-", "~", "=", "+", "*", "#"]
+
+/** Average values into `width` buckets, skipping non-finite values */
+function bucket(values: readonly number[], width: number): number[] {
+  if (values.length <= width) return [...values]
+  return Array.from({ length: width }, (_, i) => {
+    const slice = values.slice(Math.floor((i * values.length) / width), Math.floor(((i + 1) * values.length) / width))
+    const finite = slice.filter(Number.isFinite)
+    return finite.length ? finite.reduce((sum, value) => sum + value, 0) / finite.length : NaN
+  })
+}
+
+/**
+ * Draw values as a one-line sparkline, exactly `width` cells wide.
+ *
+ * More values than cells are averaged into buckets; fewer are
+ * right-aligned so the latest value sits at the right edge. Non-finite
+ * values leave a gap.
+ *
+ * @example
+ * ```ts
+ * term.writeLine(`cpu ${sparkline(term, samples, { width: 20, min: 0, max: 100, color: "$primary" })}`)
+ * ```
+ */
+export function sparkline(term: Term, values: readonly number[], options: SparklineOptions = {}): string {
+  const width = Math.max(0, options.width ?? values.length)
+  const levels = term.hasUnicode() ? SPARK_LEVELS : ASCII_SPARK_LEVELS
+  const points = bucket(values, width)
+  const finite = points.filter(Number.isFinite)
+  const min = options.min ?? Math.min(...finite)
+  const max = options.max ?? Math.max(...finite)
+
+  const cells = points.map((value) => {
+    if (!Number.isFinite(value)) return " "
+    const fraction = max > min ? (Math.min(max, Math.max(min, value)) - min) / (max - min) : 0.5
+    return levels[Math.round(fraction * (levels.length - 1))]!
+  })
+  const line = " ".repeat(width - cells.length) + cells.join("")
+  return options.color !== undefined ? term.color(options.color)(line) : line
+}
+
+// =============================================================================
+// Bar Chart
+// =============================================================================
+
+const DEFAULT_BAR_COLOR = "$primary"
+
+function barColor(entry: BarChartEntry, fraction: number, scale: BarChartOptions["colorScale"]): Color {
+  if (entry.color !== undefined) return entry.color
+  if (typeof scale === "function") return scale(entry.value, fraction)
+  if (!scale || scale.length === 0) return DEFAULT_BAR_COLOR
+  return scale[Math.min(scale.length - 1, Math.floor(fraction * scale.length))]!
+}
+
+/**
+ * Draw horizontal bars, one line per entry, each exactly `width` cells.
+ *
+ * Lines are `label bar value`: labels are padded to the longest (and
+ * truncated to a third of the width), values are right-aligned. Unicode
+ * bars resolve eighths of a cell; ASCII bars use `#`. Negative values
+ * draw empty bars.
+ *
+ * @example
+ * ```ts
+ * const lines = barChart(term, [
+ *   { label: "api", value: 182 },
+ *   { label: "worker", value: 64 },
+ * ], { width: 50, colorScale: ["green", "yellow", "red"] })
+ * for (const line of lines) term.writeLine(line)
+ * ```
+ */
+export function barChart(term: Term, entries: readonly BarChartEntry[], options: BarChartOptions = {}): string[] {
+  const width = Math.max(1, options.width ?? term.cols ?? 80)
+  const unicode = term.hasUnicode()
+  const format = options.format ?? String
+  const max = options.max ?? Math.max(0, ...entries.map((entry) => entry.value))
+
+  const showLabels = options.labels ?? true
+  const labelWidth = showLabels
+    ? Math.min(Math.floor(width / 3), Math.max(0, ...entries.map((entry) => displayLength(entry.label))))
+    : 0
+  const formatted = (options.values ?? true) ? entries.map((entry) => format(entry.value)) : []
+  const valueWidth = Math.max(0, ...formatted.map(displayLength))
+  const barWidth = Math.max(0, width - (labelWidth ? labelWidth + 1 : 0) - (valueWidth ? valueWidth + 1 : 0))
+
+  return entries.map((entry, i) => {
+    const fraction = max > 0 ? Math.min(1, Math.max(0, entry.value / max)) : 0
+    const cells = fraction * barWidth
+    const full = Math.floor(cells)
+    const partial = unicode && full < barWidth ? PARTIAL_BLOCKS[Math.floor((cells - full) * 8)]! : ""
+    const bar = (unicode ? "█" : "#").repeat(full) + partial
+    const padding = " ".repeat(barWidth - full - (partial ? 1 : 0))
+
+    let line = ""
+    if (labelWidth) {
+      const label = truncateAnsi(entry.label, labelWidth, { ellipsis: unicode ? "…" : "..." })
+      line += label + " ".repeat(labelWidth - displayLength(label)) + " "
+    }
+    line += (bar ? term.color(barColor(entry, fraction, options.colorScale))(bar) : "") + padding
+    if (valueWidth) line += " ".repeat(valueWidth - displayLength(formatted[i]!) + 1) + formatted[i]!
+    return line
+  })
+}
@@ -0,0 +1,126 @@
+/**
+ * Clipboard access via OSC 52.
+ *
+ * The terminal owns the clipboard of the machine it runs on, so OSC 52
+ * copies to the user's local clipboard even from inside SSH sessions.
+ * Sequences are wrapped for tmux/screen passthrough when a multiplexer
+ * is detected.
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Operating-System-Commands
+ */
+
+import { passthrough, type Multiplexer } from "./ansi.js"
+import { detectMultiplexer } from "./detection.js"
+import { queryTerminal, type ProbeOptions } from "./probe.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Selection to access: "c" clipboard, "p" primary selection,
+ * "s" the terminal's configured selection.
+ */
+export type ClipboardTarget = "c" | "p" | "s"
+
+/**
+ * Options for copyToClipboard() and readClipboard().
+ */
+export interface ClipboardOptions {
+  /** Selection to access (default: "c") */
+  target?: ClipboardTarget
+  /** Multiplexer to wrap for (default: detectMultiplexer()); null sends the bare sequence */
+  multiplexer?: Multiplexer | null
+}
+
+/**
+ * Options for copyToClipboard().
+ */
+export interface CopyOptions extends ClipboardOptions {
+  /**
+   * Largest base64 payload to send (default: 100000, xterm's limit).
+   * Terminals drop or truncate larger sequences, so nothing is sent instead.
+   */
+  maxLength?: number
+}
+
+const DEFAULT_MAX_LENGTH = 100_000
+
+/** Reads wait for the reply itself: terminals may ask the user for permission first */
+const DEFAULT_READ_TIMEOUT = 1000
+
+// =============================================================================
+// Copy
+// =============================================================================
+
+/**
+ * Build the OSC 52 sequence that copies `text` to the clipboard.
+ *
+ * Returns "" when the encoded text exceeds `maxLength`.
+ *
+ * @example
+ * ```ts
+ * term.write(copyToClipboard("ssh-ed25519 AAAA..."))
+ * term.write(copyToClipboard(selection, { target: "p" })) // X11 primary selection
+ * ```
+ */
+export function copyToClipboard(text: string, options: CopyOptions = {}): string {
+  const payload = Buffer.from(text, "utf8").toString("base64")
+  if (payload.length > (options.maxLength ?? DEFAULT_MAX_LENGTH)) return ""
+  return wrap(`\x1b]52;${options.target ?? "c"};${payload}\x07`, options)
+}
+
+function wrap(sequence: string, options: ClipboardOptions): string {
+  const multiplexer = options.multiplexer === undefined ? detectMultiplexer() : options.multiplexer
+  return passthrough(sequence, multiplexer)
+}
+
+// =============================================================================
+// Read
+// =============================================================================
+
+const CLIPBOARD_REPLY = /\x1b\]52;[a-z0-9]*;([A-Za-z0-9+/=]*)(?:\x07|\x1b\\)/
+
+/**
+ * Parse an OSC 52 reply into text.
+ * Returns null when the buffer holds no reply.
+ *
+ * @example
+ * ```ts
+ * parseClipboardReply("\x1b]52;c;aGVsbG8=\x07") // "hello"
+ * ```
+ */
+export function parseClipboardReply(buffer: string): string | null {
+  const match = CLIPBOARD_REPLY.exec(buffer)
+  if (!match) return null
+  return Buffer.from(match[1]!, "base64").toString("utf8")
+}
+
+/**
+ * Ask the terminal for the clipboard contents (OSC 52 query).
+ *
+ * Most terminals disable reads or prompt the user, so this waits for the
+ * reply itself (default timeout: 1000ms) and resolves null when none
+ * arrives. Returns null without writing anything when stdin or stdout is
+ * not a TTY.
+ *
+ * @example
+ * ```ts
+ * const text = await readClipboard(process.stdin, process.stdout)
+ * if (text !== null) insert(text)
+ * ```
+ */
+export async function readClipboard(
+  stdin: NodeJS.ReadStream,
+  stdout: NodeJS.WriteStream,
+  options: ClipboardOptions & ProbeOptions = {},
+): Promise<string | null> {
+  if (!stdin.isTTY || !stdout.isTTY) return null
+
+  const query = wrap(`\x1b]52;${options.target ?? "c"};?\x07`, options)
+  const buffer = await queryTerminal(stdin, stdout, query, (buf) => CLIPBOARD_REPLY.test(buf), {
+    timeout: options.timeout ?? DEFAULT_READ_TIMEOUT,
+  })
+
+  return parseClipboardReply(buffer)
+}
@@ -0,0 +1,166 @@
+/**
+ * Color math utilities.
+ *
+ * Pure functions over color strings and RGB tuples — no chalk, no I/O.
+ */
+
+import type { AnsiColorName, RGB } from "./types.js"
+
+// =============================================================================
+// Luminance
+// =============================================================================
+
+/**
+ * Linearize an sRGB channel (0-255) for luminance and color-space math.
+ */
+export function linearize(channel: number): number {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+}
+
+/**
+ * WCAG relative luminance of an sRGB color.
+ * Returns 0 for black and 1 for white.
+ *
+ * @see https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+ */
+export function relativeLuminance(rgb: RGB): number {
+  const [r, g, b] = rgb
+  return 0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b)
+}
+
+/**
+ * Luminance where black and white text have equal contrast against
+ * a background: (L + 0.05) / 0.05 === 1.05 / (L + 0.05).
+ */
+const DARK_LUMINANCE_THRESHOLD = 0.179
+
+/**
+ * Decide whether a background color is dark, i.e. light text reads
+ * better on it than dark text.
+ *
+ * @example
+ * ```ts
+ * isDarkColor([30, 30, 30]) // true
+ * isDarkColor([253, 246, 227]) // false (Solarized Light)
+ * ```
+ */
+export function isDarkColor(rgb: RGB): boolean {
+  return relativeLuminance(rgb) < DARK_LUMINANCE_THRESHOLD
+}
+
+// =============================================================================
+// Color Parsing
+// =============================================================================
+
+/**
+ * Palette index (0-15) of each named ANSI color.
+ * `gray`/`grey` are aliases for `blackBright`.
+ */
+const ANSI_COLOR_INDEX: Record<AnsiColorName, number> = {
+  black: 0,
+  red: 1,
+  green: 2,
+  yellow: 3,
+  blue: 4,
+  magenta: 5,
+  cyan: 6,
+  white: 7,
+  gray: 8,
+  grey: 8,
+  blackBright: 8,
+  redBright: 9,
+  greenBright: 10,
+  yellowBright: 11,
+  blueBright: 12,
+  magentaBright: 13,
+  cyanBright: 14,
+  whiteBright: 15,
+}
+
+/**
+ * Palette index (0-15) of a named ANSI color.
+ *
+ * @example
+ * ```ts
+ * ansiColorIndex("red") // 1
+ * ansiColorIndex("redBright") // 9
+ * ```
+ */
+export function ansiColorIndex(name: AnsiColorName): number {
+  return ANSI_COLOR_INDEX[name]
+}
+
+/** Canonical ANSI color name for each palette index 0-15 */
+const ANSI_COLOR_NAMES: readonly AnsiColorName[] = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+  "blackBright",
+  "redBright",
+  "greenBright",
+  "yellowBright",
+  "blueBright",
+  "magentaBright",
+  "cyanBright",
+  "whiteBright",
+]
+
+/**
+ * Named ANSI color for a palette index (0-15).
+ *
+ * @example
+ * ```ts
+ * ansiColorName(9) // "redBright"
+ * ```
+ */
+export function ansiColorName(index: number): AnsiColorName {
+  return ANSI_COLOR_NAMES[index] ?? "white"
+}
+
+/**
+ * A concrete color: one of the 16 named ANSI colors, or an RGB value.
+ */
+export type ParsedColor = { type: "ansi"; name: AnsiColorName } | { type: "rgb"; rgb: RGB }
+
+/**
+ * Parse a color string into an ANSI name or RGB value.
+ *
+ * Accepts ANSI color names (`"red"`, `"cyanBright"`), hex (`"#f00"`, `"#ff0000"`)
+ * and `rgb(r, g, b)`. Theme tokens and unknown strings return null —
+ * resolve tokens with resolveThemeColor() first.
+ *
+ * @example
+ * ```ts
+ * parseColor("#ff8000") // { type: "rgb", rgb: [255, 128, 0] }
+ * parseColor("redBright") // { type: "ansi", name: "redBright" }
+ * ```
+ */
+export function parseColor(color: string): ParsedColor | null {
+  if (Object.hasOwn(ANSI_COLOR_INDEX, color)) {
+    return { type: "ansi", name: color as AnsiColorName }
+  }
+
+  const hexMatch = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)
+  if (hexMatch) {
+    const hex = hexMatch[1]!
+    const full = hex.length === 3 ? [...hex].map((c) => c + c).join("") : hex
+    return {
+      type: "rgb",
+      rgb: [parseInt(full.slice(0, 2), 16), parseInt(full.slice(2, 4), 16), parseInt(full.slice(4, 6), 16)],
+    }
+  }
+
+  const rgbMatch = /^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/.exec(color)
+  if (rgbMatch) {
+    const clamp = (n: string) => Math.min(255, Number(n))
+    return { type: "rgb", rgb: [clamp(rgbMatch[1]!), clamp(rgbMatch[2]!), clamp(rgbMatch[3]!)] }
+  }
+
+  return null
+}
@@ -5,6 +5,9 @@
  * @see https://gist.github.com/egmontkob/eb114294efbcd5adb1944c9f3cb5feda
  */
 
+import type { ColorLevel } from "./types.js"
+import { quantizeColor } from "./quantize.js"
+
 // =============================================================================
 // Extended Underline Styles (ISO 8613-6 / ECMA-48)
 // =============================================================================
@@ -52,11 +55,24 @@ export const UNDERLINE_COLOR_RESET = "\x1b[59m"
 /**
  * Build underline color escape code for RGB values.
  * Format: \x1b[58:2::r:g:bm (SGR 58 with RGB color space)
+ *
+ * Below truecolor the color is quantized to a palette index and emitted
+ * as \x1b[58:5:nm instead.
  */
-export function buildUnderlineColorCode(r: number, g: number, b: number): string {
+export function buildUnderlineColorCode(r: number, g: number, b: number, level: ColorLevel = "truecolor"): string {
+  const color = quantizeColor([r, g, b], level)
+  if (typeof color === "number") return buildUnderlineColorIndexCode(color)
   return `\x1b[58:2::${r}:${g}:${b}m`
 }
 
+/**
+ * Build underline color escape code for a 256-color palette index.
+ * Format: \x1b[58:5:nm (SGR 58 with indexed color)
+ */
+export function buildUnderlineColorIndexCode(index: number): string {
+  return `\x1b[58:5:${index}m`
+}
+
 // =============================================================================
 // Hyperlinks (OSC 8)
 // =============================================================================
@@ -7,11 +7,15 @@
  * - Color level (basic, 256, truecolor)
  * - Unicode support (can render unicode symbols)
  * - Extended underline support (curly, dotted, etc)
+ * - Terminal multiplexer (tmux, screen)
+ * - Desktop notification protocol (OSC 9, 99, 777)
  * - Terminal capabilities profile (TerminalCaps)
  */
 
 import { spawnSync } from "child_process"
 import type { ColorLevel } from "./types.js"
+import type { Multiplexer } from "./ansi.js"
+import type { NotificationProtocol } from "./notify.js"
 
 // =============================================================================
 // Cursor Detection
@@ -253,6 +257,63 @@ export function detectExtendedUnderline(): boolean {
   return false
 }
 
+// =============================================================================
+// Multiplexer Detection
+// =============================================================================
+
+/**
+ * Detect a terminal multiplexer from its environment variables
+ * (TMUX for tmux, STY for GNU screen). Sequences the multiplexer does not
+ * understand must be wrapped with passthrough() to reach the terminal.
+ */
+export function detectMultiplexer(): Multiplexer | null {
+  if (process.env.TMUX) return "tmux"
+  if (process.env.STY) return "screen"
+  return null
+}
+
+// =============================================================================
+// Notification Detection
+// =============================================================================
+
+/** Notification protocol of a known terminal program or TERM, or null */
+function notificationProtocolOf(program: string, term: string): NotificationProtocol | null {
+  const name = program.toLowerCase()
+  if (term === "xterm-kitty" || name === "kitty") return "osc99"
+  if (
+    name === "ghostty" ||
+    name === "foot" ||
+    term === "xterm-ghostty" ||
+    term.startsWith("foot") ||
+    term.startsWith("rxvt")
+  ) {
+    return "osc777"
+  }
+  if (name === "iterm.app" || name === "iterm2" || name === "wezterm") return "osc9"
+  return null
+}
+
+/**
+ * Detect which desktop notification protocol the terminal understands.
+ * - OSC 99: Kitty
+ * - OSC 777: Ghostty, foot, urxvt
+ * - OSC 9: iTerm2, WezTerm
+ * Returns null for everything else.
+ *
+ * With `caps` (detected, probed or overridden), `caps.notifications: false`
+ * means no protocol and `caps.program`/`caps.term` pick it; the
+ * environment is only consulted when they name no known terminal.
+ */
+export function detectNotificationProtocol(caps?: TerminalCaps): NotificationProtocol | null {
+  if (caps) {
+    if (!caps.notifications) return null
+    const protocol = notificationProtocolOf(caps.program, caps.term)
+    if (protocol) return protocol
+  }
+  if (process.env.KITTY_WINDOW_ID) return "osc99"
+  return notificationProtocolOf(process.env.TERM_PROGRAM ?? "", process.env.TERM ?? "")
+}
+
 // =============================================================================
 // Terminal Capabilities Profile
 // =============================================================================
@@ -270,12 +331,16 @@ export interface TerminalCaps {
   kittyGraphics: boolean
   /** Sixel graphics supported */
   sixel: boolean
+  /** OSC 1337 inline images (iTerm2, WezTerm) */
+  itermImages: boolean
   /** OSC 52 clipboard */
   osc52: boolean
   /** OSC 8 hyperlinks */
   hyperlinks: boolean
-  /** OSC 9/99 notifications */
+  /** OSC 9/99/777 notifications */
   notifications: boolean
+  /** OSC 9;4 taskbar/tab progress (Windows Terminal, ConEmu, Ghostty, iTerm2) */
+  progress: boolean
   /** Bracketed paste mode */
   bracketedPaste: boolean
   /** SGR mouse tracking */
@@ -294,7 +359,8 @@ export interface TerminalCaps {
   textEmojiWide: boolean
   /** OSC 66 text sizing protocol likely supported (Kitty 0.40+, Ghostty) */
   textSizingSupported: boolean
-  /** Heuristic: likely dark background (for theme selection) */
+  /** Heuristic: likely dark background (for theme selection).
+   * createTermAsync() replaces it with the OSC 11 background luminance when available. */
   darkBackground: boolean
   /** Heuristic: likely has Nerd Font installed (for icon selection) */
   nerdfont: boolean
@@ -311,9 +377,11 @@ export function defaultCaps(): TerminalCaps {
     kittyKeyboard: false,
     kittyGraphics: false,
     sixel: false,
+    itermImages: false,
     osc52: false,
     hyperlinks: false,
     notifications: false,
+    progress: false,
     bracketedPaste: true,
     mouse: true,
     syncOutput: false,
@@ -339,6 +407,7 @@ let cachedMacOSDarkMode: boolean | undefined
  * is active, exits non-zero when light mode. ~2ms via spawnSync.
  *
  * Result is cached after first call to avoid repeated process spawns.
+ * Fallback only — queryTerminalColors() reports the actual terminal background.
  */
 function detectMacOSDarkMode(): boolean {
   if (cachedMacOSDarkMode !== undefined) return cachedMacOSDarkMode
@@ -357,9 +426,10 @@ function detectMacOSDarkMode(): boolean {
 }
 
 /** Detect terminal capabilities from environment variables.
- * Synchronous. Minimal I/O: may run `defaults` on macOS for Apple_Terminal.
+ * Synchronous. Minimal I/O: may run `defaults` on macOS for Apple_Terminal,
+ * unless `darkBackground` is already known (e.g. from an OSC 11 reply).
  */
-export function detectTerminalCaps(): TerminalCaps {
+export function detectTerminalCaps(options: { darkBackground?: boolean } = {}): TerminalCaps {
   const program = process.env.TERM_PROGRAM ?? ""
   const term = process.env.TERM ?? ""
   const colorTerm = process.env.COLORTERM ?? ""
@@ -386,7 +456,10 @@ export function detectTerminalCaps(): TerminalCaps {
   const isWezTerm = program === "WezTerm"
   const isAlacritty = program === "Alacritty"
   const isFoot = term === "foot" || term === "foot-extra"
+  const isRxvt = term.startsWith("rxvt")
   const isModern = isKitty || isITerm || isGhostty || isWezTerm || isFoot
+  const isWindowsTerminal = process.env.WT_SESSION !== undefined
+  const isConEmu = process.env.ConEmuANSI === "ON"
 
   // Kitty v0.40+ supports OSC 66 text sizing
   let isKittyWithTextSizing = false
@@ -400,7 +473,9 @@ export function detectTerminalCaps(): TerminalCaps {
 
   let darkBackground = !isAppleTerminal
   const colorFgBg = process.env.COLORFGBG
-  if (colorFgBg) {
+  if (options.darkBackground !== undefined) {
+    darkBackground = options.darkBackground
+  } else if (colorFgBg) {
     const parts = colorFgBg.split(";")
     const bg = parseInt(parts[parts.length - 1] ?? "", 10)
     if (!isNaN(bg)) {
@@ -424,9 +499,11 @@ export function detectTerminalCaps(): TerminalCaps {
     kittyKeyboard: isKitty || isGhostty || isWezTerm || isFoot,
     kittyGraphics: isKitty || isGhostty,
     sixel: isFoot || isWezTerm,
+    itermImages: isITerm || isWezTerm,
     osc52: isModern || isAlacritty,
     hyperlinks: isModern || isAlacritty,
-    notifications: isITerm || isKitty,
+    notifications: isITerm || isKitty || isGhostty || isWezTerm || isFoot || isRxvt,
+    progress: isWindowsTerminal || isConEmu || isGhostty || isITerm,
     bracketedPaste: true,
     mouse: true,
     syncOutput: isModern || isAlacritty,
@@ -0,0 +1,211 @@
+/**
+ * Inline images.
+ *
+ * renderImage() picks the best protocol the terminal supports:
+ * - Kitty graphics (Kitty, Ghostty), with unicode placeholders inside tmux
+ * - OSC 1337 inline files (iTerm2, WezTerm), sent as PNG
+ * - Sixel (foot, WezTerm, xterm)
+ * - Unicode half blocks everywhere else, via rasterize()
+ *
+ * Images are raw RGBA pixels, so every protocol can be fed the same data.
+ *
+ * @see https://iterm2.com/documentation-images.html
+ */
+
+import { deflateSync } from "zlib"
+import { passthrough, type Multiplexer } from "./ansi.js"
+import type { TerminalCaps } from "./detection.js"
+import { detectMultiplexer } from "./detection.js"
+import { kittyImage } from "./kitty-graphics.js"
+import { rasterize, resampleRgba } from "./raster.js"
+import { encodeSixel, type SixelOptions } from "./sixel.js"
+import type { Term } from "./term.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Image output protocol.
+ */
+export type ImageProtocol = "kitty" | "iterm" | "sixel" | "blocks"
+
+/**
+ * Options for itermImage().
+ */
+export interface ItermImageOptions {
+  /** Display width in cells (default: image width) */
+  cols?: number
+  /** Display height in cells (default: image height) */
+  rows?: number
+  /** Multiplexer to wrap for (default: detectMultiplexer()); null sends the bare sequence */
+  multiplexer?: Multiplexer | null
+}
+
+/**
+ * Options for renderImage() and term.image().
+ */
+export interface ImageOptions extends SixelOptions {
+  /** Display width in cells (default: the image's size in cells, capped at the terminal width) */
+  cols?: number
+  /** Display height in cells (default: keeps the aspect ratio) */
+  rows?: number
+  /** Protocol to use (default: detectImageProtocol(term.caps)) */
+  protocol?: ImageProtocol
+  /** Multiplexer to wrap for (default: detectMultiplexer()) */
+  multiplexer?: Multiplexer | null
+}
+
+/** Cell size assumed when the terminal has not reported one */
+const DEFAULT_CELL_WIDTH = 8
+const DEFAULT_CELL_HEIGHT = 16
+
+// =============================================================================
+// Protocol Selection
+// =============================================================================
+
+/**
+ * Pick the image protocol for a capability profile:
+ * Kitty graphics, then OSC 1337, then sixel, then half blocks.
+ */
+export function detectImageProtocol(caps: TerminalCaps | undefined): ImageProtocol {
+  if (caps?.kittyGraphics) return "kitty"
+  if (caps?.itermImages) return "iterm"
+  if (caps?.sixel) return "sixel"
+  return "blocks"
+}
+
+// =============================================================================
+// PNG
+// =============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 255]! ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length)
+  chunk.writeUInt32BE(data.length, 0)
+  chunk.write(type, 4, "ascii")
+  chunk.set(data, 8)
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length)
+  return chunk
+}
+
+/**
+ * Encode RGBA pixels as a PNG file (8-bit RGBA, no filtering).
+ * Returns an empty array when `rgba` holds fewer than `width * height` pixels.
+ */
+export function encodePng(rgba: Uint8Array, width: number, height: number): Uint8Array {
+  if (width <= 0 || height <= 0 || rgba.length < width * height * 4) return new Uint8Array(0)
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 6 // color type: RGBA
+
+  // Each scanline starts with its filter type (0: none)
+  const stride = width * 4
+  const raw = Buffer.alloc((stride + 1) * height)
+  for (let y = 0; y < height; y++) raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ])
+}
+
+// =============================================================================
+// OSC 1337
+// =============================================================================
+
+/**
+ * Build an OSC 1337 inline image sequence (iTerm2, WezTerm).
+ * `file` is any image format the terminal decodes, e.g. from encodePng().
+ *
+ * @example
+ * ```ts
+ * term.write(itermImage(readFileSync("logo.png"), { cols: 20 }))
+ * ```
+ */
+export function itermImage(file: Uint8Array, options: ItermImageOptions = {}): string {
+  const args = [`inline=1`, `size=${file.length}`]
+  if (options.cols !== undefined) args.push(`width=${options.cols}`)
+  if (options.rows !== undefined) args.push(`height=${options.rows}`)
+  const payload = Buffer.from(file.buffer, file.byteOffset, file.byteLength).toString("base64")
+  const multiplexer = options.multiplexer === undefined ? detectMultiplexer() : options.multiplexer
+  return passthrough(`\x1b]1337;File=${args.join(";")}:${payload}\x07`, multiplexer)
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/** Display size in cells: explicit, or the pixel size at the cell size, capped at the terminal width */
+function fitCells(term: Term, width: number, height: number, options: ImageOptions): { cols: number; rows: number } {
+  const size = term.getSize()
+  const cellWidth = size.cellWidth ?? DEFAULT_CELL_WIDTH
+  const cellHeight = size.cellHeight ?? DEFAULT_CELL_HEIGHT
+  const cols = options.cols ?? Math.max(1, Math.min(Math.ceil(width / cellWidth), term.cols ?? 80))
+  const rows = options.rows ?? Math.max(1, Math.ceil((height * cols * cellWidth) / width / cellHeight))
+  return { cols, rows }
+}
+
+/**
+ * Render RGBA pixels for `term` with the best available protocol.
+ * Prefer `term.image()`, which also writes the result.
+ *
+ * Kitty inside tmux uses unicode placeholders; sixel and half-block output
+ * is resampled to `cols`/`rows` when they are given. Kitty, OSC 1337 and
+ * sixel sequences are wrapped for tmux/screen passthrough. Returns "" when
+ * `rgba` holds fewer than `width * height` pixels.
+ */
+export function renderImage(
+  term: Term,
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  options: ImageOptions = {},
+): string {
+  if (width <= 0 || height <= 0 || rgba.length < width * height * 4) return ""
+  const pixels = rgba.length === width * height * 4 ? rgba : rgba.subarray(0, width * height * 4)
+  const protocol = options.protocol ?? detectImageProtocol(term.caps)
+  const multiplexer = options.multiplexer === undefined ? detectMultiplexer() : options.multiplexer
+
+  switch (protocol) {
+    case "kitty": {
+      // Placements don't follow tmux panes; placeholders are text tmux can track
+      const placeholder = multiplexer === "tmux"
+      const cells = placeholder ? fitCells(term, width, height, options) : options
+      return kittyImage(pixels, { width, height, cols: cells.cols, rows: cells.rows, placeholder, multiplexer })
+    }
+    case "iterm":
+      return itermImage(encodePng(pixels, width, height), { cols: options.cols, rows: options.rows, multiplexer })
+    case "sixel": {
+      let sixel: string
+      if (options.cols === undefined && options.rows === undefined) {
+        sixel = encodeSixel(pixels, width, height, options)
+      } else {
+        const { cols, rows } = fitCells(term, width, height, options)
+        const size = term.getSize()
+        const toWidth = cols * (size.cellWidth ?? DEFAULT_CELL_WIDTH)
+        const toHeight = rows * (size.cellHeight ?? DEFAULT_CELL_HEIGHT)
+        sixel = encodeSixel(resampleRgba(pixels, width, height, toWidth, toHeight), toWidth, toHeight, options)
+      }
+      return sixel && passthrough(sixel, multiplexer)
+    }
+    case "blocks":
+      return rasterize(term, pixels, width, height, { cols: options.cols, rows: options.rows }).join("\n")
+  }
+}
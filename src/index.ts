@@ -24,6 +24,7 @@
  * // Styling (flattened, chainable)
  * term.red('error')
  * term.bold.green('success')
+ * term.color('$error')('failed')   // theme tokens
  *
  * // Console interception
  * using patched = patchConsole(console)
@@ -37,7 +38,7 @@
 // Term API (NewWay)
 // =============================================================================
 
-export { createTerm } from "./term.js"
+export { createTerm, createTermAsync } from "./term.js"
 export type { Term, StyleChain } from "./term.js"
 
 import { createTerm as _createTerm } from "./term.js"
@@ -85,10 +86,12 @@ export type {
   ColorLevel,
   Color,
   AnsiColorName,
+  ThemeToken,
   StyleOptions,
   ConsoleMethod,
   ConsoleEntry,
   CreateTermOptions,
+  CreateTermAsyncOptions,
 } from "./types.js"
 
 // =============================================================================
@@ -102,15 +105,136 @@ export {
   detectUnicode,
   detectExtendedUnderline,
   detectTerminalCaps,
+  detectMultiplexer,
+  detectNotificationProtocol,
   defaultCaps,
 } from "./detection.js"
 export type { TerminalCaps } from "./detection.js"
 
+export {
+  probeTerminalCaps,
+  probeTerminal,
+  queryTerminal,
+  parseProbeReplies,
+  mergeProbeResult,
+  queryTerminalColors,
+  parseColorReplies,
+  parseOscColor,
+  decrqmQuery,
+  paletteQuery,
+  DA1_QUERY,
+  XTVERSION_QUERY,
+  KITTY_KEYBOARD_QUERY,
+  FOREGROUND_QUERY,
+  BACKGROUND_QUERY,
+} from "./probe.js"
+export type { ProbeResult, ProbeOptions, DecModeStatus, TerminalColors, TerminalProbe } from "./probe.js"
+
+// =============================================================================
+// Color Utilities
+// =============================================================================
+
+export { relativeLuminance, isDarkColor, parseColor, ansiColorIndex, ansiColorName } from "./color.js"
+export type { ParsedColor } from "./color.js"
+export { ansi256ToRgb, rgbToAnsi256, rgbToAnsi16, quantizeColor, rgbToOklab, colorDistance } from "./quantize.js"
+export type { Oklab } from "./quantize.js"
+
+// =============================================================================
+// Themes
+// =============================================================================
+
+export { darkTheme, lightTheme, defaultTheme, resolveThemeColor } from "./theme.js"
+export type { Theme } from "./theme.js"
+
 // =============================================================================
 // Utilities
 // =============================================================================
 
-export { ANSI_REGEX, stripAnsi, displayLength } from "./utils.js"
+export {
+  ANSI_REGEX,
+  stripAnsi,
+  displayLength,
+  tokenizeAnsi,
+  sliceAnsi,
+  truncateAnsi,
+  wrapAnsi,
+  parseSgrState,
+  diffSgr,
+  closeSgr,
+  applyAnsiToken,
+  emptySgrState,
+} from "./utils.js"
+export type {
+  AnsiToken,
+  TextToken,
+  ControlToken,
+  SgrToken,
+  SgrParam,
+  CsiToken,
+  OscToken,
+  StringToken,
+  EscToken,
+  TruncateOptions,
+  WrapOptions,
+  SgrState,
+  SgrColor,
+  SgrHyperlink,
+} from "./utils.js"
+
+// =============================================================================
+// Input
+// =============================================================================
+
+export { createInputDecoder, readInput, readKeys } from "./input.js"
+export type {
+  KeyEvent,
+  KeyEventType,
+  MouseEvent,
+  MouseEventType,
+  MouseButton,
+  PasteEvent,
+  InputEvent,
+  InputDecoder,
+  InputDecoderOptions,
+  InputReader,
+  ReadInputOptions,
+} from "./input.js"
+
+// =============================================================================
+// Terminal Size
+// =============================================================================
+
+export { watchSize, queryPixelSize, parseSizeReplies, TEXT_AREA_PIXELS_QUERY, CELL_PIXELS_QUERY } from "./resize.js"
+export type { TermSize, PixelSize, ResizeOptions, SizeWatcher } from "./resize.js"
+
+// =============================================================================
+// Session Lifecycle
+// =============================================================================
+
+export { enterSession } from "./session.js"
+export type { SessionOptions, TermSession } from "./session.js"
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+export { createRenderer } from "./renderer.js"
+export type { Renderer, RendererOptions } from "./renderer.js"
+export { createLiveRegion } from "./live-region.js"
+export type { LiveRegion, LiveRegionOptions } from "./live-region.js"
+export { createProgressBar, createSpinner } from "./progress.js"
+export type { ProgressBar, ProgressOptions, Spinner, SpinnerOptions } from "./progress.js"
+export { sparkline, barChart } from "./chart.js"
+export type { SparklineOptions, BarChartEntry, BarChartOptions } from "./chart.js"
+export { renderTable } from "./table.js"
+export type { TableAlign, TableBorder, TableColumn, TableOptions, TableCell } from "./table.js"
+
+// =============================================================================
+// Virtual Terminal
+// =============================================================================
+
+export { createVirtualTerminal } from "./virtual-terminal.js"
+export type { VirtualTerminal, VirtualCell, VirtualCursor } from "./virtual-terminal.js"
 
 // =============================================================================
 // Underline Functions
@@ -143,10 +267,14 @@ export {
   clearLine,
   cursorTo,
   cursorHome,
+  cursorUp,
+  cursorDown,
   cursorHide,
   cursorShow,
   cursorStyle,
   setTitle,
+  setTaskbarProgress,
+  clearTaskbarProgress,
   enableMouse,
   disableMouse,
   enableBracketedPaste,
@@ -159,7 +287,36 @@ export {
   scrollDown,
   enableKittyKeyboard,
   disableKittyKeyboard,
+  passthrough,
 } from "./ansi.js"
+export type { MouseTrackingOptions, TaskbarProgressState, Multiplexer } from "./ansi.js"
+
+// =============================================================================
+// Clipboard
+// =============================================================================
+
+export { copyToClipboard, readClipboard, parseClipboardReply } from "./clipboard.js"
+export type { ClipboardTarget, ClipboardOptions, CopyOptions } from "./clipboard.js"
+
+// =============================================================================
+// Notifications
+// =============================================================================
+
+export { notify } from "./notify.js"
+export type { NotifyOptions, NotificationProtocol } from "./notify.js"
+
+// =============================================================================
+// Images
+// =============================================================================
+
+export { kittyImage, kittyPlace, kittyDelete, kittyPlaceholder, KITTY_PLACEHOLDER_MAX } from "./kitty-graphics.js"
+export type { KittyImageOptions, KittyPlacementOptions, KittyDeleteOptions } from "./kitty-graphics.js"
+export { encodeSixel } from "./sixel.js"
+export type { SixelOptions } from "./sixel.js"
+export { renderImage, detectImageProtocol, encodePng, itermImage } from "./image.js"
+export type { ImageProtocol, ImageOptions, ItermImageOptions } from "./image.js"
+export { rasterize, resampleRgba } from "./raster.js"
+export type { RasterMode, RasterOptions } from "./raster.js"
 
 // =============================================================================
 // Background Override — Compose styled text inside Box with backgroundColor
@@ -0,0 +1,688 @@
+/**
+ * Raw terminal input decoding.
+ *
+ * Turns the bytes a terminal sends in raw mode into typed events. Decodes:
+ * - Legacy xterm keys: control characters, ESC-prefixed Alt, CSI/SS3 cursor
+ *   and function keys with modifier parameters
+ * - Kitty keyboard protocol `CSI code;mods:event;text u` (any flags)
+ * - xterm modifyOtherKeys `CSI 27;mods;code ~`
+ * - Mouse reports in SGR (`CSI < b;x;y M/m`, modes 1006/1016) and legacy
+ *   X10 (`CSI M bxy`) encodings
+ * - Bracketed paste (`CSI 200~ ... CSI 201~`, mode 2004) as a single event
+ *
+ * A lone ESC is ambiguous (Escape key, or the start of a sequence split
+ * across reads); the decoder holds it until more input arrives or the
+ * reader's escape timeout expires.
+ *
+ * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h2-PC-Style-Function-Keys
+ */
+
+import { StringDecoder } from "string_decoder"
+import { stripAnsi } from "./utils.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Key press, auto-repeat or release (release/repeat need Kitty flag 2) */
+export type KeyEventType = "press" | "repeat" | "release"
+
+/**
+ * A decoded keystroke.
+ *
+ * `key` follows KeyboardEvent.key naming: the produced character for
+ * text keys ("a", "A", "é", " ") and a name for the rest ("Enter",
+ * "ArrowUp", "F5", "Escape").
+ */
+export interface KeyEvent {
+  kind: "key"
+  /** Logical key, with Shift applied: "A" for Shift+a */
+  key: string
+  /** Base key without Shift: "a" for Shift+a; same as `key` for named keys */
+  code: string
+  /** Text the key would insert ("" for named keys and Ctrl/Alt/Meta combos) */
+  text: string
+  eventType: KeyEventType
+  shift: boolean
+  alt: boolean
+  ctrl: boolean
+  /** Super/Cmd/Meta */
+  meta: boolean
+  /** Raw input the event was decoded from */
+  sequence: string
+}
+
+/** What a mouse report describes */
+export type MouseEventType = "down" | "up" | "drag" | "move" | "wheel"
+
+/** Mouse button; "none" for motion without a button and legacy releases */
+export type MouseButton =
+  "left" | "middle" | "right" | "wheelUp" | "wheelDown" | "wheelLeft" | "wheelRight" | "back" | "forward" | "none"
+
+/**
+ * A decoded mouse report.
+ *
+ * Coordinates are 0-indexed like cursorTo(): cells by default, pixels
+ * when enableMouse({ pixels: true }) is active.
+ */
+export interface MouseEvent {
+  kind: "mouse"
+  type: MouseEventType
+  button: MouseButton
+  /** Column (or pixel x), 0-indexed */
+  x: number
+  /** Row (or pixel y), 0-indexed */
+  y: number
+  shift: boolean
+  alt: boolean
+  ctrl: boolean
+  /** Raw input the event was decoded from */
+  sequence: string
+}
+
+/**
+ * Text pasted while bracketed paste mode is on (enableBracketedPaste()).
+ * Escape sequences inside a paste are never decoded as keys.
+ */
+export interface PasteEvent {
+  kind: "paste"
+  text: string
+  /** Whether text beyond `maxPasteLength` was discarded */
+  truncated: boolean
+}
+
+/**
+ * Any event produced by the input decoder.
+ */
+export type InputEvent = KeyEvent | MouseEvent | PasteEvent
+
+/**
+ * Options for createInputDecoder().
+ */
+export interface InputDecoderOptions {
+  /** Longest paste kept, in characters; the rest is discarded (default: 1 MiB) */
+  maxPasteLength?: number
+  /**
+   * Remove escape sequences and control characters from pastes, keeping
+   * tabs and newlines and normalizing CR/CRLF to LF (default: false)
+   */
+  stripPasteControls?: boolean
+}
+
+/**
+ * Incremental decoder for terminal input.
+ */
+export interface InputDecoder {
+  /** Decode a chunk; incomplete trailing sequences are kept for the next call */
+  feed(chunk: string): InputEvent[]
+  /** Decode held-back input as-is (a lone ESC becomes the Escape key) */
+  flush(): InputEvent[]
+  /** Whether input is being held back waiting for more bytes */
+  readonly pending: boolean
+}
+
+// =============================================================================
+// Key Tables
+// =============================================================================
+
+/** Keys named by the final byte of CSI/SS3 sequences */
+const FINAL_KEYS: Record<string, string> = {
+  A: "ArrowUp",
+  B: "ArrowDown",
+  C: "ArrowRight",
+  D: "ArrowLeft",
+  E: "Clear",
+  F: "End",
+  H: "Home",
+  P: "F1",
+  Q: "F2",
+  R: "F3",
+  S: "F4",
+}
+
+/** Keys named by the number in `CSI number ~` */
+const TILDE_KEYS: Record<number, string> = {
+  1: "Home",
+  2: "Insert",
+  3: "Delete",
+  4: "End",
+  5: "PageUp",
+  6: "PageDown",
+  7: "Home",
+  8: "End",
+  11: "F1",
+  12: "F2",
+  13: "F3",
+  14: "F4",
+  15: "F5",
+  17: "F6",
+  18: "F7",
+  19: "F8",
+  20: "F9",
+  21: "F10",
+  23: "F11",
+  24: "F12",
+  25: "F13",
+  26: "F14",
+  28: "F15",
+  29: "F16",
+  31: "F17",
+  32: "F18",
+  33: "F19",
+  34: "F20",
+}
+
+/** Kitty key codes for keys without a character (C0 codes and private-use functional keys) */
+const KITTY_KEYS: Record<number, string> = {
+  9: "Tab",
+  13: "Enter",
+  27: "Escape",
+  127: "Backspace",
+  57358: "CapsLock",
+  57359: "ScrollLock",
+  57360: "NumLock",
+  57361: "PrintScreen",
+  57362: "Pause",
+  57363: "ContextMenu",
+  57414: "Enter",
+  57417: "ArrowLeft",
+  57418: "ArrowRight",
+  57419: "ArrowUp",
+  57420: "ArrowDown",
+  57421: "PageUp",
+  57422: "PageDown",
+  57423: "Home",
+  57424: "End",
+  57425: "Insert",
+  57426: "Delete",
+}
+
+/** Kitty modifier-key codes 57441-57452 (reported with flag 8) */
+const KITTY_MODIFIER_KEYS = ["Shift", "Control", "Alt", "Super", "Hyper", "Meta"]
+
+/** Kitty keypad codes 57399-57413 that produce characters */
+const KITTY_KEYPAD_CHARS = "0123456789.*/-+"
+
+/**
+ * Name of a Kitty key code, or null for a character key.
+ */
+function kittyKeyName(code: number): string | null {
+  if (KITTY_KEYS[code]) return KITTY_KEYS[code]
+  if (code >= 57376 && code <= 57398) return `F${code - 57376 + 13}`
+  if (code >= 57441 && code <= 57452) return KITTY_MODIFIER_KEYS[(code - 57441) % 6]!
+  return null
+}
+
+// =============================================================================
+// Event Construction
+// =============================================================================
+
+interface Modifiers {
+  shift: boolean
+  alt: boolean
+  ctrl: boolean
+  meta: boolean
+}
+
+const NO_MODIFIERS: Modifiers = { shift: false, alt: false, ctrl: false, meta: false }
+
+/**
+ * Decode an xterm/Kitty modifier parameter (1 + bitmask).
+ * Super (8) and Meta (32) both map to `meta`.
+ */
+function parseModifiers(param: number | undefined): Modifiers {
+  const bits = Math.max(0, (param ?? 1) - 1)
+  return { shift: (bits & 1) !== 0, alt: (bits & 2) !== 0, ctrl: (bits & 4) !== 0, meta: (bits & 40) !== 0 }
+}
+
+function parseEventType(param: number | undefined): KeyEventType {
+  return param === 2 ? "repeat" : param === 3 ? "release" : "press"
+}
+
+/** A named (non-text) key */
+function namedKey(key: string, sequence: string, mods: Modifiers = NO_MODIFIERS, eventType: KeyEventType = "press") {
+  return { kind: "key", key, code: key, text: "", eventType, ...mods, sequence } satisfies KeyEvent
+}
+
+/** A character key; `text` is filled in when no command modifier is held */
+function charKey(
+  key: string,
+  code: string,
+  sequence: string,
+  mods: Modifiers = NO_MODIFIERS,
+  eventType: KeyEventType = "press",
+): KeyEvent {
+  const text = mods.ctrl || mods.alt || mods.meta || eventType === "release" ? "" : key
+  return { kind: "key", key, code, text, eventType, ...mods, sequence }
+}
+
+/**
+ * Decode a single control character (C0 or DEL).
+ * Ctrl+letter arrives as 0x01-0x1a; Tab, Enter and Backspace have their own bytes.
+ */
+function controlKey(char: string, sequence: string): KeyEvent {
+  const code = char.charCodeAt(0)
+  const mods = NO_MODIFIERS
+  if (char === "\r" || char === "\n") return namedKey("Enter", sequence, mods)
+  if (char === "\t") return namedKey("Tab", sequence, mods)
+  if (code === 0x7f) return namedKey("Backspace", sequence, mods)
+  if (code === 0x08) return namedKey("Backspace", sequence, { ...mods, ctrl: true })
+  if (code === 0x1b) return namedKey("Escape", sequence, mods)
+  if (code === 0) return charKey(" ", " ", sequence, { ...mods, ctrl: true })
+  // 0x01-0x1a → a-z, 0x1c-0x1f → \ ] ^ _
+  const letter = code <= 0x1a ? String.fromCharCode(code + 0x60) : String.fromCharCode(code + 0x40)
+  return charKey(letter, letter, sequence, { ...mods, ctrl: true })
+}
+
+// =============================================================================
+// Sequence Decoding
+// =============================================================================
+
+/**
+ * Decode a Kitty `CSI code[:shifted[:base]] ; mods[:event] ; text u` key.
+ * Also covers xterm formatOtherKeys=1 (`CSI code ; mods u`).
+ */
+function kittyKey(params: string, sequence: string): KeyEvent | null {
+  const [keyField = "", modField = "", textField = ""] = params.split(";")
+  const [code, shifted] = keyField.split(":").map((n) => (n === "" ? undefined : Number(n)))
+  const [modParam, eventParam] = modField.split(":").map((n) => (n === "" ? undefined : Number(n)))
+  if (code === undefined || Number.isNaN(code)) return null
+
+  const mods = parseModifiers(modParam)
+  const eventType = parseEventType(eventParam)
+
+  const name = kittyKeyName(code)
+  if (name) return namedKey(name, sequence, mods, eventType)
+
+  const keypad = code >= 57399 && code <= 57413 ? KITTY_KEYPAD_CHARS[code - 57399] : undefined
+  const base = keypad ?? String.fromCodePoint(code)
+  const key =
+    mods.shift && shifted !== undefined ? String.fromCodePoint(shifted) : mods.shift ? base.toUpperCase() : base
+  const event = charKey(key, base, sequence, mods, eventType)
+  if (textField) {
+    event.text = String.fromCodePoint(...textField.split(":").map(Number))
+  }
+  return event
+}
+
+/**
+ * Decode a complete CSI sequence (without the ESC [ prefix).
+ * Returns null for sequences that are not keys.
+ */
+function csiKey(params: string, final: string, sequence: string): KeyEvent | null {
+  if (params.startsWith("?") || params.startsWith(">") || params.startsWith("<")) return null
+
+  if (final === "u") return kittyKey(params, sequence)
+
+  const fields = params.split(";")
+  const [first, modField = ""] = fields
+  const [modParam, eventParam] = modField.split(":").map((n) => (n === "" ? undefined : Number(n)))
+  const mods = parseModifiers(modParam)
+  const eventType = parseEventType(eventParam)
+
+  if (final === "~") {
+    const number = Number(first?.split(":")[0] || 0)
+    // modifyOtherKeys: CSI 27 ; mods ; code ~
+    if (number === 27 && fields[2] !== undefined) {
+      return kittyKey(`${fields[2]};${modField}`, sequence)
+    }
+    const name = TILDE_KEYS[number]
+    return name ? namedKey(name, sequence, mods, eventType) : null
+  }
+
+  if (final === "Z") return namedKey("Tab", sequence, { ...mods, shift: true }, eventType)
+  const name = FINAL_KEYS[final]
+  return name ? namedKey(name, sequence, mods, eventType) : null
+}
+
+/** Buttons by the low bits of a mouse report, for plain, wheel (64) and extra (128) buttons */
+const MOUSE_BUTTONS: MouseButton[] = ["left", "middle", "right", "none"]
+const WHEEL_BUTTONS: MouseButton[] = ["wheelUp", "wheelDown", "wheelLeft", "wheelRight"]
+const EXTRA_BUTTONS: MouseButton[] = ["back", "forward", "none", "none"]
+
+/**
+ * Build a MouseEvent from a report's button byte and 1-indexed position.
+ * `release` is set by SGR's final "m"; legacy reports release as button 3.
+ */
+function mouseEvent(cb: number, x: number, y: number, release: boolean, sequence: string): MouseEvent {
+  const low = cb & 3
+  const wheel = (cb & 64) !== 0 && (cb & 128) === 0
+  const button = wheel ? WHEEL_BUTTONS[low]! : (cb & 128) !== 0 ? EXTRA_BUTTONS[low]! : MOUSE_BUTTONS[low]!
+  const motion = (cb & 32) !== 0
+
+  let type: MouseEventType
+  if (wheel) type = "wheel"
+  else if (motion) type = button === "none" ? "move" : "drag"
+  else type = release || button === "none" ? "up" : "down"
+
+  return {
+    kind: "mouse",
+    type,
+    button,
+    x: Math.max(0, x - 1),
+    y: Math.max(0, y - 1),
+    shift: (cb & 4) !== 0,
+    alt: (cb & 8) !== 0,
+    ctrl: (cb & 16) !== 0,
+    sequence,
+  }
+}
+
+/** Decode an SGR mouse report: params "<b;x;y", final "M" (press/motion) or "m" (release) */
+function sgrMouse(params: string, final: string, sequence: string): MouseEvent | null {
+  const [cb, x, y] = params.slice(1).split(";").map(Number)
+  if (cb === undefined || x === undefined || y === undefined || [cb, x, y].some(Number.isNaN)) return null
+  return mouseEvent(cb, x, y, final === "m", sequence)
+}
+
+/** Length of the CSI sequence at `start` (pointing at ESC), or -1 if incomplete */
+function scanCsi(input: string, start: number): number {
+  let i = start + 2
+  while (i < input.length) {
+    const code = input.charCodeAt(i)
+    if (code >= 0x40 && code <= 0x7e) return i + 1 - start
+    if (code < 0x20 || code > 0x3f) return i - start // malformed: stop before the stray byte
+    i++
+  }
+  return -1
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+
+function isControlChar(code: number): boolean {
+  return code < 0x20 || code === 0x7f
+}
+
+/**
+ * Decode one event at `start`.
+ * Returns [event, length], or null if more input is needed to decide.
+ * The event is null for recognized sequences that aren't input events.
+ */
+function decodeAt(input: string, start: number, flushing: boolean): [InputEvent | null, number] | null {
+  const char = input[start]!
+  const code = input.charCodeAt(start)
+
+  if (code === 0x1b) {
+    if (start + 1 >= input.length) return flushing ? [controlKey(char, char), 1] : null
+    const next = input[start + 1]!
+
+    if (next === "[") {
+      const length = scanCsi(input, start)
+      if (length === -1) {
+        return flushing ? [charKey("[", "[", "\x1b[", { ...NO_MODIFIERS, alt: true }), 2] : null
+      }
+      const sequence = input.slice(start, start + length)
+      const final = sequence[sequence.length - 1]!
+      const params = sequence.slice(2, -1)
+
+      // Legacy X10 mouse: CSI M followed by three bytes offset by 32
+      if (sequence === "\x1b[M") {
+        if (start + 6 > input.length) return flushing ? [null, input.length - start] : null
+        const [cb, x, y] = [...input.slice(start + 3, start + 6)].map((c) => c.charCodeAt(0) - 32)
+        return [mouseEvent(cb!, x!, y!, false, input.slice(start, start + 6)), 6]
+      }
+      if (params.startsWith("<") && (final === "M" || final === "m")) {
+        return [sgrMouse(params, final, sequence), length]
+      }
+      return [csiKey(params, final, sequence), length]
+    }
+
+    if (next === "O") {
+      if (start + 2 >= input.length) {
+        return flushing ? [charKey("O", "o", "\x1bO", { ...NO_MODIFIERS, alt: true, shift: true }), 2] : null
+      }
+      const sequence = input.slice(start, start + 3)
+      const name = FINAL_KEYS[sequence[2]!]
+      return [name ? namedKey(name, sequence) : null, 3]
+    }
+
+    if (next === "\x1b") return [controlKey(char, char), 1]
+
+    // ESC + key → Alt+key
+    const inner = decodeAt(input, start + 1, flushing)
+    if (!inner) return null
+    const [event, length] = inner
+    if (event?.kind !== "key") return [event, 1 + length]
+    return [{ ...event, alt: true, text: "", sequence: input.slice(start, start + 1 + length) }, 1 + length]
+  }
+
+  if (isControlChar(code)) return [controlKey(char, char), 1]
+
+  // One grapheme cluster of printable text
+  let end = start
+  while (end < input.length && !isControlChar(input.charCodeAt(end))) end++
+  const [first] = segmenter.segment(input.slice(start, end))
+  const grapheme = first!.segment
+  const lower = grapheme.toLowerCase()
+  const shift = grapheme !== lower && grapheme.toUpperCase() === grapheme
+  return [charKey(grapheme, lower, grapheme, { ...NO_MODIFIERS, shift }), grapheme.length]
+}
+
+const PASTE_START = "\x1b[200~"
+const PASTE_END = "\x1b[201~"
+
+/** Default maxPasteLength */
+const MAX_PASTE_LENGTH = 1024 * 1024
+
+/** Clean pasted text for insertion: escape sequences and controls removed, newlines normalized */
+function sanitizePaste(text: string): string {
+  return stripAnsi(text.replace(/\r\n?/g, "\n")).replace(/[\x00-\x08\x0b-\x1f\x7f]/g, "")
+}
+
+/**
+ * Create an incremental input decoder.
+ *
+ * @example
+ * ```ts
+ * const decoder = createInputDecoder()
+ * decoder.feed("\x1b[1;5A") // [{ kind: "key", key: "ArrowUp", ctrl: true, ... }]
+ * decoder.feed("\x1b") // [] — could be Escape or a split sequence
+ * decoder.flush() // [{ kind: "key", key: "Escape", ... }]
+ * ```
+ */
+export function createInputDecoder(options: InputDecoderOptions = {}): InputDecoder {
+  const { maxPasteLength = MAX_PASTE_LENGTH, stripPasteControls = false } = options
+  let buffer = ""
+  // Paste in progress: text so far, or null outside a paste
+  let paste: string | null = null
+  let pasteTruncated = false
+
+  function appendPaste(text: string) {
+    const room = maxPasteLength - paste!.length
+    if (text.length > room) pasteTruncated = true
+    paste += text.slice(0, Math.max(0, room))
+  }
+
+  function decode(flushing: boolean): InputEvent[] {
+    const events: InputEvent[] = []
+    let i = 0
+    while (i < buffer.length) {
+      if (paste !== null) {
+        const end = buffer.indexOf(PASTE_END, i)
+        if (end === -1) {
+          // Keep a possible partial end marker for the next chunk; pastes ignore the ESC timeout
+          const keep = Math.max(i, buffer.length - (PASTE_END.length - 1))
+          appendPaste(buffer.slice(i, keep))
+          i = keep
+          break
+        }
+        appendPaste(buffer.slice(i, end))
+        const text = stripPasteControls ? sanitizePaste(paste) : paste
+        events.push({ kind: "paste", text, truncated: pasteTruncated })
+        paste = null
+        i = end + PASTE_END.length
+        continue
+      }
+      if (buffer.startsWith(PASTE_START, i)) {
+        paste = ""
+        pasteTruncated = false
+        i += PASTE_START.length
+        continue
+      }
+
+      const result = decodeAt(buffer, i, flushing)
+      if (!result) break
+      const [event, length] = result
+      if (event) events.push(event)
+      i += length
+    }
+    buffer = buffer.slice(i)
+    return events
+  }
+
+  return {
+    feed(chunk) {
+      buffer += chunk
+      return decode(false)
+    },
+    flush: () => decode(true),
+    get pending() {
+      return buffer.length > 0
+    },
+  }
+}
+
+// =============================================================================
+// Input Reader
+// =============================================================================
+
+/**
+ * Options for readInput() and term.keys().
+ */
+export interface ReadInputOptions extends InputDecoderOptions {
+  /** How long to wait before treating a lone ESC as the Escape key, in ms (default: 50) */
+  escapeTimeout?: number
+  /** Stop reading when aborted */
+  signal?: AbortSignal
+}
+
+/**
+ * Async iterator over input events that can also be closed directly.
+ */
+export interface InputReader<T> extends AsyncIterableIterator<T>, Disposable {
+  /** Stop reading and restore the terminal mode */
+  close(): void
+}
+
+/**
+ * Read decoded events from a stream.
+ *
+ * Puts a TTY into raw mode while reading. Breaking out of the loop,
+ * calling close(), disposing or aborting the signal restores the previous
+ * mode and pauses the stream, unless it was already flowing. In raw mode Ctrl+C arrives as a key event
+ * instead of SIGINT.
+ *
+ * @example
+ * ```ts
+ * for await (const event of readInput(process.stdin)) {
+ *   if (event.kind === "key" && event.ctrl && event.key === "c") break
+ *   if (event.kind === "mouse" && event.type === "down") click(event.x, event.y)
+ * }
+ * ```
+ */
+export function readInput(stdin: NodeJS.ReadStream, options: ReadInputOptions = {}): InputReader<InputEvent> {
+  const { escapeTimeout = 50, signal } = options
+  const decoder = createInputDecoder(options)
+  const utf8 = new StringDecoder("utf8")
+  const queue: InputEvent[] = []
+  let waiting: ((result: IteratorResult<InputEvent>) => void) | null = null
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let closed = false
+
+  const wasRaw = stdin.isRaw
+  const wasFlowing = stdin.readableFlowing === true
+  const canRaw = stdin.isTTY && typeof stdin.setRawMode === "function"
+  if (canRaw) stdin.setRawMode(true)
+
+  function push(events: InputEvent[]) {
+    for (const event of events) {
+      if (waiting) {
+        const resolve = waiting
+        waiting = null
+        resolve({ value: event, done: false })
+      } else {
+        queue.push(event)
+      }
+    }
+  }
+
+  const onData = (chunk: Buffer | string) => {
+    clearTimeout(timer)
+    push(decoder.feed(typeof chunk === "string" ? chunk : utf8.write(chunk)))
+    if (decoder.pending) timer = setTimeout(() => push(decoder.flush()), escapeTimeout)
+  }
+
+  function close() {
+    if (closed) return
+    closed = true
+    clearTimeout(timer)
+    stdin.off("data", onData)
+    stdin.off("end", close)
+    signal?.removeEventListener("abort", close)
+    if (canRaw) stdin.setRawMode(wasRaw ?? false)
+    // Leave a stream other listeners were already reading flowing
+    if (!wasFlowing) stdin.pause()
+    waiting?.({ value: undefined, done: true })
+    waiting = null
+  }
+
+  stdin.on("data", onData)
+  stdin.on("end", close)
+  signal?.addEventListener("abort", close)
+  if (signal?.aborted) close()
+  else stdin.resume()
+
+  return {
+    next() {
+      if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false })
+      if (closed) return Promise.resolve({ value: undefined, done: true })
+      return new Promise((resolve) => (waiting = resolve))
+    },
+    return() {
+      close()
+      return Promise.resolve({ value: undefined, done: true })
+    },
+    [Symbol.asyncIterator]() {
+      return this
+    },
+    close,
+    [Symbol.dispose]: close,
+  }
+}
+
+/**
+ * Narrow a reader to events accepted by a type guard; others are dropped.
+ */
+function filterReader<T extends InputEvent>(
+  reader: InputReader<InputEvent>,
+  accept: (event: InputEvent) => event is T,
+): InputReader<T> {
+  return {
+    async next() {
+      for (;;) {
+        const result = await reader.next()
+        if (result.done || accept(result.value)) return result as IteratorResult<T>
+      }
+    },
+    return() {
+      reader.close()
+      return Promise.resolve({ value: undefined, done: true })
+    },
+    [Symbol.asyncIterator]() {
+      return this
+    },
+    close: reader.close,
+    [Symbol.dispose]: reader.close,
+  }
+}
+
+/**
+ * Read only key events from a stream.
+ *
+ * Mouse reports, pastes and other non-key input are still decoded (so
+ * their bytes never show up as keystrokes) but dropped.
+ */
+export function readKeys(stdin: NodeJS.ReadStream, options: ReadInputOptions = {}): InputReader<KeyEvent> {
+  return filterReader(readInput(stdin, options), (event): event is KeyEvent => event.kind === "key")
+}
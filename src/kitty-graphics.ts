@@ -0,0 +1,278 @@
+/**
+ * Kitty graphics protocol.
+ *
+ * Builds APC `_G` sequences that transmit PNG or raw RGB(A) pixels and
+ * display them at the cursor. Images can be transmitted once under an id
+ * and placed many times, then deleted. Inside tmux, where APC sequences
+ * only pass through and placements would not follow the pane, unicode
+ * placeholder mode prints the image as text cells tmux can track.
+ *
+ * Supported by: Kitty, Ghostty (`caps.kittyGraphics`).
+ *
+ * @see https://sw.kovidgoyal.net/kitty/graphics-protocol/
+ */
+
+import { passthrough, type Multiplexer } from "./ansi.js"
+import { detectMultiplexer } from "./detection.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where and how large to display an image.
+ */
+export interface KittyPlacementOptions {
+  /** Display width in cells (default: image width at cell size) */
+  cols?: number
+  /** Display height in cells (default: image height at cell size) */
+  rows?: number
+  /** Placement id, to move or delete one placement of an image */
+  placement?: number
+  /** Stacking order; negative values draw below text */
+  zIndex?: number
+  /** Multiplexer to wrap for (default: detectMultiplexer()); null sends the bare sequences */
+  multiplexer?: Multiplexer | null
+}
+
+/**
+ * Options for kittyImage().
+ */
+export interface KittyImageOptions extends KittyPlacementOptions {
+  /** Pixel width; required for raw RGB/RGBA data */
+  width?: number
+  /** Pixel height; required for raw RGB/RGBA data */
+  height?: number
+  /** Image id for placing the image again with kittyPlace() (1 to 2^24-1) */
+  id?: number
+  /** Transmit without displaying (default: false) */
+  transmitOnly?: boolean
+  /**
+   * Unicode placeholder mode: create a virtual placement and append rows
+   * of placeholder characters that display it. Works inside tmux. Needs
+   * `cols` and `rows`; an id is generated when omitted.
+   */
+  placeholder?: boolean
+}
+
+/**
+ * Options for kittyDelete().
+ */
+export interface KittyDeleteOptions {
+  /** Image to delete (default: all images) */
+  id?: number
+  /** Only this placement of the image */
+  placement?: number
+  /** Also free the image data, not just its placements (default: true) */
+  free?: boolean
+  /** Multiplexer to wrap for (default: detectMultiplexer()) */
+  multiplexer?: Multiplexer | null
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/** Largest base64 payload per APC chunk allowed by the protocol */
+const CHUNK_SIZE = 4096
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/** Placeholder character for unicode placeholder mode */
+const PLACEHOLDER = "\u{10EEEE}"
+
+let nextId = 0
+
+function isPng(data: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => data[i] === byte)
+}
+
+/** Control keys in protocol order, skipping unset values */
+function controlData(keys: Record<string, string | number | undefined>): string {
+  return Object.entries(keys)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(",")
+}
+
+function apc(control: string, payload = ""): string {
+  return payload ? `\x1b_G${control};${payload}\x1b\\` : `\x1b_G${control}\x1b\\`
+}
+
+function resolveMultiplexer(options: { multiplexer?: Multiplexer | null }): Multiplexer | null {
+  return options.multiplexer === undefined ? detectMultiplexer() : options.multiplexer
+}
+
+/**
+ * Split a payload into APC chunks. Control keys go on the first chunk;
+ * every chunk but the last carries m=1. Each chunk is wrapped separately
+ * so multiplexers never see an oversized passthrough.
+ */
+function chunked(control: string, payload: string, multiplexer: Multiplexer | null): string {
+  let out = ""
+  for (let i = 0; i < payload.length; i += CHUNK_SIZE) {
+    const more = i + CHUNK_SIZE < payload.length ? 1 : 0
+    const keys = i === 0 ? `${control},m=${more}` : `m=${more}`
+    out += passthrough(apc(keys, payload.slice(i, i + CHUNK_SIZE)), multiplexer)
+  }
+  return out
+}
+
+/**
+ * Build the sequence that transmits an image and displays it at the cursor.
+ *
+ * `data` is a PNG file or raw pixels: RGBA (4 bytes per pixel) or RGB
+ * (3 bytes), with `width` and `height` given. Returns "" for raw data
+ * whose size does not match the dimensions.
+ *
+ * Responses from the terminal are suppressed (q=2), so nothing shows up
+ * on stdin.
+ *
+ * @example
+ * ```ts
+ * // Display once
+ * term.write(kittyImage(png, { cols: 40, rows: 10 }))
+ *
+ * // Transmit once, place many
+ * term.write(kittyImage(icon, { id: 7, transmitOnly: true }))
+ * term.write(cursorTo(2, 0) + kittyPlace(7, { cols: 2, rows: 1 }))
+ * term.write(cursorTo(4, 0) + kittyPlace(7, { cols: 2, rows: 1 }))
+ *
+ * // Inside tmux
+ * term.writeLine(kittyImage(png, { placeholder: true, cols: 20, rows: 5 }))
+ * ```
+ */
+export function kittyImage(data: Uint8Array, options: KittyImageOptions = {}): string {
+  const { width, height } = options
+  let format: number
+  if (isPng(data)) {
+    format = 100
+  } else if (width && height && data.length === width * height * 4) {
+    format = 32
+  } else if (width && height && data.length === width * height * 3) {
+    format = 24
+  } else {
+    return ""
+  }
+
+  const placeholder = options.placeholder ?? false
+  const id = options.id ?? (placeholder ? ++nextId : undefined)
+  const display = !options.transmitOnly
+  const control = controlData({
+    a: display ? "T" : "t",
+    f: format,
+    s: format === 100 ? undefined : width,
+    v: format === 100 ? undefined : height,
+    i: id,
+    p: display ? options.placement : undefined,
+    c: display ? options.cols : undefined,
+    r: display ? options.rows : undefined,
+    z: display ? options.zIndex : undefined,
+    U: display && placeholder ? 1 : undefined,
+    q: 2,
+  })
+
+  const payload = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("base64")
+  const sequence = chunked(control, payload, resolveMultiplexer(options))
+  if (!display || !placeholder || id === undefined) return sequence
+  return sequence + kittyPlaceholder(id, options.cols ?? 1, options.rows ?? 1).join("\n")
+}
+
+/**
+ * Display an image transmitted earlier under `id` at the cursor.
+ */
+export function kittyPlace(id: number, options: KittyPlacementOptions = {}): string {
+  const control = controlData({
+    a: "p",
+    i: id,
+    p: options.placement,
+    c: options.cols,
+    r: options.rows,
+    z: options.zIndex,
+    q: 2,
+  })
+  return passthrough(apc(control), resolveMultiplexer(options))
+}
+
+/**
+ * Delete images or placements.
+ *
+ * With no id every image on screen is removed; with an id that image (or
+ * one placement of it). Image data is freed unless `free` is false.
+ *
+ * @example
+ * ```ts
+ * term.write(kittyDelete({ id: 7 })) // remove image 7 everywhere
+ * term.write(kittyDelete()) // clear all images
+ * ```
+ */
+export function kittyDelete(options: KittyDeleteOptions = {}): string {
+  const free = options.free ?? true
+  const target = options.id === undefined ? "a" : "i"
+  const control = controlData({
+    a: "d",
+    d: free ? target.toUpperCase() : target,
+    i: options.id,
+    p: options.id === undefined ? undefined : options.placement,
+    q: 2,
+  })
+  return passthrough(apc(control), resolveMultiplexer(options))
+}
+
+// =============================================================================
+// Unicode Placeholders
+// =============================================================================
+
+/**
+ * Combining characters encoding row and column numbers (0, 1, 2, ...)
+ * in placeholder mode, from Kitty's rowcolumn-diacritics.txt.
+ */
+const DIACRITICS: string[] = [
+  0x0305, 0x030d, 0x030e, 0x0310, 0x0312, 0x033d, 0x033e, 0x033f, 0x0346, 0x034a, 0x034b, 0x034c, 0x0350, 0x0351,
+  0x0352, 0x0357, 0x035b, 0x0363, 0x0364, 0x0365, 0x0366, 0x0367, 0x0368, 0x0369, 0x036a, 0x036b, 0x036c, 0x036d,
+  0x036e, 0x036f, 0x0483, 0x0484, 0x0485, 0x0486, 0x0487, 0x0592, 0x0593, 0x0594, 0x0595, 0x0597, 0x0598, 0x0599,
+  0x059c, 0x059d, 0x059e, 0x059f, 0x05a0, 0x05a1, 0x05a8, 0x05a9, 0x05ab, 0x05ac, 0x05af, 0x05c4, 0x0610, 0x0611,
+  0x0612, 0x0613, 0x0614, 0x0615, 0x0616, 0x0617, 0x0657, 0x0658, 0x0659, 0x065a, 0x065b, 0x065d, 0x065e, 0x06d6,
+  0x06d7, 0x06d8, 0x06d9, 0x06da, 0x06db, 0x06dc, 0x06df, 0x06e0, 0x06e1, 0x06e2, 0x06e4, 0x06e7, 0x06e8, 0x06eb,
+  0x06ec, 0x0730, 0x0732, 0x0733, 0x0735, 0x0736, 0x073a, 0x073d, 0x073f, 0x0740, 0x0741, 0x0743, 0x0745, 0x0747,
+  0x0749, 0x074a, 0x07eb, 0x07ec, 0x07ed, 0x07ee, 0x07ef, 0x07f0, 0x07f1, 0x07f3, 0x0816, 0x0817, 0x0818, 0x0819,
+  0x081b, 0x081c, 0x081d, 0x081e, 0x081f, 0x0820, 0x0821, 0x0822, 0x0823, 0x0825, 0x0826, 0x0827, 0x0829, 0x082a,
+  0x082b, 0x082c, 0x082d, 0x0951, 0x0953, 0x0954, 0x0f82, 0x0f83, 0x0f86, 0x0f87, 0x135d, 0x135e, 0x135f, 0x17dd,
+  0x193a, 0x1a17, 0x1a75, 0x1a76, 0x1a77, 0x1a78, 0x1a79, 0x1a7a, 0x1a7b, 0x1a7c, 0x1b6b, 0x1b6d, 0x1b6e, 0x1b6f,
+  0x1b70, 0x1b71, 0x1b72, 0x1b73, 0x1cd0, 0x1cd1, 0x1cd2, 0x1cda, 0x1cdb, 0x1ce0, 0x1dc0, 0x1dc1, 0x1dc3, 0x1dc4,
+  0x1dc5, 0x1dc6, 0x1dc7, 0x1dc8, 0x1dc9, 0x1dcb, 0x1dcc, 0x1dd1, 0x1dd2, 0x1dd3, 0x1dd4, 0x1dd5, 0x1dd6, 0x1dd7,
+  0x1dd8, 0x1dd9, 0x1dda, 0x1ddb, 0x1ddc, 0x1ddd, 0x1dde, 0x1ddf, 0x1de0, 0x1de1, 0x1de2, 0x1de3, 0x1de4, 0x1de5,
+  0x1de6, 0x1dfe, 0x20d0, 0x20d1, 0x20d4, 0x20d5, 0x20d6, 0x20d7, 0x20db, 0x20dc, 0x20e1, 0x20e7, 0x20e9, 0x20f0,
+  0x2cef, 0x2cf0, 0x2cf1, 0x2de0, 0x2de1, 0x2de2, 0x2de3, 0x2de4, 0x2de5, 0x2de6, 0x2de7, 0x2de8, 0x2de9, 0x2dea,
+  0x2deb, 0x2dec, 0x2ded, 0x2dee, 0x2def, 0x2df0, 0x2df1, 0x2df2, 0x2df3, 0x2df4, 0x2df5, 0x2df6, 0x2df7, 0x2df8,
+  0x2df9, 0x2dfa, 0x2dfb, 0x2dfc, 0x2dfd, 0x2dfe, 0x2dff, 0xa66f, 0xa67c, 0xa67d, 0xa6f0, 0xa6f1, 0xa8e0, 0xa8e1,
+  0xa8e2, 0xa8e3, 0xa8e4, 0xa8e5, 0xa8e6, 0xa8e7, 0xa8e8, 0xa8e9, 0xa8ea, 0xa8eb, 0xa8ec, 0xa8ed, 0xa8ee, 0xa8ef,
+  0xa8f0, 0xa8f1, 0xaab0, 0xaab2, 0xaab3, 0xaab7, 0xaab8, 0xaabe, 0xaabf, 0xaac1, 0xfe20, 0xfe21, 0xfe22, 0xfe23,
+  0xfe24, 0xfe25, 0xfe26, 0x10a0f, 0x10a38, 0x1d185, 0x1d186, 0x1d187, 0x1d188, 0x1d189, 0x1d1aa, 0x1d1ab, 0x1d1ac,
+  0x1d1ad, 0x1d242, 0x1d243, 0x1d244,
+].map((codePoint) => String.fromCodePoint(codePoint))
+
+/** Largest row/column count placeholders can address */
+export const KITTY_PLACEHOLDER_MAX = DIACRITICS.length
+
+/**
+ * Rows of placeholder text that display image `id` through a virtual
+ * placement (created by kittyImage(data, { placeholder: true })).
+ *
+ * Each cell is U+10EEEE with diacritics for its row and column; the
+ * foreground color carries the image id. Print the rows at the same
+ * column on consecutive lines — they are ordinary text to tmux, renderers
+ * and live regions. Rows and columns are capped at KITTY_PLACEHOLDER_MAX.
+ */
+export function kittyPlaceholder(id: number, cols: number, rows: number): string[] {
+  const color = id < 256 ? `38;5;${id}` : `38;2;${(id >> 16) & 255};${(id >> 8) & 255};${id & 255}`
+  const lines: string[] = []
+  for (let row = 0; row < Math.min(rows, KITTY_PLACEHOLDER_MAX); row++) {
+    let line = `\x1b[${color}m`
+    for (let col = 0; col < Math.min(cols, KITTY_PLACEHOLDER_MAX); col++) {
+      line += PLACEHOLDER + DIACRITICS[row] + DIACRITICS[col]
+    }
+    lines.push(line + "\x1b[39m")
+  }
+  return lines
+}
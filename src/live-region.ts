@@ -0,0 +1,185 @@
+/**
+ * Inline live region.
+ *
+ * Repaints a block of lines in place at the bottom of normal scrollback
+ * (no alternate screen), the way progress areas in CLIs work. Log lines
+ * printed through the region — or through a patched console — appear
+ * above it and scroll away normally while the region stays put.
+ */
+
+import { format } from "util"
+import { clearLine, cursorUp, disableSyncUpdate, enableSyncUpdate } from "./ansi.js"
+import type { PatchedConsole } from "./patch-console.js"
+import type { Term } from "./term.js"
+import { displayLength } from "./utils.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for createLiveRegion().
+ */
+export interface LiveRegionOptions {
+  /**
+   * Print entries captured by this patched console above the region.
+   * Patch with `{ suppress: true }` so the original methods don't write
+   * underneath the region as well.
+   */
+  console?: PatchedConsole
+}
+
+/**
+ * A block of lines repainted in place below the scrollback.
+ */
+export interface LiveRegion extends Disposable {
+  /** Replace the region's content and repaint */
+  update(lines: string | readonly string[]): void
+  /** Print text above the region; it stays in scrollback */
+  log(text: string): void
+  /** Erase the region from the screen */
+  clear(): void
+  /** Stop updating, leaving the last content in scrollback */
+  done(): void
+}
+
+// =============================================================================
+// Live Region
+// =============================================================================
+
+/** Screen rows the lines occupy once wrapped at `cols` */
+function rowCount(lines: readonly string[], cols: number): number {
+  let rows = 0
+  for (const line of lines) rows += Math.max(1, Math.ceil(displayLength(line) / cols))
+  return rows
+}
+
+/**
+ * Create a live region at the cursor.
+ *
+ * The cursor rests at the end of the region's last line between updates.
+ * Repaints erase the previous content — counting wrapped rows at the
+ * current width, so a reflow after a resize is erased completely — and
+ * write the new content in one write, synchronized when `caps.syncOutput`
+ * is true. The region repaints itself on resize and is clipped to the
+ * terminal height.
+ *
+ * When `term.hasCursor()` is false (pipes, CI), nothing is repainted:
+ * updates with new content are appended as plain lines instead.
+ *
+ * @example
+ * ```ts
+ * using patched = patchConsole(console, { suppress: true })
+ * using region = createLiveRegion(term, { console: patched })
+ *
+ * for (const file of files) {
+ *   region.update([`Uploading ${file}`, `${done}/${files.length} files`])
+ *   console.log(`uploaded ${file}`) // printed above the region
+ * }
+ * ```
+ */
+export function createLiveRegion(term: Term, options: LiveRegionOptions = {}): LiveRegion {
+  const inline = term.hasCursor()
+  let lines: readonly string[] = []
+  // Lines currently on screen
+  let painted: readonly string[] = []
+  let paintedWidth = 0
+  let active = true
+
+  const width = () => term.cols ?? 80
+
+  /** Lines that fit on screen, from the top of the region */
+  function visible(): readonly string[] {
+    const cols = width()
+    const rows = term.rows ?? Infinity
+    let end = 0
+    let used = 0
+    while (end < lines.length) {
+      used += rowCount([lines[end]!], cols)
+      if (used > rows) break
+      end++
+    }
+    return end === lines.length ? lines : lines.slice(0, end)
+  }
+
+  /** Move to the start of the region's first row, clearing each row on the way */
+  function erase(): string {
+    const rows = rowCount(painted, width())
+    if (rows === 0) return ""
+    return "\r" + clearLine() + (cursorUp(1) + clearLine()).repeat(rows - 1)
+  }
+
+  function write(out: string) {
+    if (!out) return
+    const sync = term.caps?.syncOutput ?? false
+    term.write(sync ? enableSyncUpdate() + out + disableSyncUpdate() : out)
+  }
+
+  /** Erase, print `above` (if any), then paint the current lines */
+  function repaint(above = "") {
+    const next = visible()
+    write(erase() + above + next.join("\n"))
+    painted = next
+    paintedWidth = width()
+  }
+
+  function appendChanged() {
+    if (lines.length === 0 || lines.join("\n") === painted.join("\n")) return
+    term.write(lines.join("\n") + "\n")
+    painted = lines
+  }
+
+  function update(content: string | readonly string[]) {
+    if (!active) return
+    lines = typeof content === "string" ? content.split("\n") : content
+    if (!inline) return appendChanged()
+    const next = visible()
+    if (next.join("\n") === painted.join("\n") && paintedWidth === width()) return
+    repaint()
+  }
+
+  function log(text: string) {
+    if (!active || !inline) {
+      term.write(text + "\n")
+      return
+    }
+    repaint(text + "\n")
+  }
+
+  function clear() {
+    if (!inline) return
+    write(erase())
+    painted = []
+  }
+
+  // Console entries captured since the region was created flow above it
+  let consumed = options.console?.getSnapshot().length ?? 0
+  const unsubscribeConsole = options.console?.subscribe(() => {
+    const entries = options.console!.getSnapshot()
+    for (const entry of entries.slice(consumed)) log(format(...entry.args))
+    consumed = entries.length
+  })
+
+  const unsubscribeResize = inline
+    ? term.onResize(() => {
+        if (active && painted.length > 0) repaint()
+      })
+    : undefined
+
+  function done() {
+    if (!active) return
+    active = false
+    unsubscribeConsole?.()
+    unsubscribeResize?.()
+    // Leave the cursor below the region so later output starts on a fresh line
+    if (inline && painted.length > 0) term.write("\n")
+  }
+
+  return {
+    update,
+    log,
+    clear,
+    done,
+    [Symbol.dispose]: done,
+  }
+}
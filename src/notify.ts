@@ -0,0 +1,148 @@
+/**
+ * Desktop notifications via terminal escape sequences.
+ *
+ * Three protocols are in use, each understood by a different set of terminals:
+ * - OSC 9 (iTerm2, WezTerm): message only
+ * - OSC 99 (Kitty): title, body, urgency and id, sent as chunked metadata
+ * - OSC 777 (urxvt, foot, Ghostty): title and body
+ *
+ * notify() picks the protocol for the current terminal and wraps it for
+ * tmux/screen passthrough. Notifications reach the user's desktop even
+ * from inside SSH sessions.
+ *
+ * @see https://sw.kovidgoyal.net/kitty/desktop-notifications/
+ */
+
+import { passthrough, type Multiplexer } from "./ansi.js"
+import { detectMultiplexer, detectNotificationProtocol } from "./detection.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Notification escape sequence family.
+ */
+export type NotificationProtocol = "osc9" | "osc99" | "osc777"
+
+/**
+ * Options for notify().
+ */
+export interface NotifyOptions {
+  /** Notification title */
+  title?: string
+  /** Notification body */
+  body?: string
+  /** Urgency (OSC 99 only; default: "normal") */
+  urgency?: "low" | "normal" | "critical"
+  /**
+   * Identifier for replacing an earlier notification (OSC 99 only).
+   * Letters, digits, `_` and `-`; other characters become `_`.
+   * Generated when omitted.
+   */
+  id?: string
+  /**
+   * Protocol to use (default: detectNotificationProtocol(); term.notify()
+   * passes the term's caps); null means unsupported
+   */
+  protocol?: NotificationProtocol | null
+  /** What to send when no protocol is supported (default: "bell") */
+  fallback?: "bell" | "none"
+  /** Multiplexer to wrap for (default: detectMultiplexer()); null sends the bare sequence */
+  multiplexer?: Multiplexer | null
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/** OSC 99 payload chunk size in UTF-8 bytes, before base64 */
+const KITTY_CHUNK_BYTES = 768
+
+const URGENCY_LEVELS = { low: 0, normal: 1, critical: 2 } as const
+
+let nextId = 0
+
+/** Restrict an OSC 99 id to `[A-Za-z0-9_-]`, so `:` and `;` can't break the metadata */
+function sanitizeId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_")
+}
+
+/** Remove control characters that would terminate or corrupt the sequence */
+function sanitize(text: string): string {
+  return text.replace(/[\x00-\x1f\x7f-\x9f]/g, " ")
+}
+
+/** Split text into pieces of at most `maxBytes` UTF-8 bytes, never inside a character */
+function chunkUtf8(text: string, maxBytes: number): string[] {
+  const chunks: string[] = []
+  let chunk = ""
+  let bytes = 0
+  for (const char of text) {
+    const size = Buffer.byteLength(char)
+    if (bytes + size > maxBytes && chunk) {
+      chunks.push(chunk)
+      chunk = ""
+      bytes = 0
+    }
+    chunk += char
+    bytes += size
+  }
+  chunks.push(chunk)
+  return chunks
+}
+
+/**
+ * OSC 99 sequences: title then body, each base64-encoded and chunked.
+ * Every chunk but the last carries d=0 so Kitty waits for the rest.
+ */
+function kittyNotification(title: string, body: string, urgency: number, id: string): string {
+  const parts: [string, string][] = []
+  if (title) for (const chunk of chunkUtf8(title, KITTY_CHUNK_BYTES)) parts.push(["title", chunk])
+  if (body || !title) for (const chunk of chunkUtf8(body, KITTY_CHUNK_BYTES)) parts.push(["body", chunk])
+
+  return parts
+    .map(([kind, chunk], i) => {
+      const last = i === parts.length - 1
+      const metadata = [`i=${id}`, `d=${last ? 1 : 0}`, `p=${kind}`, "e=1"]
+      if (i === 0) metadata.push(`u=${urgency}`)
+      return `\x1b]99;${metadata.join(":")};${Buffer.from(chunk, "utf8").toString("base64")}\x1b\\`
+    })
+    .join("")
+}
+
+/**
+ * Build a desktop notification sequence for the current terminal.
+ *
+ * Returns BEL (or "" with `fallback: "none"`) when the terminal has no
+ * notification protocol.
+ *
+ * @example
+ * ```ts
+ * term.write(notify({ title: "Build finished", body: "42 packages in 3m12s" }))
+ * term.write(notify({ title: "Deploy failed", urgency: "critical", id: "deploy" }))
+ * ```
+ */
+export function notify(options: NotifyOptions): string {
+  const protocol = options.protocol === undefined ? detectNotificationProtocol() : options.protocol
+  const title = sanitize(options.title ?? "")
+  const body = sanitize(options.body ?? "")
+
+  let sequence: string
+  if (protocol === "osc99") {
+    const id = options.id ? sanitizeId(options.id) : `chalkx-${++nextId}`
+    sequence = kittyNotification(title, body, URGENCY_LEVELS[options.urgency ?? "normal"], id)
+  } else if (protocol === "osc777") {
+    // The title ends at the next ";"
+    sequence = `\x1b]777;notify;${title.replaceAll(";", ",")};${body}\x07`
+  } else if (protocol === "osc9") {
+    const message = title && body ? `${title}: ${body}` : title || body
+    // "4;" would read as OSC 9;4 taskbar progress in ConEmu, Windows Terminal and Ghostty
+    sequence = `\x1b]9;${message.startsWith("4;") ? ` ${message}` : message}\x07`
+  } else {
+    return options.fallback === "none" ? "" : "\x07"
+  }
+
+  const multiplexer = options.multiplexer === undefined ? detectMultiplexer() : options.multiplexer
+  return passthrough(sequence, multiplexer)
+}
@@ -0,0 +1,458 @@
+/**
+ * Runtime terminal capability probing.
+ *
+ * Environment variables lie over SSH, inside tmux, and for any terminal not
+ * on our hard-coded lists. Probing asks the terminal directly:
+ * - DA1 (Primary Device Attributes) — always answered, used as a sentinel
+ * - XTVERSION — terminal name and version
+ * - DECRQM — DEC private mode support (2026 sync output, 2004 paste, 1006 mouse)
+ * - Kitty keyboard query (CSI ? u)
+ *
+ * Replies are read from raw stdin and merged over the env heuristics
+ * from detectTerminalCaps().
+ *
+ * Also queries the terminal's default foreground/background and palette
+ * colors (OSC 10/11/4), which decide dark vs light theme reliably.
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html
+ * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/#detection-of-support-for-this-protocol
+ */
+
+import type { TerminalCaps } from "./detection.js"
+import type { RGB } from "./types.js"
+import { detectTerminalCaps } from "./detection.js"
+import { isDarkColor } from "./color.js"
+
+// =============================================================================
+// Query Sequences
+// =============================================================================
+
+/** Primary Device Attributes request */
+export const DA1_QUERY = "\x1b[c"
+
+/** XTVERSION request — terminal name and version */
+export const XTVERSION_QUERY = "\x1b[>0q"
+
+/** Kitty keyboard protocol flags request */
+export const KITTY_KEYBOARD_QUERY = "\x1b[?u"
+
+/**
+ * DECRQM request for a DEC private mode.
+ * The terminal replies with CSI ? mode ; status $ y.
+ */
+export function decrqmQuery(mode: number): string {
+  return `\x1b[?${mode}$p`
+}
+
+/** OSC 10 request — default foreground color */
+export const FOREGROUND_QUERY = "\x1b]10;?\x1b\\"
+
+/** OSC 11 request — default background color */
+export const BACKGROUND_QUERY = "\x1b]11;?\x1b\\"
+
+/**
+ * OSC 4 request for a palette entry (0-255).
+ */
+export function paletteQuery(index: number): string {
+  return `\x1b]4;${index};?\x1b\\`
+}
+
+/** DEC private modes probed by probeTerminalCaps() */
+const PROBED_MODES = [2026, 2004, 1006] as const
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * DECRQM mode status as reported by the terminal.
+ * - 'set' / 'reset': mode is supported and currently on / off
+ * - 'permanently-set' / 'permanently-reset': mode cannot be changed
+ * - 'unrecognized': terminal does not know the mode
+ */
+export type DecModeStatus = "unrecognized" | "set" | "reset" | "permanently-set" | "permanently-reset"
+
+const DEC_MODE_STATUS: readonly DecModeStatus[] = [
+  "unrecognized",
+  "set",
+  "reset",
+  "permanently-set",
+  "permanently-reset",
+]
+
+/**
+ * Parsed replies to the probe queries.
+ * Fields are null when the terminal did not answer that query.
+ */
+export interface ProbeResult {
+  /** DA1 attribute parameters (e.g. 4 = sixel). Null when DA1 timed out. */
+  da1: number[] | null
+  /** XTVERSION text, e.g. "kitty(0.35.2)" or "tmux 3.4" */
+  version: string | null
+  /** DECRQM replies keyed by mode number */
+  modes: Partial<Record<number, DecModeStatus>>
+  /** Current Kitty keyboard flags. Null when the protocol is not supported. */
+  kittyKeyboard: number | null
+}
+
+/**
+ * Terminal default colors as reported via OSC 10/11/4.
+ */
+export interface TerminalColors {
+  /** Default foreground color. Null when the terminal did not answer. */
+  fg: RGB | null
+  /** Default background color. Null when the terminal did not answer. */
+  bg: RGB | null
+  /** Palette entries keyed by index (only those queried and answered) */
+  palette: Partial<Record<number, RGB>>
+  /** Dark/light verdict from background luminance. Null when bg is unknown. */
+  dark: boolean | null
+}
+
+/**
+ * Capabilities and default colors from one probe.
+ */
+export interface TerminalProbe {
+  caps: TerminalCaps
+  colors: TerminalColors
+}
+
+/**
+ * Options for terminal queries.
+ */
+export interface ProbeOptions {
+  /** Maximum time to wait for replies in milliseconds (default: 200) */
+  timeout?: number
+}
+
+const DEFAULT_TIMEOUT = 200
+
+// =============================================================================
+// Query Engine
+// =============================================================================
+
+/**
+ * Write a query to the terminal and collect raw stdin bytes until `isComplete`
+ * returns true or the timeout expires.
+ *
+ * Stdin is switched to raw mode (when possible) and resumed for the duration
+ * of the query, then restored to its previous state. Resolves with whatever
+ * was received — an empty string on timeout with no reply. Never rejects.
+ *
+ * Input typed by the user while the query is in flight is consumed.
+ *
+ * @param stdin - Input stream to read replies from
+ * @param stdout - Output stream to write the query to
+ * @param query - Query escape sequence(s)
+ * @param isComplete - Predicate over the accumulated reply buffer
+ * @param options - Query options (timeout)
+ */
+export function queryTerminal(
+  stdin: NodeJS.ReadStream,
+  stdout: NodeJS.WriteStream,
+  query: string,
+  isComplete: (buffer: string) => boolean,
+  options: ProbeOptions = {},
+): Promise<string> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT
+
+  return new Promise((resolve) => {
+    let buffer = ""
+    const wasRaw = stdin.isRaw
+    const wasFlowing = stdin.readableFlowing === true
+    const canSetRaw = stdin.isTTY && typeof stdin.setRawMode === "function"
+
+    const finish = () => {
+      clearTimeout(timer)
+      stdin.removeListener("data", onData)
+      if (canSetRaw && !wasRaw) stdin.setRawMode(false)
+      if (!wasFlowing) stdin.pause()
+      resolve(buffer)
+    }
+
+    const onData = (chunk: Buffer | string) => {
+      buffer += typeof chunk === "string" ? chunk : chunk.toString("utf8")
+      if (isComplete(buffer)) finish()
+    }
+
+    const timer = setTimeout(finish, timeout)
+
+    if (canSetRaw && !wasRaw) stdin.setRawMode(true)
+    stdin.on("data", onData)
+    stdin.resume()
+    stdout.write(query)
+  })
+}
+
+// =============================================================================
+// Reply Parsing
+// =============================================================================
+
+/** DA1 reply; every probe ends with DA1_QUERY and waits for this */
+export const DA1_REPLY = /\x1b\[\?([\d;]*)c/
+const XTVERSION_REPLY = /\x1bP>\|([^\x1b\x07]*)(?:\x1b\\|\x07)/
+const DECRQM_REPLY = /\x1b\[\?(\d+);(\d)\$y/g
+const KITTY_KEYBOARD_REPLY = /\x1b\[\?(\d+)u/
+
+/**
+ * Parse a buffer of raw terminal replies into a ProbeResult.
+ * Unrelated bytes in the buffer are ignored.
+ *
+ * @example
+ * ```ts
+ * parseProbeReplies("\x1b[?2026;2$y\x1b[?62;4c")
+ * // { da1: [62, 4], version: null, modes: { 2026: "reset" }, kittyKeyboard: null }
+ * ```
+ */
+export function parseProbeReplies(buffer: string): ProbeResult {
+  const da1Match = DA1_REPLY.exec(buffer)
+  const versionMatch = XTVERSION_REPLY.exec(buffer)
+  const kittyMatch = KITTY_KEYBOARD_REPLY.exec(buffer)
+
+  const modes: ProbeResult["modes"] = {}
+  for (const match of buffer.matchAll(DECRQM_REPLY)) {
+    modes[Number(match[1])] = DEC_MODE_STATUS[Number(match[2])] ?? "unrecognized"
+  }
+
+  return {
+    da1: da1Match
+      ? da1Match[1]!
+          .split(";")
+          .filter((p) => p !== "")
+          .map(Number)
+      : null,
+    version: versionMatch ? versionMatch[1]! : null,
+    modes,
+    kittyKeyboard: kittyMatch ? Number(kittyMatch[1]) : null,
+  }
+}
+
+const OSC_COLOR_REPLY = /\x1b\](10|11|4;\d+);([^\x1b\x07]*)(?:\x1b\\|\x07)/g
+
+/**
+ * Parse an X11 color spec as returned in OSC 4/10/11 replies.
+ *
+ * Accepts `rgb:r/g/b` with 1-4 hex digits per channel (scaled to 0-255),
+ * `rgba:r/g/b/a` (alpha ignored) and `#rrggbb`.
+ * Returns null for anything else.
+ *
+ * @example
+ * ```ts
+ * parseOscColor("rgb:1e1e/1e1e/2e2e") // [30, 30, 46]
+ * parseOscColor("rgb:ff/80/00") // [255, 128, 0]
+ * ```
+ */
+export function parseOscColor(spec: string): RGB | null {
+  const rgbMatch = /^rgba?:([0-9a-f]{1,4})\/([0-9a-f]{1,4})\/([0-9a-f]{1,4})(?:\/[0-9a-f]{1,4})?$/i.exec(spec)
+  if (rgbMatch) {
+    const scale = (hex: string) => Math.round((parseInt(hex, 16) / (16 ** hex.length - 1)) * 255)
+    return [scale(rgbMatch[1]!), scale(rgbMatch[2]!), scale(rgbMatch[3]!)]
+  }
+
+  const hexMatch = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(spec)
+  if (hexMatch) {
+    return [parseInt(hexMatch[1]!, 16), parseInt(hexMatch[2]!, 16), parseInt(hexMatch[3]!, 16)]
+  }
+
+  return null
+}
+
+/**
+ * Parse a buffer of raw OSC 10/11/4 replies into TerminalColors.
+ * Unrelated bytes in the buffer are ignored.
+ */
+export function parseColorReplies(buffer: string): TerminalColors {
+  const colors: TerminalColors = { fg: null, bg: null, palette: {}, dark: null }
+
+  for (const match of buffer.matchAll(OSC_COLOR_REPLY)) {
+    const rgb = parseOscColor(match[2]!)
+    if (!rgb) continue
+    const target = match[1]!
+    if (target === "10") colors.fg = rgb
+    else if (target === "11") colors.bg = rgb
+    else colors.palette[Number(target.slice(2))] = rgb
+  }
+
+  if (colors.bg) colors.dark = isDarkColor(colors.bg)
+  return colors
+}
+
+// =============================================================================
+// Capability Merging
+// =============================================================================
+
+/**
+ * Terminals identified via XTVERSION that support the modern feature set
+ * (hyperlinks, OSC 52, extended underlines).
+ */
+const MODERN_VERSION = /^(kitty|ghostty|wezterm|foot|iterm2)/i
+
+/** Terminals identified via XTVERSION that implement the Kitty graphics protocol */
+const KITTY_GRAPHICS_VERSION = /^(kitty|ghostty)/i
+
+/** Terminals identified via XTVERSION that display OSC 1337 inline images */
+const ITERM_IMAGES_VERSION = /^(iterm2|wezterm)/i
+
+/**
+ * Resolve a DECRQM reply to a boolean.
+ * Returns `fallback` when there was no reply and the probe timed out.
+ */
+function modeSupported(probe: ProbeResult, mode: number, fallback: boolean): boolean {
+  const status = probe.modes[mode]
+  if (status === undefined) {
+    // DA1 is answered last: if it arrived, silence means "not supported"
+    return probe.da1 !== null ? false : fallback
+  }
+  return status !== "unrecognized" && status !== "permanently-reset"
+}
+
+/**
+ * Merge probe replies over environment-derived capabilities.
+ * Fields the probe says nothing about keep their heuristic values.
+ *
+ * @param probe - Parsed probe replies
+ * @param caps - Base capabilities (usually from detectTerminalCaps())
+ */
+export function mergeProbeResult(probe: ProbeResult, caps: TerminalCaps): TerminalCaps {
+  const merged: TerminalCaps = {
+    ...caps,
+    syncOutput: modeSupported(probe, 2026, caps.syncOutput),
+    bracketedPaste: modeSupported(probe, 2004, caps.bracketedPaste),
+    mouse: modeSupported(probe, 1006, caps.mouse),
+  }
+
+  if (probe.kittyKeyboard !== null) {
+    merged.kittyKeyboard = true
+  } else if (probe.da1 !== null) {
+    merged.kittyKeyboard = false
+  }
+
+  if (probe.da1 !== null) {
+    merged.sixel = probe.da1.includes(4)
+  }
+
+  const version = probe.version
+  if (version) {
+    if (!merged.program) merged.program = version.split(/[\s(]/)[0] ?? version
+    if (MODERN_VERSION.test(version)) {
+      merged.hyperlinks = true
+      merged.osc52 = true
+      merged.underlineStyles = true
+      merged.underlineColor = true
+      merged.textEmojiWide = true
+    }
+    if (KITTY_GRAPHICS_VERSION.test(version)) {
+      merged.kittyGraphics = true
+    }
+    if (ITERM_IMAGES_VERSION.test(version)) {
+      merged.itermImages = true
+    }
+  }
+
+  return merged
+}
+
+// =============================================================================
+// Probe
+// =============================================================================
+
+/** Capability queries; DA1 is appended last as the end-of-replies sentinel */
+const CAPS_QUERY = XTVERSION_QUERY + PROBED_MODES.map(decrqmQuery).join("") + KITTY_KEYBOARD_QUERY
+
+function colorQuery(palette: readonly number[] = []): string {
+  return FOREGROUND_QUERY + BACKGROUND_QUERY + palette.map(paletteQuery).join("")
+}
+
+/** Terminals answer in order, so the DA1 reply ends every probe */
+const isProbeComplete = (buffer: string) => DA1_REPLY.test(buffer)
+
+/**
+ * Probe the terminal for its capabilities and merge the replies over the
+ * environment heuristics from detectTerminalCaps().
+ *
+ * Sends XTVERSION, DECRQM for modes 2026/2004/1006 and the Kitty keyboard
+ * query, followed by DA1. Every terminal answers DA1, and answers queries in
+ * order, so the DA1 reply marks the end of all replies — unsupported queries
+ * are simply never answered. If DA1 does not arrive within the timeout
+ * (not a real terminal, or a very slow link), heuristics are kept.
+ *
+ * Returns the heuristic caps without writing anything when stdin or stdout
+ * is not a TTY.
+ *
+ * @example
+ * ```ts
+ * const caps = await probeTerminalCaps(process.stdin, process.stdout, { timeout: 100 })
+ * if (caps.syncOutput) term.write(enableSyncUpdate())
+ * ```
+ */
+export async function probeTerminalCaps(
+  stdin: NodeJS.ReadStream,
+  stdout: NodeJS.WriteStream,
+  options: ProbeOptions = {},
+): Promise<TerminalCaps> {
+  const { caps } = await probeTerminal(stdin, stdout, { ...options, colors: false })
+  return caps
+}
+
+/**
+ * Query the terminal's default foreground/background colors (OSC 10/11) and,
+ * optionally, palette entries (OSC 4).
+ *
+ * Like probeTerminalCaps(), the queries are followed by DA1 so unsupported
+ * queries do not cost the full timeout. The `dark` verdict is computed from
+ * background luminance and is the reliable source for theme selection —
+ * unlike COLORFGBG, it reflects the actual terminal theme.
+ *
+ * Returns all-null colors without writing anything when stdin or stdout
+ * is not a TTY.
+ *
+ * @example
+ * ```ts
+ * const colors = await queryTerminalColors(process.stdin, process.stdout, { palette: [1, 2] })
+ * colors.bg // [30, 30, 46]
+ * colors.dark // true
+ * ```
+ */
+export async function queryTerminalColors(
+  stdin: NodeJS.ReadStream,
+  stdout: NodeJS.WriteStream,
+  options: ProbeOptions & { palette?: number[] } = {},
+): Promise<TerminalColors> {
+  if (!stdin.isTTY || !stdout.isTTY) return parseColorReplies("")
+
+  const buffer = await queryTerminal(stdin, stdout, colorQuery(options.palette) + DA1_QUERY, isProbeComplete, options)
+  return parseColorReplies(buffer)
+}
+
+/**
+ * Probe capabilities and default colors in a single round trip: the
+ * probeTerminalCaps() and queryTerminalColors() queries are written at
+ * once, followed by one DA1, so a silent terminal costs one timeout.
+ * createTermAsync() uses this.
+ *
+ * `caps.darkBackground` follows the OSC 11 background when the terminal
+ * reports one. With `colors: false` only the capability queries are sent
+ * and `colors` is all null. Writes nothing when stdin or stdout is not a TTY.
+ *
+ * @example
+ * ```ts
+ * const { caps, colors } = await probeTerminal(process.stdin, process.stdout, { timeout: 100 })
+ * ```
+ */
+export async function probeTerminal(
+  stdin: NodeJS.ReadStream,
+  stdout: NodeJS.WriteStream,
+  options: ProbeOptions & { colors?: boolean; palette?: number[] } = {},
+): Promise<TerminalProbe> {
+  if (!stdin.isTTY || !stdout.isTTY) return { caps: detectTerminalCaps(), colors: parseColorReplies("") }
+
+  const queryColors = options.colors ?? true
+  const query = CAPS_QUERY + (queryColors ? colorQuery(options.palette) : "") + DA1_QUERY
+  const buffer = await queryTerminal(stdin, stdout, query, isProbeComplete, options)
+
+  // The reported background decides darkBackground; env guesses (and the
+  // macOS `defaults` spawn) only run when the terminal did not answer
+  const colors = parseColorReplies(queryColors ? buffer : "")
+  const caps = detectTerminalCaps({ darkBackground: colors.dark ?? undefined })
+  return { caps: mergeProbeResult(parseProbeReplies(buffer), caps), colors }
+}
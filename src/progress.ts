@@ -0,0 +1,295 @@
+/**
+ * Progress bars and spinners.
+ *
+ * Widgets that follow the term's detection instead of guessing:
+ * - Unicode block/braille characters when `hasUnicode()`, ASCII otherwise
+ * - Colors from the theme, downsampled to the `hasColor()` level
+ * - OSC 9;4 taskbar/tab progress when `caps.progress`
+ * - Plain-text lines when there is no cursor control (pipes, CI logs)
+ *
+ * Interactive output is drawn in a live region, so log lines printed
+ * through it appear above the widget.
+ */
+
+import { clearTaskbarProgress, setTaskbarProgress } from "./ansi.js"
+import { createLiveRegion, type LiveRegion } from "./live-region.js"
+import type { Term } from "./term.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for term.progress().
+ */
+export interface ProgressOptions {
+  /** Value at completion */
+  total: number
+  /** Bar width in cells (default: 30) */
+  width?: number
+  /**
+   * Line template (default: "{bar} {percent} {label}").
+   * Placeholders: {bar}, {percent}, {value}, {total}, {eta}, {label}.
+   */
+  format?: string
+  /** Initial label */
+  label?: string
+  /** Without cursor control, minimum milliseconds between printed lines (default: 5000) */
+  interval?: number
+}
+
+/**
+ * A progress bar started by term.progress().
+ */
+export interface ProgressBar extends Disposable {
+  /** Current value */
+  readonly value: number
+  /** Set the value, and optionally the label */
+  update(value: number, label?: string): void
+  /** Advance the value (default: by 1) */
+  increment(delta?: number, label?: string): void
+  /** Finish: leave the final line in place and clear taskbar progress */
+  done(): void
+}
+
+/**
+ * Options for term.spinner().
+ */
+export interface SpinnerOptions {
+  /** Animation frames (default: braille dots, or `- \ | /` without unicode) */
+  frames?: readonly string[]
+  /** Text shown after the spinner */
+  text?: string
+  /** Milliseconds per frame (default: 80) */
+  interval?: number
+}
+
+/**
+ * A spinner started by term.spinner().
+ */
+export interface Spinner extends Disposable {
+  /** Replace the text shown after the spinner */
+  update(text: string): void
+  /** Stop; leave `text` in place of the spinner line, or erase the line when omitted */
+  done(text?: string): void
+}
+
+// =============================================================================
+// Progress Bar
+// =============================================================================
+
+/** Left-aligned partial blocks by eighths (index 1-7), shared with bar charts */
+export const PARTIAL_BLOCKS = ["", "▏", "▎", "▍", "▌", "▋", "▊", "▉"]
+
+const DEFAULT_FORMAT = "{bar} {percent} {label}"
+const DEFAULT_WIDTH = 30
+const DEFAULT_INTERVAL = 5000
+
+function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "--"
+  const s = Math.round(seconds)
+  return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m${String(s % 60).padStart(2, "0")}s`
+}
+
+/**
+ * Fill a template. A placeholder that renders empty takes the whitespace
+ * after it (or, at the end, before it) along, so no double or trailing
+ * gap is left; other spacing, including padding in values, is kept.
+ */
+function fillTemplate(template: string, values: Record<string, string>): string {
+  // Literals at even indexes, placeholder names at odd ones
+  const parts = template.split(/\{(\w+)\}/)
+  for (let i = 1; i < parts.length; i += 2) {
+    const value = values[parts[i]!]
+    if (value === undefined) {
+      parts[i] = `{${parts[i]}}`
+    } else if (value) {
+      parts[i] = value
+    } else {
+      parts[i] = ""
+      if (/^\s/.test(parts[i + 1]!)) parts[i + 1] = parts[i + 1]!.replace(/^\s+/, "")
+      else if (i + 2 === parts.length) parts[i - 1] = parts[i - 1]!.replace(/\s+$/, "")
+    }
+  }
+  return parts.join("")
+}
+
+/**
+ * Draw a bar for a 0-1 fraction.
+ * Unicode bars resolve eighths of a cell; ASCII bars use `[##--]`.
+ */
+function drawBar(term: Term, fraction: number, width: number): string {
+  const cells = fraction * width
+  const full = Math.floor(cells)
+  if (!term.hasUnicode()) {
+    return `[${term.color("$primary")("#".repeat(full))}${term.dim("-".repeat(width - full))}]`
+  }
+  const partial = full < width ? PARTIAL_BLOCKS[Math.floor((cells - full) * 8)]! : ""
+  const filled = "█".repeat(full) + partial
+  const empty = "░".repeat(width - full - (partial ? 1 : 0))
+  return term.color("$primary")(filled) + term.dim(empty)
+}
+
+/**
+ * Create a progress bar on `term`. Prefer `term.progress()`.
+ *
+ * @example
+ * ```ts
+ * using bar = createProgressBar(term, { total: files.length, label: "Uploading" })
+ * for (const file of files) {
+ *   await upload(file)
+ *   bar.increment(1, file)
+ * }
+ * ```
+ */
+export function createProgressBar(term: Term, options: ProgressOptions): ProgressBar {
+  const total = Math.max(options.total, 0)
+  const width = options.width ?? DEFAULT_WIDTH
+  const format = options.format ?? DEFAULT_FORMAT
+  const interval = options.interval ?? DEFAULT_INTERVAL
+  const inline = term.hasCursor()
+  const taskbar = inline && (term.caps?.progress ?? false)
+  const region: LiveRegion | undefined = inline ? createLiveRegion(term) : undefined
+  const started = Date.now()
+
+  let value = 0
+  let label = options.label ?? ""
+  let active = true
+  let lastPercent = -1
+  let lastPrinted: number | undefined
+
+  const fraction = () => (total === 0 ? 1 : Math.min(1, Math.max(0, value / total)))
+
+  function line(bar: boolean): string {
+    const f = fraction()
+    const elapsed = (Date.now() - started) / 1000
+    return fillTemplate(format, {
+      bar: bar ? drawBar(term, f, width) : "",
+      percent: `${Math.floor(f * 100)}%`.padStart(4),
+      value: String(value),
+      total: String(total),
+      eta: formatDuration(f === 0 ? Infinity : (elapsed * (1 - f)) / f),
+      label,
+    })
+  }
+
+  function draw(final = false) {
+    const percent = Math.floor(fraction() * 100)
+    if (region) {
+      region.update(line(true))
+      if (taskbar && percent !== lastPercent) term.write(setTaskbarProgress(percent))
+    } else {
+      // Plain lines: first update, then at most once per interval, and the final state
+      const now = Date.now()
+      const due = final || lastPrinted === undefined || now - lastPrinted >= interval
+      if (!due || percent === lastPercent) return
+      term.writeLine(line(false))
+      lastPrinted = now
+    }
+    lastPercent = percent
+  }
+
+  function update(next: number, nextLabel?: string) {
+    if (!active) return
+    value = next
+    if (nextLabel !== undefined) label = nextLabel
+    draw()
+  }
+
+  function done() {
+    if (!active) return
+    draw(true)
+    active = false
+    region?.done()
+    if (taskbar) term.write(clearTaskbarProgress())
+  }
+
+  draw()
+
+  return {
+    get value() {
+      return value
+    },
+    update,
+    increment(delta = 1, nextLabel?: string) {
+      update(value + delta, nextLabel)
+    },
+    done,
+    [Symbol.dispose]: done,
+  }
+}
+
+// =============================================================================
+// Spinner
+// =============================================================================
+
+const UNICODE_FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"]
+const ASCII_FRAMES = ["-", "\\", "|", "/"]
+
+/**
+ * Create a spinner on `term`. Prefer `term.spinner()`.
+ *
+ * Without cursor control the spinner does not animate: its text is
+ * printed as a line whenever it changes.
+ *
+ * @example
+ * ```ts
+ * const spinner = createSpinner(term, { text: "Resolving dependencies" })
+ * await resolve()
+ * spinner.done(term.green("✔ Resolved"))
+ * ```
+ */
+export function createSpinner(term: Term, options: SpinnerOptions = {}): Spinner {
+  const frames = options.frames ?? (term.hasUnicode() ? UNICODE_FRAMES : ASCII_FRAMES)
+  const inline = term.hasCursor()
+  const taskbar = inline && (term.caps?.progress ?? false)
+  const region: LiveRegion | undefined = inline ? createLiveRegion(term) : undefined
+
+  let text = options.text ?? ""
+  let frame = 0
+  let active = true
+
+  function draw() {
+    if (region) {
+      region.update(text ? `${term.color("$primary")(frames[frame]!)} ${text}` : frames[frame]!)
+    } else if (text) {
+      term.writeLine(text)
+    }
+  }
+
+  const timer = region
+    ? setInterval(() => {
+        frame = (frame + 1) % frames.length
+        draw()
+      }, options.interval ?? 80)
+    : undefined
+  // Never keep the process alive just to animate
+  timer?.unref?.()
+
+  if (taskbar) term.write(setTaskbarProgress(0, "indeterminate"))
+  draw()
+
+  function done(finalText?: string) {
+    if (!active) return
+    active = false
+    clearInterval(timer)
+    if (region) {
+      if (finalText === undefined) region.clear()
+      else region.update(finalText)
+      region.done()
+    } else if (finalText !== undefined) {
+      term.writeLine(finalText)
+    }
+    if (taskbar) term.write(clearTaskbarProgress())
+  }
+
+  return {
+    update(next: string) {
+      if (!active || next === text) return
+      text = next
+      draw()
+    },
+    done,
+    [Symbol.dispose]: () => done(),
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Color quantization: map truecolor RGB to the xterm 256-color palette
+ * and to the 16 ANSI colors.
+ *
+ * Matching uses Euclidean distance in OKLab, a perceptually uniform color
+ * space, so downsampled colors keep their hue and lightness instead of
+ * collapsing to the nearest cube corner.
+ *
+ * @see https://bottosson.github.io/posts/oklab/
+ */
+
+import type { ColorLevel, RGB } from "./types.js"
+import { linearize } from "./color.js"
+
+// =============================================================================
+// Palette
+// =============================================================================
+
+/**
+ * xterm default colors for palette entries 0-15.
+ * Terminal themes override these; they are a reasonable reference for matching.
+ */
+const ANSI16_RGB: readonly RGB[] = [
+  [0, 0, 0],
+  [205, 0, 0],
+  [0, 205, 0],
+  [205, 205, 0],
+  [0, 0, 238],
+  [205, 0, 205],
+  [0, 205, 205],
+  [229, 229, 229],
+  [127, 127, 127],
+  [255, 0, 0],
+  [0, 255, 0],
+  [255, 255, 0],
+  [92, 92, 255],
+  [255, 0, 255],
+  [0, 255, 255],
+  [255, 255, 255],
+]
+
+/** Channel levels of the 6x6x6 color cube (indices 16-231) */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255] as const
+
+/**
+ * RGB value of an xterm 256-color palette index.
+ *
+ * - 0-15: xterm default ANSI colors
+ * - 16-231: 6x6x6 color cube
+ * - 232-255: 24-step grayscale ramp
+ *
+ * @example
+ * ```ts
+ * ansi256ToRgb(196) // [255, 0, 0]
+ * ansi256ToRgb(244) // [128, 128, 128]
+ * ```
+ */
+export function ansi256ToRgb(index: number): RGB {
+  if (index < 16) return ANSI16_RGB[index] ?? [0, 0, 0]
+  if (index < 232) {
+    const i = index - 16
+    return [CUBE_LEVELS[Math.floor(i / 36)]!, CUBE_LEVELS[Math.floor(i / 6) % 6]!, CUBE_LEVELS[i % 6]!]
+  }
+  const gray = 8 + (index - 232) * 10
+  return [gray, gray, gray]
+}
+
+// =============================================================================
+// OKLab
+// =============================================================================
+
+/**
+ * Color in OKLab: L = lightness, a = green-red, b = blue-yellow.
+ */
+export type Oklab = [L: number, a: number, b: number]
+
+/**
+ * Convert an sRGB color to OKLab.
+ */
+export function rgbToOklab(rgb: RGB): Oklab {
+  const r = linearize(rgb[0])
+  const g = linearize(rgb[1])
+  const b = linearize(rgb[2])
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+/**
+ * Perceptual distance between two colors (Euclidean distance in OKLab).
+ */
+export function colorDistance(a: RGB, b: RGB): number {
+  const [L1, a1, b1] = rgbToOklab(a)
+  const [L2, a2, b2] = rgbToOklab(b)
+  return Math.hypot(L1 - L2, a1 - a2, b1 - b2)
+}
+
+// =============================================================================
+// Quantization
+// =============================================================================
+
+/** OKLab values of every palette entry, computed on first use */
+let paletteOklab: Oklab[] | undefined
+
+function nearestIndex(rgb: RGB, start: number, end: number): number {
+  paletteOklab ??= Array.from({ length: 256 }, (_, i) => rgbToOklab(ansi256ToRgb(i)))
+  const [L, a, b] = rgbToOklab(rgb)
+
+  let best = start
+  let bestDistance = Infinity
+  for (let i = start; i < end; i++) {
+    const [L2, a2, b2] = paletteOklab[i]!
+    const distance = (L - L2) ** 2 + (a - a2) ** 2 + (b - b2) ** 2
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = i
+    }
+  }
+  return best
+}
+
+/**
+ * Map an RGB color to the perceptually nearest xterm 256-color index.
+ *
+ * Only the color cube and grayscale ramp (16-255) are considered:
+ * entries 0-15 are redefined by terminal themes and cannot be trusted
+ * to look like their xterm defaults.
+ *
+ * @example
+ * ```ts
+ * rgbToAnsi256([255, 0, 0]) // 196
+ * rgbToAnsi256([30, 30, 46]) // 234
+ * ```
+ */
+export function rgbToAnsi256(rgb: RGB): number {
+  return nearestIndex(rgb, 16, 256)
+}
+
+/**
+ * Map an RGB color to the perceptually nearest of the 16 ANSI colors (0-15).
+ *
+ * @example
+ * ```ts
+ * rgbToAnsi16([255, 0, 0]) // 9 (redBright)
+ * rgbToAnsi16([180, 0, 0]) // 1 (red)
+ * ```
+ */
+export function rgbToAnsi16(rgb: RGB): number {
+  return nearestIndex(rgb, 0, 16)
+}
+
+/**
+ * Downsample an RGB color for a color level.
+ *
+ * Returns the RGB unchanged for truecolor, otherwise a palette index:
+ * 16-255 for "256", 0-15 for "basic".
+ *
+ * @example
+ * ```ts
+ * quantizeColor([255, 128, 0], "truecolor") // [255, 128, 0]
+ * quantizeColor([255, 128, 0], "256") // 208
+ * quantizeColor([255, 128, 0], "basic") // 9
+ * ```
+ */
+export function quantizeColor(rgb: RGB, level: ColorLevel): RGB | number {
+  if (level === "truecolor") return rgb
+  return level === "256" ? rgbToAnsi256(rgb) : rgbToAnsi16(rgb)
+}
@@ -0,0 +1,234 @@
+/**
+ * Text raster: RGBA pixels as styled characters.
+ *
+ * The fallback for terminals without an image protocol, and a building
+ * block for charts. Every line is exactly `cols` cells wide, so rasters
+ * compose with other chalkx output:
+ * - Half blocks (`▀`/`▄`): two pixels per cell, foreground and background colored
+ * - Braille: a 2×4 dot grid per cell, monochrome
+ * - Without color, half blocks threshold each pixel instead
+ * - Without unicode, an ASCII density ramp (` .:-=+*#%@`)
+ *
+ * Colors go through the term's style chain, so they are downsampled to
+ * its hasColor() level.
+ */
+
+import type { StyleChain, Term } from "./term.js"
+import type { Color, RGB } from "./types.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Character set for rasterize().
+ */
+export type RasterMode = "halfblock" | "braille"
+
+/**
+ * Options for rasterize().
+ */
+export interface RasterOptions {
+  /** Width in cells (default: one pixel per cell, capped at the terminal width) */
+  cols?: number
+  /** Height in cells (default: keeps the aspect ratio) */
+  rows?: number
+  /** Character set (default: "halfblock") */
+  mode?: RasterMode
+  /** Luminance (0-255) at which a pixel counts as lit, for monochrome output (default: 128) */
+  threshold?: number
+  /** Light up dark pixels instead, for light backgrounds (default: false) */
+  invert?: boolean
+  /** Dot color in braille mode (default: the terminal foreground) */
+  color?: Color
+}
+
+/** Pixels below this alpha are transparent */
+const ALPHA_THRESHOLD = 128
+
+const DEFAULT_THRESHOLD = 128
+
+/** ASCII ramp from empty to dense */
+const ASCII_RAMP = " .:-=+*#%@"
+
+/** Braille dot bits by [row][column] within a cell (U+2800 + bits) */
+const BRAILLE_DOTS = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+]
+
+// =============================================================================
+// Resampling
+// =============================================================================
+
+/**
+ * Resample RGBA pixels to a new size. Downscaling averages each target
+ * pixel's footprint (weighting colors by alpha); upscaling repeats pixels.
+ */
+export function resampleRgba(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  toWidth: number,
+  toHeight: number,
+): Uint8Array {
+  if (toWidth === width && toHeight === height) return rgba.subarray(0, width * height * 4)
+  const out = new Uint8Array(toWidth * toHeight * 4)
+  const span = (i: number, from: number, to: number) => {
+    const start = Math.floor((i * from) / to)
+    return [start, Math.max(start + 1, Math.floor(((i + 1) * from) / to))] as const
+  }
+
+  for (let y = 0; y < toHeight; y++) {
+    const [y0, y1] = span(y, height, toHeight)
+    for (let x = 0; x < toWidth; x++) {
+      const [x0, x1] = span(x, width, toWidth)
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const p = (sy * width + sx) * 4
+          const alpha = rgba[p + 3]!
+          r += rgba[p]! * alpha
+          g += rgba[p + 1]! * alpha
+          b += rgba[p + 2]! * alpha
+          a += alpha
+        }
+      }
+      const o = (y * toWidth + x) * 4
+      const count = (y1 - y0) * (x1 - x0)
+      if (a > 0) out.set([Math.round(r / a), Math.round(g / a), Math.round(b / a), Math.round(a / count)], o)
+    }
+  }
+  return out
+}
+
+// =============================================================================
+// Rasterize
+// =============================================================================
+
+/** A cell before styling; null colors are the terminal default */
+interface RasterCell {
+  char: string
+  fg: RGB | null
+  bg: RGB | null
+}
+
+const sameColor = (a: RGB | null, b: RGB | null) =>
+  a === b || (a !== null && b !== null && a[0] === b[0] && a[1] === b[1] && a[2] === b[2])
+
+/** Style runs of cells sharing colors, one style call per run */
+function styleLine(term: Term, cells: RasterCell[], mono: StyleChain | null): string {
+  if (mono) return mono(cells.map((cell) => cell.char).join(""))
+  let line = ""
+  let i = 0
+  while (i < cells.length) {
+    const { fg, bg } = cells[i]!
+    let text = ""
+    for (; i < cells.length && sameColor(cells[i]!.fg, fg) && sameColor(cells[i]!.bg, bg); i++) text += cells[i]!.char
+    let chain: StyleChain | null = null
+    if (fg) chain = term.rgb(...fg)
+    if (bg) chain = (chain ?? term).bgRgb(...bg)
+    line += chain ? chain(text) : text
+  }
+  return line
+}
+
+/**
+ * Render RGBA pixels as lines of styled text, each exactly `cols` cells
+ * wide.
+ *
+ * Half-block mode colors two pixels per cell when the term has color and
+ * thresholds them otherwise; braille mode lights 2×4 dots per cell by
+ * luminance. Without unicode both fall back to an ASCII density ramp.
+ * Transparent pixels (alpha < 128) stay blank. Returns [] when `rgba`
+ * holds fewer than `width * height` pixels.
+ *
+ * @example
+ * ```ts
+ * for (const line of rasterize(term, pixels, 64, 64, { cols: 32 })) term.writeLine(line)
+ * const plot = rasterize(term, chart, 200, 80, { mode: "braille", cols: 40, color: "$primary" })
+ * ```
+ */
+export function rasterize(
+  term: Term,
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  options: RasterOptions = {},
+): string[] {
+  if (width <= 0 || height <= 0 || rgba.length < width * height * 4) return []
+
+  const unicode = term.hasUnicode()
+  const colored = term.hasColor() !== null
+  const mode = unicode ? (options.mode ?? "halfblock") : "ascii"
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD
+  const invert = options.invert ?? false
+
+  // Pixels per cell in each mode
+  const [cellX, cellY] = mode === "braille" ? [2, 4] : [1, 2]
+  const cols = Math.max(1, options.cols ?? Math.min(Math.ceil(width / cellX), term.cols ?? 80))
+  const gridWidth = cols * cellX
+  const gridHeight =
+    options.rows !== undefined
+      ? Math.max(1, options.rows) * cellY
+      : Math.max(1, Math.round((height * gridWidth) / width))
+  const rows = Math.ceil(gridHeight / cellY)
+  const pixels = resampleRgba(rgba, width, height, gridWidth, gridHeight)
+
+  const pixel = (x: number, y: number): RGB | null => {
+    if (y >= gridHeight) return null
+    const p = (y * gridWidth + x) * 4
+    return pixels[p + 3]! < ALPHA_THRESHOLD ? null : [pixels[p]!, pixels[p + 1]!, pixels[p + 2]!]
+  }
+  const luma = ([r, g, b]: RGB) => 0.299 * r + 0.587 * g + 0.114 * b
+  const lit = (rgb: RGB | null) => rgb !== null && luma(rgb) >= threshold !== invert
+
+  // Braille gets one style per line
+  const mono = mode === "braille" && colored && options.color !== undefined ? term.color(options.color) : null
+
+  const lines: string[] = []
+  for (let row = 0; row < rows; row++) {
+    const cells: RasterCell[] = []
+    for (let col = 0; col < cols; col++) {
+      if (mode === "braille") {
+        let bits = 0
+        for (let dy = 0; dy < 4; dy++) {
+          for (let dx = 0; dx < 2; dx++) if (lit(pixel(col * 2 + dx, row * 4 + dy))) bits |= BRAILLE_DOTS[dy]![dx]!
+        }
+        // U+2800 (no dots) is blank but not a space; keep empty cells plain
+        cells.push({ char: bits ? String.fromCharCode(0x2800 + bits) : " ", fg: null, bg: null })
+        continue
+      }
+
+      const top = pixel(col, row * 2)
+      const bottom = pixel(col, row * 2 + 1)
+      if (mode === "ascii") {
+        const opaque = [top, bottom].filter((rgb): rgb is RGB => rgb !== null)
+        if (opaque.length === 0) {
+          cells.push({ char: " ", fg: null, bg: null })
+          continue
+        }
+        const average = [0, 1, 2].map((c) => opaque.reduce((sum, rgb) => sum + rgb[c]!, 0) / opaque.length) as RGB
+        const level = invert ? 255 - luma(average) : luma(average)
+        const char = ASCII_RAMP[Math.min(ASCII_RAMP.length - 1, Math.floor((level / 256) * ASCII_RAMP.length))]!
+        cells.push({ char, fg: colored ? (average.map(Math.round) as RGB) : null, bg: null })
+      } else if (!colored) {
+        const [upper, lower] = [lit(top), lit(bottom)]
+        cells.push({ char: upper ? (lower ? "█" : "▀") : lower ? "▄" : " ", fg: null, bg: null })
+      } else if (top && bottom && sameColor(top, bottom)) {
+        cells.push({ char: "█", fg: top, bg: null })
+      } else if (top && bottom) {
+        cells.push({ char: "▀", fg: top, bg: bottom })
+      } else {
+        cells.push({ char: top ? "▀" : bottom ? "▄" : " ", fg: top ?? bottom, bg: null })
+      }
+    }
+    lines.push(styleLine(term, cells, mono))
+  }
+  return lines
+}
@@ -0,0 +1,253 @@
+/**
+ * Differential frame renderer.
+ *
+ * Takes whole frames of styled lines and writes only what changed since
+ * the previous frame: changed cell runs are reached with the shortest
+ * cursor movement, styles are switched with diffSgr(), and vacated line
+ * ends are erased instead of overwritten with spaces. Each frame goes out
+ * in a single write, wrapped in DEC 2026 synchronized output when the
+ * terminal supports it, so dashboards repaint without flicker even over
+ * slow links.
+ *
+ * The renderer assumes it owns the screen (typically the alternate screen)
+ * with frame line 0 at screen row 0.
+ */
+
+import stringWidth from "string-width"
+import { clearScreen, cursorHome, disableSyncUpdate, enableSyncUpdate } from "./ansi.js"
+import { applyAnsiToken, diffSgr, emptySgrState, type SgrState } from "./sgr-state.js"
+import { tokenizeAnsi } from "./tokenize.js"
+import type { Term } from "./term.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for createRenderer().
+ */
+export interface RendererOptions {
+  /** Wrap each frame in DEC 2026 synchronized output (default: term.caps.syncOutput) */
+  syncOutput?: boolean
+}
+
+/**
+ * A differential renderer bound to a term.
+ */
+export interface Renderer {
+  /**
+   * Draw a frame. Lines are styled strings without newlines; lines
+   * beyond the terminal height and text beyond its width are clipped.
+   */
+  render(frame: readonly string[]): void
+  /**
+   * Forget the previous frame so the next render repaints the whole
+   * screen. Call after writing to the screen outside the renderer.
+   */
+  invalidate(): void
+}
+
+// =============================================================================
+// Cells
+// =============================================================================
+
+/** One screen cell of a frame; wide characters are followed by a width-0 continuation */
+interface Cell {
+  char: string
+  width: number
+  style: SgrState
+  /** SGR sequence for the style, used as its identity */
+  key: string
+}
+
+const EMPTY_STYLE = emptySgrState()
+const BLANK: Cell = { char: " ", width: 1, style: EMPTY_STYLE, key: "" }
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+
+function sameCell(a: Cell, b: Cell): boolean {
+  return a.char === b.char && a.width === b.width && a.key === b.key
+}
+
+/**
+ * Lay a styled line out into cells, clipped to `cols`.
+ * Trailing unstyled blanks are dropped; missing cells are blank.
+ */
+function layoutLine(line: string, cols: number): Cell[] {
+  const cells: Cell[] = []
+  let style = EMPTY_STYLE
+  let key = ""
+
+  for (const token of tokenizeAnsi(line)) {
+    if (token.type !== "text") {
+      const next = applyAnsiToken(style, token)
+      if (next !== style) {
+        style = next
+        key = diffSgr(EMPTY_STYLE, style)
+      }
+      continue
+    }
+    for (const { segment } of segmenter.segment(token.value)) {
+      const width = stringWidth(segment)
+      if (width === 0) continue
+      if (cells.length + width > cols) return trimBlanks(cells)
+      cells.push({ char: segment, width, style, key })
+      if (width === 2) cells.push({ char: "", width: 0, style, key })
+    }
+  }
+  return trimBlanks(cells)
+}
+
+function trimBlanks(cells: Cell[]): Cell[] {
+  let end = cells.length
+  while (end > 0 && sameCell(cells[end - 1]!, BLANK)) end--
+  cells.length = end
+  return cells
+}
+
+// =============================================================================
+// Cursor Movement
+// =============================================================================
+
+interface Position {
+  row: number
+  col: number
+}
+
+function csi(n: number, final: string): string {
+  return n === 1 ? `\x1b[${final}` : `\x1b[${n}${final}`
+}
+
+/** Absolute CUP with defaulted parameters omitted */
+function absoluteMove(to: Position): string {
+  if (to.col === 0) return to.row === 0 ? cursorHome() : `\x1b[${to.row + 1}H`
+  return `\x1b[${to.row + 1};${to.col + 1}H`
+}
+
+/**
+ * Shortest sequence moving the cursor from `from` (null when unknown) to `to`.
+ * Never uses line feeds, which scroll at the bottom and add CR under onlcr.
+ */
+function moveCursor(from: Position | null, to: Position): string {
+  const absolute = absoluteMove(to)
+  if (!from) return absolute
+
+  const dy = to.row - from.row
+  const vertical = dy > 0 ? csi(dy, "B") : dy < 0 ? csi(-dy, "A") : ""
+  const dx = to.col - from.col
+  const horizontal = dx === 0 ? "" : to.col === 0 ? "\r" : dx > 0 ? csi(dx, "C") : csi(-dx, "D")
+  const relative = vertical + horizontal
+
+  return relative.length <= absolute.length ? relative : absolute
+}
+
+// =============================================================================
+// Renderer
+// =============================================================================
+
+/** Unchanged cells worth rewriting to avoid a cursor move between two changed runs */
+const MAX_GAP = 4
+
+/**
+ * Create a differential renderer that draws frames to `term`.
+ *
+ * The first frame, frames after invalidate() and frames after the
+ * terminal size changed clear the screen and paint in full; later frames
+ * only send the difference. Wide characters are written whole and never
+ * split at the right edge.
+ *
+ * @example
+ * ```ts
+ * using term = createTerm()
+ * using session = term.enter({ altScreen: true, hideCursor: true })
+ * const renderer = createRenderer(term)
+ *
+ * setInterval(() => {
+ *   renderer.render([term.bold("CPU"), `${bar(cpu())} ${cpu()}%`])
+ * }, 100)
+ * term.onResize(() => renderer.invalidate())
+ * ```
+ */
+export function createRenderer(term: Term, options: RendererOptions = {}): Renderer {
+  let previous: Cell[][] | null = null
+  let previousSize = ""
+
+  function render(frame: readonly string[]) {
+    const cols = term.cols ?? Infinity
+    const rows = term.rows ?? Infinity
+    const size = `${cols}x${rows}`
+    if (size !== previousSize) previous = null
+    previousSize = size
+
+    const next = frame.slice(0, rows).map((line) => layoutLine(line, cols))
+    let out = ""
+    let cursor: Position | null = null
+    let style = EMPTY_STYLE
+
+    const moveTo = (row: number, col: number) => {
+      out += moveCursor(cursor, { row, col })
+      cursor = { row, col }
+    }
+    const setStyle = (to: SgrState) => {
+      out += diffSgr(style, to)
+      style = to
+    }
+
+    const old = previous ?? []
+    if (!previous) out += "\x1b[0m" + clearScreen()
+
+    for (let row = 0; row < Math.max(next.length, old.length); row++) {
+      const line = next[row] ?? []
+      const oldLine = old[row] ?? []
+      const changed = (col: number) => !sameCell(line[col] ?? BLANK, oldLine[col] ?? BLANK)
+
+      // Paint changed runs within the new content, merging runs separated by small gaps
+      let col = 0
+      while (col < line.length) {
+        if (!changed(col)) {
+          col++
+          continue
+        }
+        let start = col
+        if (line[start]!.width === 0) start--
+        let end = col + 1
+        for (let scan = end; scan < line.length && scan - end <= MAX_GAP; scan++) {
+          if (changed(scan)) end = scan + 1
+        }
+
+        moveTo(row, start)
+        let at = start
+        while (at < end) {
+          const cell = line[at]!
+          setStyle(cell.style)
+          out += cell.char
+          at += cell.width
+        }
+        // At the right edge the cursor waits to wrap; its position is unreliable
+        cursor = at >= cols ? null : { row, col: at }
+        col = at
+      }
+
+      // Erase what the old line had beyond the new content
+      if (oldLine.length > line.length) {
+        moveTo(row, line.length)
+        setStyle(EMPTY_STYLE)
+        out += "\x1b[K"
+      }
+    }
+
+    setStyle(EMPTY_STYLE)
+    previous = next
+    if (!out) return
+
+    const sync = options.syncOutput ?? term.caps?.syncOutput ?? false
+    term.write(sync ? enableSyncUpdate() + out + disableSyncUpdate() : out)
+  }
+
+  return {
+    render,
+    invalidate() {
+      previous = null
+    },
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Terminal size tracking.
+ *
+ * Turns SIGWINCH and stream `resize` events into debounced size
+ * notifications, so layout code can react to resizes instead of polling
+ * `term.cols`/`term.rows` every frame. Pixel dimensions come from the
+ * XTWINOPS reports (CSI 14 t / CSI 16 t) on terminals that answer them.
+ *
+ * The watcher follows the useSyncExternalStore contract: `subscribe()`
+ * returns an unsubscribe function and `getSnapshot()` returns the same
+ * object until the size changes.
+ */
+
+import { DA1_QUERY, DA1_REPLY, queryTerminal, type ProbeOptions } from "./probe.js"
+
+// =============================================================================
+// Query Sequences
+// =============================================================================
+
+/** XTWINOPS 14 — text area size in pixels, reply CSI 4 ; height ; width t */
+export const TEXT_AREA_PIXELS_QUERY = "\x1b[14t"
+
+/** XTWINOPS 16 — character cell size in pixels, reply CSI 6 ; height ; width t */
+export const CELL_PIXELS_QUERY = "\x1b[16t"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Pixel dimensions reported by the terminal.
+ * Fields are null when the terminal did not answer.
+ */
+export interface PixelSize {
+  /** Text area width in pixels */
+  width: number | null
+  /** Text area height in pixels */
+  height: number | null
+  /** Character cell width in pixels */
+  cellWidth: number | null
+  /** Character cell height in pixels */
+  cellHeight: number | null
+}
+
+/**
+ * Terminal size in cells, plus pixels when known.
+ * `cols`/`rows` are undefined when stdout is not a TTY, like `term.cols`.
+ */
+export interface TermSize extends PixelSize {
+  cols: number | undefined
+  rows: number | undefined
+}
+
+/**
+ * Options for size watching.
+ */
+export interface ResizeOptions {
+  /** Quiet period before notifying, in milliseconds (default: 50) */
+  debounce?: number
+  /**
+   * Query pixel dimensions on subscribe and after each resize (default: false).
+   * Writes queries to stdout and reads replies from stdin; needs both to be TTYs.
+   */
+  pixels?: boolean
+  /** Maximum time to wait for pixel replies in milliseconds (default: 200) */
+  timeout?: number
+}
+
+/**
+ * Live terminal size store.
+ */
+export interface SizeWatcher extends Disposable {
+  /** Current size. Same object until the size changes. */
+  getSnapshot(): TermSize
+  /** Subscribe to size changes (useSyncExternalStore compatible). Returns unsubscribe. */
+  subscribe(onStoreChange: () => void): () => void
+  /** Call `listener` with the new size after each resize. Returns unsubscribe. */
+  onResize(listener: (size: TermSize) => void): () => void
+  /** Remove all subscribers and stop listening for resizes */
+  dispose(): void
+}
+
+// =============================================================================
+// Pixel Queries
+// =============================================================================
+
+const TEXT_AREA_REPLY = /\x1b\[4;(\d+);(\d+)t/
+const CELL_REPLY = /\x1b\[6;(\d+);(\d+)t/
+
+/**
+ * Parse XTWINOPS 14/16 replies into pixel dimensions.
+ * Unrelated bytes in the buffer are ignored.
+ *
+ * @example
+ * ```ts
+ * parseSizeReplies("\x1b[4;600;800t\x1b[6;20;10t")
+ * // { width: 800, height: 600, cellWidth: 10, cellHeight: 20 }
+ * ```
+ */
+export function parseSizeReplies(buffer: string): PixelSize {
+  const area = TEXT_AREA_REPLY.exec(buffer)
+  const cell = CELL_REPLY.exec(buffer)
+  return {
+    width: area ? Number(area[2]) : null,
+    height: area ? Number(area[1]) : null,
+    cellWidth: cell ? Number(cell[2]) : null,
+    cellHeight: cell ? Number(cell[1]) : null,
+  }
+}
+
+/**
+ * Query the text area and cell size in pixels (CSI 14 t, CSI 16 t).
+ *
+ * The queries are followed by DA1 so terminals that ignore them do not
+ * cost the full timeout. Returns all-null sizes without writing anything
+ * when stdin or stdout is not a TTY.
+ */
+export async function queryPixelSize(
+  stdin: NodeJS.ReadStream,
+  stdout: NodeJS.WriteStream,
+  options: ProbeOptions = {},
+): Promise<PixelSize> {
+  if (!stdin.isTTY || !stdout.isTTY) return parseSizeReplies("")
+
+  const query = TEXT_AREA_PIXELS_QUERY + CELL_PIXELS_QUERY + DA1_QUERY
+  const buffer = await queryTerminal(stdin, stdout, query, (buf) => DA1_REPLY.test(buf), options)
+
+  return parseSizeReplies(buffer)
+}
+
+// =============================================================================
+// Watcher
+// =============================================================================
+
+const DEFAULT_DEBOUNCE = 50
+
+function sameSize(a: TermSize, b: TermSize): boolean {
+  return (
+    a.cols === b.cols &&
+    a.rows === b.rows &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.cellWidth === b.cellWidth &&
+    a.cellHeight === b.cellHeight
+  )
+}
+
+/**
+ * Watch the terminal size.
+ *
+ * Listens to the stream's `resize` event and SIGWINCH while anyone is
+ * subscribed, coalescing bursts (a window drag fires dozens) into one
+ * notification after `debounce` ms of quiet. Subscribers are only called
+ * when the size actually changed.
+ *
+ * @example
+ * ```ts
+ * using size = watchSize(process.stdout, process.stdin, { pixels: true })
+ * size.onResize(({ cols, rows, cellWidth }) => relayout(cols, rows, cellWidth))
+ *
+ * // React
+ * const { cols, rows } = useSyncExternalStore(size.subscribe, size.getSnapshot)
+ * ```
+ */
+export function watchSize(
+  stdout: NodeJS.WriteStream,
+  stdin: NodeJS.ReadStream,
+  options: ResizeOptions = {},
+): SizeWatcher {
+  const debounce = options.debounce ?? DEFAULT_DEBOUNCE
+  const subscribers = new Set<() => void>()
+
+  let pixels: PixelSize = parseSizeReplies("")
+  let snapshot: TermSize = read()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  // Bumped on every resize so a slow pixel query cannot overwrite a newer size
+  let generation = 0
+
+  function read(): TermSize {
+    return {
+      cols: stdout.isTTY ? stdout.columns : undefined,
+      rows: stdout.isTTY ? stdout.rows : undefined,
+      ...pixels,
+    }
+  }
+
+  function update() {
+    const next = read()
+    if (sameSize(snapshot, next)) return
+    snapshot = next
+    subscribers.forEach((subscriber) => subscriber())
+  }
+
+  function refresh() {
+    update()
+    if (!options.pixels) return
+    const current = ++generation
+    void queryPixelSize(stdin, stdout, { timeout: options.timeout }).then((size) => {
+      if (current !== generation || subscribers.size === 0) return
+      pixels = size
+      update()
+    })
+  }
+
+  const onResize = () => {
+    clearTimeout(timer)
+    timer = setTimeout(refresh, debounce)
+  }
+
+  function start() {
+    stdout.on("resize", onResize)
+    if (stdout.isTTY) process.on("SIGWINCH", onResize)
+    // Catch up on resizes that happened while nobody was listening
+    if (options.pixels) refresh()
+    else update()
+  }
+
+  function stop() {
+    clearTimeout(timer)
+    generation++
+    stdout.off("resize", onResize)
+    process.off("SIGWINCH", onResize)
+  }
+
+  function subscribe(onStoreChange: () => void): () => void {
+    if (subscribers.size === 0) start()
+    subscribers.add(onStoreChange)
+    return () => {
+      if (subscribers.delete(onStoreChange) && subscribers.size === 0) stop()
+    }
+  }
+
+  function dispose() {
+    if (subscribers.size > 0) stop()
+    subscribers.clear()
+  }
+
+  return {
+    getSnapshot() {
+      // Without subscribers nothing tracks changes, so read through
+      if (subscribers.size === 0) update()
+      return snapshot
+    },
+    subscribe,
+    onResize(listener: (size: TermSize) => void) {
+      return subscribe(() => listener(snapshot))
+    },
+    dispose,
+    [Symbol.dispose]: dispose,
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Terminal session lifecycle.
+ *
+ * A session switches terminal modes on (alternate screen, hidden cursor,
+ * mouse tracking, ...) and guarantees they are switched off again — on
+ * dispose, on SIGINT/SIGTERM/SIGHUP, on uncaught exceptions and on
+ * process.exit — so a crashing app never leaves the user's shell without
+ * a cursor or stuck in mouse-reporting mode.
+ */
+
+import {
+  cursorHide,
+  cursorShow,
+  disableBracketedPaste,
+  disableKittyKeyboard,
+  disableMouse,
+  enableBracketedPaste,
+  enableKittyKeyboard,
+  enableMouse,
+  enterAltScreen,
+  leaveAltScreen,
+  type MouseTrackingOptions,
+} from "./ansi.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Terminal modes to enable for a session. Omitted modes are left alone.
+ */
+export interface SessionOptions {
+  /** Switch to the alternate screen buffer */
+  altScreen?: boolean
+  /** Hide the cursor */
+  hideCursor?: boolean
+  /** Enable mouse tracking, optionally with any-event/pixel modes */
+  mouse?: boolean | MouseTrackingOptions
+  /** Enable bracketed paste */
+  bracketedPaste?: boolean
+  /** Push Kitty keyboard flags (true means 1, disambiguate) */
+  kittyKeyboard?: boolean | number
+  /** Put stdin into raw mode */
+  rawMode?: boolean
+}
+
+/**
+ * An active terminal session. Disposing it restores the terminal.
+ */
+export interface TermSession extends Disposable {
+  /** Whether the session has not been restored yet */
+  readonly active: boolean
+  /** Undo every mode the session enabled, in reverse order. Idempotent. */
+  restore(): void
+}
+
+// =============================================================================
+// Session
+// =============================================================================
+
+/** Signals that end the process by default; the terminal is restored first */
+const EXIT_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"]
+
+/**
+ * Enable terminal modes and register crash-safe restoration.
+ *
+ * Sequences are written immediately. Restoration writes the inverse
+ * sequences in reverse order and puts stdin back into its previous mode.
+ * When a signal arrives and nothing else handles it, the signal is
+ * re-raised after restoring so the process still exits with it.
+ *
+ * @example
+ * ```ts
+ * using session = enterSession(process.stdout, process.stdin, { altScreen: true, hideCursor: true, mouse: true })
+ * // ... render, read input; throw or Ctrl+C and the terminal is still restored
+ * ```
+ */
+export function enterSession(
+  stdout: NodeJS.WriteStream,
+  stdin: NodeJS.ReadStream,
+  options: SessionOptions,
+): TermSession {
+  // Inverse of each enabled mode, in enable order
+  const undo: (() => void)[] = []
+
+  const enable = (sequence: string, inverse: string) => {
+    stdout.write(sequence)
+    undo.push(() => stdout.write(inverse))
+  }
+
+  if (options.altScreen) enable(enterAltScreen(), leaveAltScreen())
+  if (options.hideCursor) enable(cursorHide(), cursorShow())
+  if (options.mouse) {
+    const mouse = options.mouse === true ? {} : options.mouse
+    enable(enableMouse(mouse), disableMouse(mouse))
+  }
+  if (options.bracketedPaste) enable(enableBracketedPaste(), disableBracketedPaste())
+  if (options.kittyKeyboard) {
+    const flags = options.kittyKeyboard === true ? 1 : options.kittyKeyboard
+    enable(enableKittyKeyboard(flags), disableKittyKeyboard())
+  }
+  if (options.rawMode && stdin.isTTY && typeof stdin.setRawMode === "function") {
+    const wasRaw = stdin.isRaw ?? false
+    stdin.setRawMode(true)
+    undo.push(() => stdin.setRawMode(wasRaw))
+  }
+
+  let active = true
+
+  function restore() {
+    if (!active) return
+    active = false
+    process.off("exit", restore)
+    process.off("uncaughtExceptionMonitor", restore)
+    for (const signal of EXIT_SIGNALS) process.off(signal, onSignal)
+    for (const step of undo.reverse()) {
+      try {
+        step()
+      } catch {
+        // Keep restoring the remaining modes even if one write fails
+      }
+    }
+  }
+
+  function onSignal(signal: NodeJS.Signals) {
+    restore()
+    // Our listener suppressed the default exit; re-raise unless the app handles the signal itself
+    if (process.listenerCount(signal) === 0) process.kill(process.pid, signal)
+  }
+
+  process.on("exit", restore)
+  process.on("uncaughtExceptionMonitor", restore)
+  for (const signal of EXIT_SIGNALS) process.on(signal, onSignal)
+
+  return {
+    get active() {
+      return active
+    },
+    restore,
+    [Symbol.dispose]: restore,
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * SGR style state model.
+ *
+ * Answers "which style is active at column N" for a styled string, and
+ * computes the shortest escape sequence that moves a terminal from one
+ * style to another. Used by sliceAnsi()/wrapAnsi() to re-open styles at
+ * cut points, and by renderers to avoid re-sending unchanged attributes.
+ *
+ * Exported through `@beorn/chalkx/utils`.
+ */
+
+import stringWidth from "string-width"
+import { tokenizeAnsi, type AnsiToken, type SgrToken } from "./tokenize.js"
+import type { RGB, UnderlineStyle } from "./types.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A color as set by SGR: a palette index (0-255) or an RGB value.
+ * Indices 0-15 are the basic ANSI colors (30-37, 90-97).
+ */
+export type SgrColor = number | RGB
+
+/**
+ * An active OSC 8 hyperlink.
+ */
+export interface SgrHyperlink {
+  url: string
+  /** OSC 8 parameters as written, e.g. "id=42" (usually empty) */
+  params: string
+}
+
+/**
+ * Rendition state of the terminal at a point in a styled string.
+ * `null`/`false` fields are at their terminal defaults.
+ */
+export interface SgrState {
+  fg: SgrColor | null
+  bg: SgrColor | null
+  underline: UnderlineStyle | null
+  underlineColor: SgrColor | null
+  bold: boolean
+  dim: boolean
+  italic: boolean
+  blink: boolean
+  inverse: boolean
+  hidden: boolean
+  strikethrough: boolean
+  overline: boolean
+  hyperlink: SgrHyperlink | null
+}
+
+/**
+ * State with every attribute at its default (what SGR 0 produces).
+ */
+export function emptySgrState(): SgrState {
+  return {
+    fg: null,
+    bg: null,
+    underline: null,
+    underlineColor: null,
+    bold: false,
+    dim: false,
+    italic: false,
+    blink: false,
+    inverse: false,
+    hidden: false,
+    strikethrough: false,
+    overline: false,
+    hyperlink: null,
+  }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/** Underline style by SGR 4 subparameter (4:1 ... 4:5) */
+const UNDERLINE_STYLES: (UnderlineStyle | null)[] = [null, "single", "double", "curly", "dotted", "dashed"]
+
+/** The boolean attributes of SgrState */
+type SgrFlag = "bold" | "dim" | "italic" | "blink" | "inverse" | "hidden" | "strikethrough" | "overline"
+
+/** Boolean attributes switched on by a single SGR code */
+const FLAG_ON: Record<number, SgrFlag> = {
+  1: "bold",
+  2: "dim",
+  3: "italic",
+  5: "blink",
+  6: "blink",
+  7: "inverse",
+  8: "hidden",
+  9: "strikethrough",
+  53: "overline",
+}
+
+/** Attributes reset by a single SGR code */
+const RESETS: Record<number, (keyof SgrState)[]> = {
+  22: ["bold", "dim"],
+  23: ["italic"],
+  24: ["underline"],
+  25: ["blink"],
+  27: ["inverse"],
+  28: ["hidden"],
+  29: ["strikethrough"],
+  55: ["overline"],
+  39: ["fg"],
+  49: ["bg"],
+  59: ["underlineColor"],
+}
+
+/**
+ * Read an extended color (38/48/58). `args` are the numbers after the
+ * code: subparameters for the colon form, following parameters for the
+ * semicolon form. Returns the color and how many args it used.
+ */
+function readExtendedColor(args: number[], colon: boolean): [SgrColor | null, number] {
+  const mode = args[0]
+  if (mode === 5) return [args[1] ?? null, 2]
+  if (mode === 2) {
+    // Colon form may carry a color space id: 38:2:<id>:r:g:b
+    const channels = colon ? args.slice(-3) : args.slice(1, 4)
+    if (channels.length < 3) return [null, args.length]
+    return [channels as RGB, 4]
+  }
+  return [null, 1]
+}
+
+/**
+ * Apply one SGR sequence to a state, returning the new state.
+ */
+function applySgr(state: SgrState, token: SgrToken): SgrState {
+  const next = { ...state }
+  const params = token.params
+  for (let i = 0; i < params.length; i++) {
+    const { value: code, subparams } = params[i]!
+
+    if (code === 38 || code === 48 || code === 58) {
+      const colon = subparams.length > 0
+      const args = colon ? subparams : params.slice(i + 1).map((p) => p.value)
+      const [color, used] = readExtendedColor(args, colon)
+      if (!colon) i += used
+      if (color === null) continue
+      if (code === 38) next.fg = color
+      else if (code === 48) next.bg = color
+      else next.underlineColor = color
+    } else if (code === 0) {
+      Object.assign(next, emptySgrState(), { hyperlink: next.hyperlink })
+    } else if (code === 4) {
+      // 4:0 turns underline off; unknown styles fall back to single
+      const style = subparams[0]
+      next.underline = style === 0 ? null : style === undefined ? "single" : (UNDERLINE_STYLES[style] ?? "single")
+    } else if (code === 21) {
+      next.underline = "double"
+    } else if (code >= 30 && code <= 37) {
+      next.fg = code - 30
+    } else if (code >= 90 && code <= 97) {
+      next.fg = code - 90 + 8
+    } else if (code >= 40 && code <= 47) {
+      next.bg = code - 40
+    } else if (code >= 100 && code <= 107) {
+      next.bg = code - 100 + 8
+    } else if (FLAG_ON[code]) {
+      next[FLAG_ON[code]] = true
+    } else if (RESETS[code]) {
+      const defaults = emptySgrState()
+      for (const key of RESETS[code]) Object.assign(next, { [key]: defaults[key] })
+    }
+  }
+  return next
+}
+
+/**
+ * Apply a token to a state, returning the new state.
+ *
+ * SGR sequences change attributes and OSC 8 opens or closes the
+ * hyperlink; every other token leaves the state unchanged.
+ */
+export function applyAnsiToken(state: SgrState, token: AnsiToken): SgrState {
+  if (token.type === "sgr") return applySgr(state, token)
+  if (token.type === "osc" && token.command === "8") {
+    const separator = token.data.indexOf(";")
+    const url = separator === -1 ? "" : token.data.slice(separator + 1)
+    return { ...state, hyperlink: url ? { url, params: token.data.slice(0, Math.max(0, separator)) } : null }
+  }
+  return state
+}
+
+/**
+ * Compute the style active at a display column of a string.
+ *
+ * Every escape sequence before the character at `offset` is applied;
+ * with no offset the result is the state at the end of the string.
+ *
+ * @param str - String potentially containing ANSI codes
+ * @param offset - Display column to inspect (default: end of string)
+ *
+ * @example
+ * ```ts
+ * const s = `plain ${term.bold.red("alert")}`
+ * parseSgrState(s, 0).bold // false
+ * parseSgrState(s, 6) // { ...emptySgrState(), bold: true, fg: 1 }
+ * ```
+ */
+export function parseSgrState(str: string, offset = Infinity): SgrState {
+  let state = emptySgrState()
+  let column = 0
+  for (const token of tokenizeAnsi(str)) {
+    if (token.type === "text") {
+      column += stringWidth(token.value)
+      if (column > offset) break
+    } else {
+      state = applyAnsiToken(state, token)
+    }
+  }
+  return state
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+function sameColor(a: SgrColor | null, b: SgrColor | null): boolean {
+  if (typeof a === "object" && a !== null && typeof b === "object" && b !== null) {
+    return a[0] === b[0] && a[1] === b[1] && a[2] === b[2]
+  }
+  return a === b
+}
+
+/** SGR parameters that select a color; `base` is 30 (fg) or 40 (bg) */
+function colorCode(color: SgrColor, base: 30 | 40): string {
+  if (typeof color !== "number") return `${base + 8};2;${color.join(";")}`
+  if (color < 8) return String(base + color)
+  if (color < 16) return String(base + 60 + color - 8)
+  return `${base + 8};5;${color}`
+}
+
+function underlineColorCode(color: SgrColor): string {
+  return typeof color === "number" ? `58:5:${color}` : `58:2::${color.join(":")}`
+}
+
+function underlineCode(style: UnderlineStyle): string {
+  return style === "single" ? "4" : `4:${UNDERLINE_STYLES.indexOf(style)}`
+}
+
+/** Boolean attributes with their on codes and off code, in emission order */
+const FLAGS: [SgrFlag, string, string][] = [
+  ["bold", "1", "22"],
+  ["dim", "2", "22"],
+  ["italic", "3", "23"],
+  ["blink", "5", "25"],
+  ["inverse", "7", "27"],
+  ["hidden", "8", "28"],
+  ["strikethrough", "9", "29"],
+  ["overline", "53", "55"],
+]
+
+/**
+ * SGR parameters that turn `from` into `to` attribute by attribute.
+ */
+function incrementalCodes(from: SgrState, to: SgrState): string[] {
+  const off: string[] = []
+  const on: string[] = []
+
+  // 22 resets both bold and dim, so a surviving one must be re-enabled
+  const intensityOff = (from.bold && !to.bold) || (from.dim && !to.dim)
+  for (const [key, onCode, offCode] of FLAGS) {
+    if (key === "bold" || key === "dim") {
+      if (intensityOff && !off.includes("22")) off.push("22")
+      if (to[key] && (intensityOff || !from[key])) on.push(onCode)
+    } else if (to[key] && !from[key]) {
+      on.push(onCode)
+    } else if (from[key] && !to[key]) {
+      off.push(offCode)
+    }
+  }
+
+  if (from.underline !== to.underline) {
+    if (to.underline) on.push(underlineCode(to.underline))
+    else off.push("24")
+  }
+  if (!sameColor(from.fg, to.fg)) {
+    if (to.fg === null) off.push("39")
+    else on.push(colorCode(to.fg, 30))
+  }
+  if (!sameColor(from.bg, to.bg)) {
+    if (to.bg === null) off.push("49")
+    else on.push(colorCode(to.bg, 40))
+  }
+  if (!sameColor(from.underlineColor, to.underlineColor)) {
+    if (to.underlineColor === null) off.push("59")
+    else on.push(underlineColorCode(to.underlineColor))
+  }
+
+  return [...off, ...on]
+}
+
+function sgr(codes: string[]): string {
+  return codes.length > 0 ? `\x1b[${codes.join(";")}m` : ""
+}
+
+function hyperlinkDiff(from: SgrHyperlink | null, to: SgrHyperlink | null): string {
+  if (from?.url === to?.url && from?.params === to?.params) return ""
+  return to ? `\x1b]8;${to.params};${to.url}\x1b\\` : "\x1b]8;;\x1b\\"
+}
+
+/**
+ * Shortest escape sequence that turns style `from` into style `to`.
+ *
+ * Chooses between switching attributes individually and resetting with
+ * SGR 0 followed by the full target style, whichever is shorter.
+ * Returns "" when the states are equal.
+ *
+ * @example
+ * ```ts
+ * const bold = { ...emptySgrState(), bold: true }
+ * diffSgr(emptySgrState(), bold) // "\x1b[1m"
+ * diffSgr(bold, { ...bold, fg: 1 }) // "\x1b[31m"
+ * diffSgr({ ...bold, italic: true, fg: 1 }, emptySgrState()) // "\x1b[0m"
+ * ```
+ */
+export function diffSgr(from: SgrState, to: SgrState): string {
+  const incremental = sgr(incrementalCodes(from, to))
+  const reset = sgr(["0", ...incrementalCodes(emptySgrState(), to)])
+  const codes = incremental.length <= reset.length ? incremental : reset
+  return codes + hyperlinkDiff(from.hyperlink, to.hyperlink)
+}
+
+/**
+ * Escape sequence that turns off exactly the attributes active in `state`.
+ *
+ * Unlike `diffSgr(state, emptySgrState())` this never uses SGR 0, so
+ * styles set outside the string (e.g. a table row background) survive.
+ */
+export function closeSgr(state: SgrState): string {
+  return sgr(incrementalCodes(state, emptySgrState())) + hyperlinkDiff(state.hyperlink, null)
+}
@@ -0,0 +1,255 @@
+/**
+ * Sixel image encoder.
+ *
+ * Sixel paints images as bands six pixels tall, one palette color at a
+ * time. Images are reduced to at most 256 colors by median cut, with
+ * optional Floyd–Steinberg dithering to hide banding in gradients.
+ * Transparent pixels (alpha < 128) are left unpainted.
+ *
+ * Supported by: foot, WezTerm, xterm (`-ti vt340`), mlterm (`caps.sixel`).
+ *
+ * @see https://vt100.net/docs/vt3xx-gp/chapter14.html
+ */
+
+import type { RGB } from "./types.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for encodeSixel().
+ */
+export interface SixelOptions {
+  /** Palette size, 2-256 (default: 256) */
+  maxColors?: number
+  /** Diffuse quantization error with Floyd–Steinberg dithering (default: false) */
+  dither?: boolean
+}
+
+// =============================================================================
+// Palette Quantization
+// =============================================================================
+
+const DEFAULT_MAX_COLORS = 256
+
+/** Pixels below this alpha are transparent */
+const ALPHA_THRESHOLD = 128
+
+/** Colors in a median-cut box, with pixel counts */
+interface ColorBox {
+  colors: number[]
+  counts: number[]
+  /** Widest channel, computed once per box */
+  widest?: { shift: number; range: number }
+}
+
+const channel = (color: number, shift: number) => (color >> shift) & 255
+
+/** Shift of the channel (16 red, 8 green, 0 blue) with the widest range in the box */
+function widestChannel(box: ColorBox): { shift: number; range: number } {
+  let widest = { shift: 16, range: -1 }
+  for (const shift of [16, 8, 0]) {
+    let min = 255
+    let max = 0
+    for (const color of box.colors) {
+      const value = channel(color, shift)
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    if (max - min > widest.range) widest = { shift, range: max - min }
+  }
+  return widest
+}
+
+/** Split a box at the pixel-weighted median of its widest channel */
+function splitBox(box: ColorBox, shift: number): [ColorBox, ColorBox] {
+  const order = box.colors
+    .map((_, i) => i)
+    .sort((a, b) => channel(box.colors[a]!, shift) - channel(box.colors[b]!, shift))
+  const total = box.counts.reduce((sum, count) => sum + count, 0)
+  let seen = 0
+  let cut = 1
+  for (; cut < order.length - 1; cut++) {
+    seen += box.counts[order[cut - 1]!]!
+    if (seen >= total / 2) break
+  }
+  const pick = (indices: number[]): ColorBox => ({
+    colors: indices.map((i) => box.colors[i]!),
+    counts: indices.map((i) => box.counts[i]!),
+  })
+  return [pick(order.slice(0, cut)), pick(order.slice(cut))]
+}
+
+/** Pixel-weighted mean color of a box */
+function averageColor(box: ColorBox): RGB {
+  let r = 0
+  let g = 0
+  let b = 0
+  let total = 0
+  box.colors.forEach((color, i) => {
+    const count = box.counts[i]!
+    r += channel(color, 16) * count
+    g += channel(color, 8) * count
+    b += channel(color, 0) * count
+    total += count
+  })
+  return [Math.round(r / total), Math.round(g / total), Math.round(b / total)]
+}
+
+/**
+ * Build a palette of at most `maxColors` colors for the opaque pixels.
+ * Images with few enough distinct colors keep them exactly.
+ */
+function buildPalette(rgba: Uint8Array, pixels: number, maxColors: number): RGB[] {
+  const histogram = new Map<number, number>()
+  for (let i = 0; i < pixels; i++) {
+    const p = i * 4
+    if (rgba[p + 3]! < ALPHA_THRESHOLD) continue
+    const color = (rgba[p]! << 16) | (rgba[p + 1]! << 8) | rgba[p + 2]!
+    histogram.set(color, (histogram.get(color) ?? 0) + 1)
+  }
+  if (histogram.size <= maxColors) {
+    return [...histogram.keys()].map((color) => [channel(color, 16), channel(color, 8), channel(color, 0)])
+  }
+
+  const boxes: ColorBox[] = [{ colors: [...histogram.keys()], counts: [...histogram.values()] }]
+  while (boxes.length < maxColors) {
+    let target = -1
+    let widest = { shift: 0, range: 0 }
+    boxes.forEach((box, i) => {
+      if (box.colors.length < 2) return
+      const candidate = (box.widest ??= widestChannel(box))
+      if (candidate.range > widest.range) {
+        target = i
+        widest = candidate
+      }
+    })
+    if (target === -1) break
+    boxes.splice(target, 1, ...splitBox(boxes[target]!, widest.shift))
+  }
+  return boxes.map(averageColor)
+}
+
+/** Map each pixel to a palette index, -1 for transparent pixels */
+function mapPixels(rgba: Uint8Array, width: number, height: number, palette: RGB[], dither: boolean): Int16Array {
+  const indices = new Int16Array(width * height)
+  const cache = new Map<number, number>()
+
+  function nearest(r: number, g: number, b: number): number {
+    const key = (r << 16) | (g << 8) | b
+    const cached = cache.get(key)
+    if (cached !== undefined) return cached
+    let best = 0
+    let bestDistance = Infinity
+    palette.forEach(([pr, pg, pb], i) => {
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2
+      if (distance < bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    })
+    cache.set(key, best)
+    return best
+  }
+
+  // Working copy accumulating diffused error
+  const work = new Float32Array(width * height * 3)
+  for (let i = 0; i < width * height; i++) {
+    work[i * 3] = rgba[i * 4]!
+    work[i * 3 + 1] = rgba[i * 4 + 1]!
+    work[i * 3 + 2] = rgba[i * 4 + 2]!
+  }
+
+  const clamp = (value: number) => Math.min(255, Math.max(0, Math.round(value)))
+  const diffuse = (x: number, y: number, error: number[], weight: number) => {
+    if (x < 0 || x >= width || y >= height) return
+    const w = (y * width + x) * 3
+    for (let c = 0; c < 3; c++) work[w + c] = work[w + c]! + error[c]! * weight
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (rgba[i * 4 + 3]! < ALPHA_THRESHOLD) {
+        indices[i] = -1
+        continue
+      }
+      const color = [clamp(work[i * 3]!), clamp(work[i * 3 + 1]!), clamp(work[i * 3 + 2]!)] as RGB
+      const index = nearest(...color)
+      indices[i] = index
+      if (!dither) continue
+      const error = color.map((value, c) => value - palette[index]![c]!)
+      diffuse(x + 1, y, error, 7 / 16)
+      diffuse(x - 1, y + 1, error, 3 / 16)
+      diffuse(x, y + 1, error, 5 / 16)
+      diffuse(x + 1, y + 1, error, 1 / 16)
+    }
+  }
+  return indices
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/** Run-length encode a row of sixel characters (`!<count><char>`) */
+function runLength(row: Uint8Array, length: number): string {
+  let out = ""
+  let x = 0
+  while (x < length) {
+    const bits = row[x]!
+    let run = 1
+    while (x + run < length && row[x + run] === bits) run++
+    const char = String.fromCharCode(63 + bits)
+    out += run > 3 ? `!${run}${char}` : char.repeat(run)
+    x += run
+  }
+  return out
+}
+
+/**
+ * Encode RGBA pixels as a sixel DCS sequence.
+ *
+ * The palette is reduced to `maxColors` by median cut; `dither` diffuses
+ * the remaining error. Returns "" when `rgba` holds fewer than
+ * `width * height` pixels.
+ *
+ * @example
+ * ```ts
+ * if (term.caps?.sixel) term.write(encodeSixel(pixels, 320, 200, { maxColors: 64, dither: true }))
+ * ```
+ */
+export function encodeSixel(rgba: Uint8Array, width: number, height: number, options: SixelOptions = {}): string {
+  if (width <= 0 || height <= 0 || rgba.length < width * height * 4) return ""
+  const maxColors = Math.min(256, Math.max(2, options.maxColors ?? DEFAULT_MAX_COLORS))
+  const palette = buildPalette(rgba, width * height, maxColors)
+  const indices = mapPixels(rgba, width, height, palette, options.dither ?? false)
+
+  // P2=1: pixels without a set bit keep the background (transparency)
+  let out = `\x1bP0;1;0q"1;1;${width};${height}`
+  palette.forEach(([r, g, b], i) => {
+    out += `#${i};2;${Math.round((r * 100) / 255)};${Math.round((g * 100) / 255)};${Math.round((b * 100) / 255)}`
+  })
+
+  const bands: string[] = []
+  for (let top = 0; top < height; top += 6) {
+    // Sixel bits per color for this band; bit n is row top + n
+    const rows = new Map<number, Uint8Array>()
+    const ends = new Map<number, number>()
+    for (let dy = 0; dy < 6 && top + dy < height; dy++) {
+      for (let x = 0; x < width; x++) {
+        const index = indices[(top + dy) * width + x]!
+        if (index < 0) continue
+        let row = rows.get(index)
+        if (!row) rows.set(index, (row = new Uint8Array(width)))
+        row[x]! |= 1 << dy
+        ends.set(index, Math.max(ends.get(index) ?? 0, x + 1))
+      }
+    }
+    const colors = [...rows.keys()].sort((a, b) => a - b)
+    bands.push(colors.map((index) => `#${index}${runLength(rows.get(index)!, ends.get(index)!)}`).join("$"))
+  }
+
+  return out + bands.join("-") + "\x1b\\"
+}
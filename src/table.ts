@@ -0,0 +1,224 @@
+/**
+ * Tables.
+ *
+ * Cells are measured with displayLength(), so styled text, extended
+ * underlines and OSC 8 hyperlinks count only their visible width. Cells
+ * that don't fit are wrapped or truncated with the ANSI-aware text
+ * helpers, which close and re-open styles and links at every cut — nothing
+ * bleeds into padding or borders.
+ */
+
+import { truncateAnsi, wrapAnsi } from "./text.js"
+import type { Term } from "./term.js"
+import { displayLength } from "./utils.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Horizontal alignment of cell content.
+ */
+export type TableAlign = "left" | "right" | "center"
+
+/**
+ * Border style. Box-drawing styles fall back to "ascii" (`+-|`) when the
+ * term has no unicode.
+ */
+export type TableBorder = "single" | "rounded" | "double" | "ascii" | "none"
+
+/**
+ * A table column.
+ */
+export interface TableColumn {
+  /** Header text, printed bold above a separator */
+  header?: string
+  /** Alignment, overriding the table's `align` */
+  align?: TableAlign
+  /** Fixed content width in cells */
+  width?: number
+  /** Narrowest content width when shrinking to fit (default: 1) */
+  minWidth?: number
+}
+
+/**
+ * Options for renderTable().
+ */
+export interface TableOptions {
+  /** Columns, or just their headers (default: no header row) */
+  columns?: readonly (TableColumn | string)[]
+  /** Border style (default: "single") */
+  border?: TableBorder
+  /** Alignment for all columns, or per column (default: "left") */
+  align?: TableAlign | readonly TableAlign[]
+  /** Total width to fit in (default: term.cols, or 80) */
+  maxWidth?: number
+  /** Wrap cells that don't fit; false truncates them with an ellipsis (default: true) */
+  wrap?: boolean
+}
+
+/** A cell value; null and undefined render empty */
+export type TableCell = string | number | boolean | null | undefined
+
+// =============================================================================
+// Borders
+// =============================================================================
+
+interface BorderChars {
+  horizontal: string
+  vertical: string
+  top: [left: string, middle: string, right: string]
+  separator: [left: string, middle: string, right: string]
+  bottom: [left: string, middle: string, right: string]
+}
+
+const BORDERS: Record<Exclude<TableBorder, "none">, BorderChars> = {
+  single: {
+    horizontal: "─",
+    vertical: "│",
+    top: ["┌", "┬", "┐"],
+    separator: ["├", "┼", "┤"],
+    bottom: ["└", "┴", "┘"],
+  },
+  rounded: {
+    horizontal: "─",
+    vertical: "│",
+    top: ["╭", "┬", "╮"],
+    separator: ["├", "┼", "┤"],
+    bottom: ["╰", "┴", "╯"],
+  },
+  double: {
+    horizontal: "═",
+    vertical: "║",
+    top: ["╔", "╦", "╗"],
+    separator: ["╠", "╬", "╣"],
+    bottom: ["╚", "╩", "╝"],
+  },
+  ascii: {
+    horizontal: "-",
+    vertical: "|",
+    top: ["+", "+", "+"],
+    separator: ["+", "+", "+"],
+    bottom: ["+", "+", "+"],
+  },
+}
+
+/** Gap between columns without borders */
+const COLUMN_GAP = "  "
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/** Lines of a cell, each closing its own styles */
+function cellLines(cell: TableCell): string[] {
+  return wrapAnsi(String(cell ?? ""), Infinity, { trim: false }).split("\n")
+}
+
+function pad(text: string, width: number, align: TableAlign): string {
+  const space = Math.max(0, width - displayLength(text))
+  if (align === "right") return " ".repeat(space) + text
+  if (align === "center") return " ".repeat(Math.floor(space / 2)) + text + " ".repeat(Math.ceil(space / 2))
+  return text + " ".repeat(space)
+}
+
+/**
+ * Shrink the widest flexible column one cell at a time until the content
+ * fits `available`. Fixed-width columns and columns at their minimum stay.
+ */
+function fitWidths(natural: number[], columns: TableColumn[], available: number): number[] {
+  const widths = natural.map((width, i) => columns[i]?.width ?? width)
+  let total = widths.reduce((sum, width) => sum + width, 0)
+  while (total > available) {
+    let widest = -1
+    widths.forEach((width, i) => {
+      const column = columns[i]
+      if (column?.width !== undefined || width <= Math.max(1, column?.minWidth ?? 1)) return
+      if (widest === -1 || width > widths[widest]!) widest = i
+    })
+    if (widest === -1) break
+    widths[widest]!--
+    total--
+  }
+  return widths
+}
+
+// =============================================================================
+// Render
+// =============================================================================
+
+/**
+ * Render rows as table lines fitted to `maxWidth`.
+ *
+ * Columns start at their widest cell and the widest ones shrink until
+ * the table fits; cells then wrap (breaking long words) or truncate.
+ * Multi-line cells and newlines in cells are kept. Borders use
+ * box-drawing characters when `hasUnicode()`, ASCII otherwise.
+ *
+ * @example
+ * ```ts
+ * const lines = renderTable(term, [
+ *   ["api", term.green("up"), hyperlink("logs", "https://logs.example.com/api")],
+ *   ["worker", term.red("down"), ""],
+ * ], { columns: ["Service", "Status", { header: "Logs", align: "right" }], border: "rounded" })
+ * for (const line of lines) term.writeLine(line)
+ * ```
+ */
+export function renderTable(term: Term, rows: readonly (readonly TableCell[])[], options: TableOptions = {}): string[] {
+  const columns = (options.columns ?? []).map((column) => (typeof column === "string" ? { header: column } : column))
+  const count = Math.max(columns.length, ...rows.map((row) => row.length))
+  if (count === 0) return []
+
+  const unicode = term.hasUnicode()
+  const border = options.border ?? "single"
+  const chars = border === "none" ? null : BORDERS[unicode ? border : "ascii"]
+  const wrap = options.wrap ?? true
+  const maxWidth = options.maxWidth ?? term.cols ?? 80
+  const alignOf = (i: number): TableAlign => {
+    const align = options.align
+    return columns[i]?.align ?? (typeof align === "string" ? align : align?.[i]) ?? "left"
+  }
+
+  const hasHeader = columns.some((column) => column.header !== undefined)
+  const header = hasHeader ? [Array.from({ length: count }, (_, i) => cellLines(columns[i]?.header))] : []
+  const body = rows.map((row) => Array.from({ length: count }, (_, i) => cellLines(row[i])))
+
+  const natural = Array.from({ length: count }, (_, i) =>
+    Math.max(1, ...[...header, ...body].flatMap((row) => row[i]!.map(displayLength))),
+  )
+  const overhead = chars ? 3 * count + 1 : COLUMN_GAP.length * (count - 1)
+  const widths = fitWidths(natural, columns, maxWidth - overhead)
+
+  const fit = (lines: string[], width: number): string[] =>
+    wrap
+      ? lines.flatMap((line) =>
+          displayLength(line) > width ? wrapAnsi(line, width, { hard: true }).split("\n") : [line],
+        )
+      : lines.map((line) => truncateAnsi(line, width, { ellipsis: unicode ? "…" : "..." }))
+
+  function renderRow(cells: string[][], bold: boolean): string[] {
+    const fitted = cells.map((lines, i) => fit(lines, widths[i]!))
+    const height = Math.max(1, ...fitted.map((lines) => lines.length))
+    return Array.from({ length: height }, (_, line) => {
+      const parts = fitted.map((lines, i) => {
+        const text = lines[line] ?? ""
+        return pad(bold && text ? term.bold(text) : text, widths[i]!, alignOf(i))
+      })
+      return chars ? `${chars.vertical} ${parts.join(` ${chars.vertical} `)} ${chars.vertical}` : parts.join(COLUMN_GAP)
+    })
+  }
+
+  const rule = ([left, middle, right]: [string, string, string]) =>
+    left + widths.map((width) => chars!.horizontal.repeat(width + 2)).join(middle) + right
+
+  const lines: string[] = []
+  if (chars) lines.push(rule(chars.top))
+  if (hasHeader) {
+    lines.push(...renderRow(header[0]!, true))
+    if (chars && body.length > 0) lines.push(rule(chars.separator))
+  }
+  for (const row of body) lines.push(...renderRow(row, false))
+  if (chars) lines.push(rule(chars.bottom))
+  // Borderless columns end without padding
+  return chars ? lines : lines.map((line) => line.trimEnd())
+}
@@ -3,31 +3,63 @@
  *
  * Term is the central abstraction for terminal interaction:
  * - Detection: hasCursor(), hasInput(), hasColor(), hasUnicode()
- * - Dimensions: cols, rows
+ * - Dimensions: cols, rows, onResize()/subscribeSize()
  * - I/O: stdout, stdin, write(), writeLine()
  * - Styling: Chainable styles via Proxy (term.bold.red('text'))
- * - Lifecycle: Disposable pattern via Symbol.dispose
+ * - Theming: `$token` colors resolved against the term's theme
+ * - Lifecycle: Disposable pattern via Symbol.dispose, enter() sessions
  */
 
 import { Chalk, type ChalkInstance } from "chalk"
-import type { ColorLevel, CreateTermOptions, TerminalCaps } from "./types.js"
-import { defaultCaps, detectColor, detectCursor, detectInput, detectTerminalCaps, detectUnicode } from "./detection.js"
-
-// =============================================================================
-// ANSI Utilities
-// =============================================================================
-
-/**
- * ANSI escape code pattern for stripping.
- */
-const ANSI_REGEX = /\x1b\[[0-9;:]*m|\x1b\]8;;[^\x1b]*\x1b\\/g
-
-/**
- * Strip all ANSI escape codes from a string.
- */
-function stripAnsi(text: string): string {
-  return text.replace(ANSI_REGEX, "")
-}
+import type {
+  Color,
+  ColorLevel,
+  CreateTermAsyncOptions,
+  CreateTermOptions,
+  RGB,
+  StyleOptions,
+  TerminalCaps,
+  UnderlineStyle,
+} from "./types.js"
+import {
+  defaultCaps,
+  detectColor,
+  detectCursor,
+  detectInput,
+  detectNotificationProtocol,
+  detectTerminalCaps,
+  detectUnicode,
+} from "./detection.js"
+import { probeTerminal, type ProbeOptions, type TerminalColors } from "./probe.js"
+import { defaultTheme, resolveThemeColor, type Theme } from "./theme.js"
+import { ansiColorIndex, ansiColorName, parseColor } from "./color.js"
+import { ansi256ToRgb, quantizeColor, rgbToAnsi16 } from "./quantize.js"
+import { formatUnderline } from "./underline.js"
+import { buildHyperlink } from "./constants.js"
+import { stripAnsi } from "./utils.js"
+import {
+  readInput,
+  readKeys,
+  type InputEvent,
+  type InputReader,
+  type KeyEvent,
+  type ReadInputOptions,
+} from "./input.js"
+import { watchSize, type SizeWatcher, type TermSize } from "./resize.js"
+import {
+  createProgressBar,
+  createSpinner,
+  type ProgressBar,
+  type ProgressOptions,
+  type Spinner,
+  type SpinnerOptions,
+} from "./progress.js"
+import { copyToClipboard, readClipboard, type ClipboardOptions, type CopyOptions } from "./clipboard.js"
+import { notify, type NotifyOptions } from "./notify.js"
+import { renderImage, type ImageOptions } from "./image.js"
+import { barChart, sparkline, type BarChartEntry, type BarChartOptions, type SparklineOptions } from "./chart.js"
+import { renderTable, type TableCell, type TableOptions } from "./table.js"
+import { enterSession, type SessionOptions, type TermSession } from "./session.js"
 
 // =============================================================================
 // Style Chain Types
@@ -87,6 +119,11 @@ type ChalkStyleName =
   | "bgCyanBright"
   | "bgWhiteBright"
 
+/**
+ * Extended underline style properties, honoring the term's caps.
+ */
+type ExtendedUnderlineName = "curlyUnderline" | "dottedUnderline" | "dashedUnderline" | "doubleUnderline"
+
 /**
  * StyleChain provides chainable styling methods.
  * Each property returns a new chain, and the chain is callable.
@@ -104,7 +141,7 @@ export type StyleChain = {
   rgb(r: number, g: number, b: number): StyleChain
 
   /**
-   * Hex foreground color.
+   * Hex foreground color. Theme tokens (`$primary`) are resolved too.
    */
   hex(color: string): StyleChain
 
@@ -119,7 +156,7 @@ export type StyleChain = {
   bgRgb(r: number, g: number, b: number): StyleChain
 
   /**
-   * Hex background color.
+   * Hex background color. Theme tokens (`$surface`) are resolved too.
    */
   bgHex(color: string): StyleChain
 
@@ -127,11 +164,49 @@ export type StyleChain = {
    * 256-color background.
    */
   bgAnsi256(code: number): StyleChain
+
+  /**
+   * Foreground color from any Color form: ANSI name, `#hex`,
+   * `rgb(r, g, b)` or theme token (`$error`).
+   * Unknown colors and tokens leave the chain unchanged.
+   */
+  color(color: Color): StyleChain
+
+  /**
+   * Background color from any Color form: ANSI name, `#hex`,
+   * `rgb(r, g, b)` or theme token (`$surface`).
+   * Unknown colors and tokens leave the chain unchanged.
+   */
+  bgColor(color: Color): StyleChain
+
+  /**
+   * Apply a declarative style object, e.g. from config.
+   * Options are layered onto the current chain.
+   *
+   * @example
+   * ```ts
+   * term.style({ color: "$error", bold: true, underlineStyle: "curly" })("typo")
+   * ```
+   */
+  style(options: StyleOptions): StyleChain
+
+  /**
+   * Extended underline style (SGR 4:x).
+   * Falls back to a standard underline when `caps.underlineStyles` is false.
+   */
+  underlineStyle(style: UnderlineStyle): StyleChain
+
+  /**
+   * Underline color independent of text color (SGR 58), from an RGB tuple
+   * or any Color form. Implies underline. Dropped when `caps.underlineColor`
+   * is false; quantized below truecolor.
+   */
+  underlineColor(color: RGB | Color): StyleChain
 } & {
   /**
    * Chainable style properties.
    */
-  readonly [K in ChalkStyleName]: StyleChain
+  readonly [K in ChalkStyleName | ExtendedUnderlineName]: StyleChain
 }
 
 // =============================================================================
@@ -183,6 +258,18 @@ export interface Term extends Disposable, StyleChain {
    */
   readonly caps: TerminalCaps | undefined
 
+  /**
+   * Terminal default colors (OSC 10/11) with a dark/light verdict.
+   * Populated by createTermAsync() or createTerm({ colors }), undefined otherwise.
+   */
+  readonly colors: TerminalColors | undefined
+
+  /**
+   * Theme used to resolve `$token` colors.
+   * Defaults to the built-in dark or light theme based on caps.darkBackground.
+   */
+  readonly theme: Theme
+
   // -------------------------------------------------------------------------
   // Dimensions
   // -------------------------------------------------------------------------
@@ -199,6 +286,33 @@ export interface Term extends Disposable, StyleChain {
    */
   readonly rows: number | undefined
 
+  /**
+   * Current size in cells, plus pixels when `createTerm({ resize: { pixels: true } })`
+   * is set and the terminal answers. Stable reference until the size changes.
+   */
+  getSize(): TermSize
+
+  /**
+   * Call `listener` after the terminal is resized, debounced.
+   * Returns an unsubscribe function; disposing the term unsubscribes all.
+   *
+   * @example
+   * ```ts
+   * term.onResize(({ cols, rows }) => render(cols, rows))
+   * ```
+   */
+  onResize(listener: (size: TermSize) => void): () => void
+
+  /**
+   * Subscribe to size changes (useSyncExternalStore compatible).
+   *
+   * @example
+   * ```ts
+   * const size = useSyncExternalStore(term.subscribeSize, term.getSize)
+   * ```
+   */
+  subscribeSize(onStoreChange: () => void): () => void
+
   // -------------------------------------------------------------------------
   // Streams
   // -------------------------------------------------------------------------
@@ -227,6 +341,185 @@ export interface Term extends Disposable, StyleChain {
    */
   writeLine(str: string): void
 
+  // -------------------------------------------------------------------------
+  // Input
+  // -------------------------------------------------------------------------
+
+  /**
+   * Read keystrokes from stdin as typed KeyEvents.
+   *
+   * Puts stdin into raw mode while iterating; breaking out of the loop or
+   * disposing the term restores the previous mode. Enable the Kitty
+   * protocol with `enableKittyKeyboard()` to get release/repeat events
+   * and unambiguous modifiers.
+   *
+   * @example
+   * ```ts
+   * for await (const key of term.keys()) {
+   *   if (key.ctrl && key.key === "c") break
+   *   if (key.key === "ArrowUp") moveUp()
+   * }
+   * ```
+   */
+  keys(options?: ReadInputOptions): InputReader<KeyEvent>
+
+  /**
+   * Read all input events from stdin: keys, mouse reports and pastes.
+   *
+   * Mouse reports arrive once tracking is on (`term.write(enableMouse())`),
+   * paste events once bracketed paste is (`term.write(enableBracketedPaste())`).
+   *
+   * @example
+   * ```ts
+   * term.write(enableMouse())
+   * for await (const event of term.input()) {
+   *   if (event.kind === "mouse" && event.type === "wheel") scroll(event.button === "wheelUp" ? -1 : 1)
+   *   if (event.kind === "key" && event.key === "q") break
+   * }
+   * term.write(disableMouse())
+   * ```
+   */
+  input(options?: ReadInputOptions): InputReader<InputEvent>
+
+  // -------------------------------------------------------------------------
+  // Lifecycle
+  // -------------------------------------------------------------------------
+
+  /**
+   * Enable terminal modes for a full-screen or interactive app.
+   *
+   * The returned session restores everything it enabled — in reverse
+   * order, back to cooked mode — when disposed, when the term is disposed,
+   * and on SIGINT/SIGTERM, uncaught exceptions and process.exit.
+   *
+   * @example
+   * ```ts
+   * using term = createTerm()
+   * using session = term.enter({ altScreen: true, hideCursor: true, mouse: true, rawMode: true })
+   * for await (const event of term.input()) { ... }
+   * ```
+   */
+  enter(options?: SessionOptions): TermSession
+
+  // -------------------------------------------------------------------------
+  // Widgets
+  // -------------------------------------------------------------------------
+
+  /**
+   * Start a progress bar drawn in place below the cursor.
+   *
+   * Uses unicode blocks or ASCII per hasUnicode(), theme colors at the
+   * hasColor() level and OSC 9;4 taskbar progress when `caps.progress`.
+   * Without cursor control it prints a plain percentage line at most
+   * every `interval` ms, so CI logs stay readable.
+   *
+   * @example
+   * ```ts
+   * using bar = term.progress({ total: 100, label: "Downloading" })
+   * stream.on("data", (chunk) => bar.increment(chunk.length))
+   * ```
+   */
+  progress(options: ProgressOptions): ProgressBar
+
+  /**
+   * Start a spinner, from frames or options.
+   * Braille frames with unicode, `- \ | /` otherwise; static lines without cursor control.
+   *
+   * @example
+   * ```ts
+   * const spinner = term.spinner({ text: "Building" })
+   * await build()
+   * spinner.done("Built")
+   * ```
+   */
+  spinner(options?: SpinnerOptions | readonly string[]): Spinner
+
+  /**
+   * Draw values as a one-line sparkline (block elements, or ASCII without unicode).
+   *
+   * @example
+   * ```ts
+   * term.writeLine(`req/s ${term.sparkline(rates, { width: 30, color: "$primary" })}`)
+   * ```
+   */
+  sparkline(values: readonly number[], options?: SparklineOptions): string
+
+  /**
+   * Draw labeled horizontal bars, one line per entry, fitted to `term.cols`.
+   *
+   * @example
+   * ```ts
+   * for (const line of term.barChart(sizes, { colorScale: ["green", "yellow", "red"] })) term.writeLine(line)
+   * ```
+   */
+  barChart(entries: readonly BarChartEntry[], options?: BarChartOptions): string[]
+
+  /**
+   * Render rows as table lines fitted to `term.cols`, measuring styled
+   * cells and hyperlinks by their visible width.
+   *
+   * @example
+   * ```ts
+   * for (const line of term.table(rows, { columns: ["Name", "Size"], align: ["left", "right"] })) {
+   *   term.writeLine(line)
+   * }
+   * ```
+   */
+  table(rows: readonly (readonly TableCell[])[], options?: TableOptions): string[]
+
+  // -------------------------------------------------------------------------
+  // Clipboard
+  // -------------------------------------------------------------------------
+
+  /**
+   * Copy text to the clipboard of the machine the terminal runs on (OSC 52),
+   * wrapped for tmux/screen. Returns false without writing anything when
+   * `caps.osc52` is false or the text exceeds `maxLength`.
+   */
+  copyToClipboard(text: string, options?: CopyOptions): boolean
+
+  /**
+   * Read the clipboard (OSC 52 query). Resolves null when the terminal
+   * does not answer within the timeout — many disable reads by default.
+   *
+   * @example
+   * ```ts
+   * const text = await term.readClipboard({ timeout: 2000 })
+   * ```
+   */
+  readClipboard(options?: ClipboardOptions & ProbeOptions): Promise<string | null>
+
+  // -------------------------------------------------------------------------
+  // Notifications
+  // -------------------------------------------------------------------------
+
+  /**
+   * Show a desktop notification using the terminal's protocol
+   * (OSC 9, 99 or 777, from `caps.notifications` and `caps.program`),
+   * or ring the bell when it has none.
+   *
+   * @example
+   * ```ts
+   * term.notify({ title: "Build finished", body: `${count} packages` })
+   * ```
+   */
+  notify(options: NotifyOptions): void
+
+  // -------------------------------------------------------------------------
+  // Images
+  // -------------------------------------------------------------------------
+
+  /**
+   * Display RGBA pixels at the cursor, followed by a newline, using Kitty
+   * graphics, OSC 1337, sixel or unicode half blocks depending on caps.
+   *
+   * @example
+   * ```ts
+   * term.image(pixels, 64, 64, { cols: 16 })
+   * ```
+   */
+  image(rgba: Uint8Array, width: number, height: number, options?: ImageOptions): void
+
   // -------------------------------------------------------------------------
   // Utilities
   // -------------------------------------------------------------------------
@@ -257,6 +550,10 @@ export interface Term extends Disposable, StyleChain {
  *
  * // Custom streams
  * const term = createTerm({ stdout: customStream })
+ *
+ * // Custom theme for $token colors
+ * const term = createTerm({ theme: { name: "brand", colors: { primary: "#ff5f00" } } })
+ * term.color("$primary")("hello")
  * ```
  */
 export function createTerm(options: CreateTermOptions = {}): Term {
@@ -276,10 +573,53 @@ export function createTerm(options: CreateTermOptions = {}): Term {
       ? detectTerminalCaps()
       : undefined
 
+  // Queried background color beats the env heuristic for darkBackground
+  const colors = options.colors
+  if (detectedCaps && colors && colors.dark !== null && options.caps?.darkBackground === undefined) {
+    detectedCaps.darkBackground = colors.dark
+  }
+
+  const theme = options.theme ?? defaultTheme(detectedCaps?.darkBackground ?? true)
+
   // Create chalk instance with appropriate color level
   const chalkLevel = cachedColor === null ? 0 : cachedColor === "basic" ? 1 : cachedColor === "256" ? 2 : 3
   const chalkInstance = new Chalk({ level: chalkLevel })
 
+  // Open input readers, closed on dispose. A reader leaves the set when it
+  // is closed, returned from (break in for await) or runs out.
+  const readers = new Set<InputReader<InputEvent>>()
+  const track = <T extends InputEvent>(reader: InputReader<T>): InputReader<T> => {
+    const close = () => {
+      readers.delete(tracked)
+      reader.close()
+    }
+    const tracked: InputReader<T> = {
+      async next() {
+        const result = await reader.next()
+        if (result.done) readers.delete(tracked)
+        return result
+      },
+      return() {
+        close()
+        return Promise.resolve({ value: undefined, done: true })
+      },
+      [Symbol.asyncIterator]() {
+        return this
+      },
+      close,
+      [Symbol.dispose]: close,
+    }
+    readers.add(tracked)
+    return tracked
+  }
+
+  // Size watcher, created on first use
+  let sizeWatcher: SizeWatcher | undefined
+  const size = () => (sizeWatcher ??= watchSize(stdout, stdin, options.resize))
+
+  // Active sessions, restored on dispose
+  const sessions = new Set<TermSession>()
+
   // Base term object with methods
   const termBase = {
     // Detection methods
@@ -290,11 +630,18 @@ export function createTerm(options: CreateTermOptions = {}): Term {
 
     // Terminal capabilities
     caps: detectedCaps,
+    colors,
+    theme,
 
     // Streams
     stdout,
     stdin,
 
+    // Dimensions
+    getSize: () => size().getSnapshot(),
+    onResize: (listener: (size: TermSize) => void) => size().onResize(listener),
+    subscribeSize: (onStoreChange: () => void) => size().subscribe(onStoreChange),
+
     // I/O methods
     write: (str: string) => {
       stdout.write(str)
@@ -303,36 +650,222 @@ export function createTerm(options: CreateTermOptions = {}): Term {
       stdout.write(str + "\n")
     },
 
+    // Input
+    keys: (readOptions?: ReadInputOptions) => track(readKeys(stdin, readOptions)),
+    input: (readOptions?: ReadInputOptions) => track(readInput(stdin, readOptions)),
+
+    // Lifecycle
+    enter: (sessionOptions: SessionOptions = {}) => {
+      const session = enterSession(stdout, stdin, sessionOptions)
+      sessions.add(session)
+      return session
+    },
+
+    // Widgets, drawn with the styled term itself
+    progress: (progressOptions: ProgressOptions) => createProgressBar(term, progressOptions),
+    spinner: (spinnerOptions?: SpinnerOptions | readonly string[]) =>
+      createSpinner(
+        term,
+        Array.isArray(spinnerOptions) ? { frames: spinnerOptions } : (spinnerOptions as SpinnerOptions),
+      ),
+    sparkline: (values: readonly number[], sparklineOptions?: SparklineOptions) =>
+      sparkline(term, values, sparklineOptions),
+    barChart: (entries: readonly BarChartEntry[], barChartOptions?: BarChartOptions) =>
+      barChart(term, entries, barChartOptions),
+    table: (rows: readonly (readonly TableCell[])[], tableOptions?: TableOptions) =>
+      renderTable(term, rows, tableOptions),
+
+    // Clipboard
+    copyToClipboard: (text: string, copyOptions?: CopyOptions) => {
+      if (detectedCaps?.osc52 === false) return false
+      const sequence = copyToClipboard(text, copyOptions)
+      if (sequence) stdout.write(sequence)
+      return sequence !== ""
+    },
+    readClipboard: (clipboardOptions?: ClipboardOptions & ProbeOptions) =>
+      readClipboard(stdin, stdout, clipboardOptions),
+
+    // Notifications
+    notify: (notifyOptions: NotifyOptions) => {
+      const protocol =
+        notifyOptions.protocol === undefined ? detectNotificationProtocol(detectedCaps) : notifyOptions.protocol
+      const sequence = notify({ ...notifyOptions, protocol })
+      if (sequence) stdout.write(sequence)
+    },
+
+    // Images
+    image: (rgba: Uint8Array, width: number, height: number, imageOptions?: ImageOptions) => {
+      const output = renderImage(term, rgba, width, height, imageOptions)
+      if (output) stdout.write(output + "\n")
+    },
+
     // Utilities
     stripAnsi,
 
-    // Disposable
+    // Disposable — stop input readers, restore sessions newest first, stop resize tracking
     [Symbol.dispose]: () => {
-      // no-op — placeholder for future cleanup logic
+      for (const reader of readers) reader.close()
+      readers.clear()
+      for (const session of [...sessions].reverse()) session.restore()
+      sessions.clear()
+      sizeWatcher?.dispose()
     },
   }
 
-  // Create proxy that wraps chalk for styling
-  const term = createStyleProxy(chalkInstance, termBase)
-
-  // Add dynamic dimension getters
-  Object.defineProperty(term, "cols", {
+  // Dynamic dimension getters — on termBase, where the proxy looks them up
+  Object.defineProperty(termBase, "cols", {
     get: () => (stdout.isTTY ? stdout.columns : undefined),
     enumerable: true,
   })
 
-  Object.defineProperty(term, "rows", {
+  Object.defineProperty(termBase, "rows", {
     get: () => (stdout.isTTY ? stdout.rows : undefined),
     enumerable: true,
   })
 
-  return term as Term
+  // Create proxy that wraps chalk for styling
+  const term = createStyleProxy(chalkInstance, termBase) as Term
+  return term
+}
+
+/**
+ * Create a Term instance whose capabilities are probed from the terminal.
+ *
+ * Like createTerm(), but when stdin is a TTY the `caps` profile comes from
+ * probeTerminalCaps() — DA1/XTVERSION/DECRQM/Kitty keyboard replies merged
+ * over the env heuristics — so `syncOutput`, `kittyKeyboard` and `mouse` are
+ * correct on terminals detection does not know about.
+ *
+ * Default colors are queried in the same write (OSC 10/11, one DA1 for
+ * both, so a silent terminal costs one timeout) and exposed as `term.colors`;
+ * when the terminal reports its background, `caps.darkBackground` follows
+ * its luminance instead of COLORFGBG or the macOS appearance setting.
+ * Explicit `caps` and `colors` overrides still win over probed values.
+ *
+ * @example
+ * ```ts
+ * using term = await createTermAsync({ probeTimeout: 100 })
+ * if (term.caps?.kittyKeyboard) term.write(enableKittyKeyboard(1))
+ * ```
+ */
+export async function createTermAsync(options: CreateTermAsyncOptions = {}): Promise<Term> {
+  const stdout = options.stdout ?? process.stdout
+  const stdin = options.stdin ?? process.stdin
+
+  if (!stdin.isTTY) return createTerm(options)
+
+  // One round trip for caps and colors: a silent terminal costs a single timeout
+  const probe = await probeTerminal(stdin, stdout, { timeout: options.probeTimeout, colors: !options.colors })
+  const probedCaps = probe.caps
+  const colors = options.colors ?? probe.colors
+  if (colors.dark !== null) probedCaps.darkBackground = colors.dark
+
+  return createTerm({ ...options, caps: { ...probedCaps, ...options.caps }, colors })
 }
 
 // =============================================================================
 // Style Proxy Implementation
 // =============================================================================
 
+/**
+ * Term properties and methods the style proxy exposes alongside chalk styles.
+ */
+type TermBase = {
+  theme: Theme
+  caps: TerminalCaps | undefined
+  hasColor: () => ColorLevel | null
+} & Record<string | symbol, unknown>
+
+/**
+ * Styles chalk cannot express, applied around the chalk output.
+ */
+interface ChainDecorations {
+  underlineStyle?: UnderlineStyle
+  /** RGB, or a palette index for named ANSI colors */
+  underlineColor?: RGB | number
+  hyperlink?: string
+}
+
+/**
+ * Wrap chalk-styled text with extended underline and hyperlink decorations.
+ *
+ * Honors the term rather than the environment: nothing is emitted without
+ * color, and extended styles/underline color need `caps.underlineStyles` /
+ * `caps.underlineColor` (undetected caps fall back to plain SGR 4).
+ */
+function decorate(text: string, decorations: ChainDecorations, termBase: TermBase): string {
+  if (text === "" || termBase.hasColor() === null) return text
+
+  let result = text
+  if (decorations.underlineStyle !== undefined || decorations.underlineColor !== undefined) {
+    result = formatUnderline(
+      result,
+      { style: decorations.underlineStyle, color: decorations.underlineColor },
+      {
+        underlineStyles: termBase.caps?.underlineStyles ?? false,
+        underlineColor: termBase.caps?.underlineColor ?? false,
+      },
+      termBase.hasColor() ?? "truecolor",
+    )
+  }
+  if (decorations.hyperlink !== undefined) {
+    result = buildHyperlink(result, decorations.hyperlink)
+  }
+  return result
+}
+
+/**
+ * Resolve a Color to an underline color (RGB or palette index).
+ */
+function resolveUnderlineColor(color: Color, theme: Theme): RGB | number | undefined {
+  const resolved = resolveThemeColor(color, theme)
+  const parsed = resolved === undefined ? null : parseColor(resolved)
+  if (!parsed) return undefined
+  return parsed.type === "ansi" ? ansiColorIndex(parsed.name) : parsed.rgb
+}
+
+/**
+ * Apply StyleOptions to a chalk chain and decorations.
+ */
+function applyStyleOptions(
+  currentChalk: ChalkInstance,
+  decorations: ChainDecorations,
+  options: StyleOptions,
+  termBase: TermBase,
+): [ChalkInstance, ChainDecorations] {
+  let newChalk = currentChalk
+  if (options.color !== undefined) newChalk = applyColor(newChalk, options.color, termBase, "fg")
+  if (options.bgColor !== undefined) newChalk = applyColor(newChalk, options.bgColor, termBase, "bg")
+  if (options.bold) newChalk = newChalk.bold
+  if (options.dim) newChalk = newChalk.dim
+  if (options.italic) newChalk = newChalk.italic
+  if (options.strikethrough) newChalk = newChalk.strikethrough
+  if (options.inverse) newChalk = newChalk.inverse
+
+  const newDecorations = { ...decorations }
+  if (options.underlineStyle !== undefined) newDecorations.underlineStyle = options.underlineStyle
+  if (options.underlineColor !== undefined) {
+    newDecorations.underlineColor = resolveUnderlineColor(options.underlineColor, termBase.theme)
+  }
+  if (options.hyperlink !== undefined) newDecorations.hyperlink = options.hyperlink
+
+  // Plain underline goes through chalk unless a decoration already underlines
+  const decorated = newDecorations.underlineStyle !== undefined || newDecorations.underlineColor !== undefined
+  if (options.underline && !decorated) newChalk = newChalk.underline
+
+  return [newChalk, newDecorations]
+}
+
+/**
+ * Underline style for each extended underline chain property.
+ */
+const EXTENDED_UNDERLINES: Record<ExtendedUnderlineName, UnderlineStyle> = {
+  curlyUnderline: "curly",
+  dottedUnderline: "dotted",
+  dashedUnderline: "dashed",
+  doubleUnderline: "double",
+}
+
 /**
  * Create a proxy that combines term methods with chalk styling.
  *
@@ -340,33 +873,85 @@ export function createTerm(options: CreateTermOptions = {}): Term {
  * - Callable: term('text') applies current styles
  * - Chainable: term.bold.red('text') chains styles
  */
-function createStyleProxy(chalkInstance: ChalkInstance, termBase: object): Term {
-  return createChainProxy(chalkInstance, termBase)
+function createStyleProxy(chalkInstance: ChalkInstance, termBase: TermBase): Term {
+  return createChainProxy(chalkInstance, termBase, {})
+}
+
+/**
+ * Apply one of the 16 ANSI colors (by palette index) to a chalk chain.
+ */
+function applyAnsi16(currentChalk: ChalkInstance, index: number, layer: "fg" | "bg"): ChalkInstance {
+  const name = ansiColorName(index)
+  const prop = layer === "fg" ? name : `bg${name[0]!.toUpperCase()}${name.slice(1)}`
+  return currentChalk[prop as keyof ChalkInstance] as ChalkInstance
+}
+
+/**
+ * Apply an RGB color to a chalk chain, quantized perceptually to the
+ * term's color level instead of chalk's nearest-cube conversion.
+ */
+function applyRgb(currentChalk: ChalkInstance, rgb: RGB, termBase: TermBase, layer: "fg" | "bg"): ChalkInstance {
+  const color = quantizeColor(rgb, termBase.hasColor() ?? "truecolor")
+  if (typeof color !== "number") {
+    return layer === "fg" ? currentChalk.rgb(...color) : currentChalk.bgRgb(...color)
+  }
+  if (color < 16) return applyAnsi16(currentChalk, color, layer)
+  return layer === "fg" ? currentChalk.ansi256(color) : currentChalk.bgAnsi256(color)
+}
+
+/**
+ * Apply a 256-color palette index, mapped to the 16 ANSI colors at "basic".
+ */
+function applyAnsi256(
+  currentChalk: ChalkInstance,
+  code: number,
+  termBase: TermBase,
+  layer: "fg" | "bg",
+): ChalkInstance {
+  if (termBase.hasColor() === "basic") {
+    return applyAnsi16(currentChalk, code < 16 ? code : rgbToAnsi16(ansi256ToRgb(code)), layer)
+  }
+  return layer === "fg" ? currentChalk.ansi256(code) : currentChalk.bgAnsi256(code)
+}
+
+/**
+ * Apply a Color (ANSI name, hex, rgb(), or theme token) to a chalk chain.
+ * Returns the chain unchanged for unknown colors and tokens.
+ */
+function applyColor(currentChalk: ChalkInstance, color: Color, termBase: TermBase, layer: "fg" | "bg"): ChalkInstance {
+  const resolved = resolveThemeColor(color, termBase.theme)
+  const parsed = resolved === undefined ? null : parseColor(resolved)
+  if (!parsed) return currentChalk
+
+  if (parsed.type === "ansi") {
+    return applyAnsi16(currentChalk, ansiColorIndex(parsed.name), layer)
+  }
+  return applyRgb(currentChalk, parsed.rgb, termBase, layer)
 }
 
 /**
  * Create a chainable proxy that wraps a chalk instance.
  */
-function createChainProxy(currentChalk: ChalkInstance, termBase: object): Term {
+function createChainProxy(currentChalk: ChalkInstance, termBase: TermBase, decorations: ChainDecorations): Term {
   const handler: ProxyHandler<ChalkInstance> = {
     // Make the proxy callable
     apply(_target, _thisArg, args) {
       // Handle both regular calls and template literals
       if (args.length === 1 && typeof args[0] === "string") {
-        return currentChalk(args[0])
+        return decorate(currentChalk(args[0]), decorations, termBase)
       }
       // Template literal call
       if (args.length > 0 && Array.isArray(args[0]) && "raw" in args[0]) {
-        return currentChalk(args[0] as TemplateStringsArray, ...args.slice(1))
+        return decorate(currentChalk(args[0] as TemplateStringsArray, ...args.slice(1)), decorations, termBase)
       }
-      return currentChalk(String(args[0] ?? ""))
+      return decorate(currentChalk(String(args[0] ?? "")), decorations, termBase)
     },
 
     // Handle property access for chaining
     get(target, prop, receiver) {
       // Check termBase first for term-specific methods/properties
       if (prop in termBase) {
-        const value = (termBase as Record<string | symbol, unknown>)[prop]
+        const value = termBase[prop]
         // Return methods bound to termBase, or values directly
         if (typeof value === "function") {
           return value
@@ -377,7 +962,7 @@ function createChainProxy(currentChalk: ChalkInstance, termBase: object): Term {
       // Handle symbol properties
       if (typeof prop === "symbol") {
         if (prop === Symbol.dispose) {
-          return (termBase as Record<symbol, unknown>)[Symbol.dispose]
+          return termBase[Symbol.dispose]
         }
         return Reflect.get(target, prop, receiver)
       }
@@ -385,22 +970,59 @@ function createChainProxy(currentChalk: ChalkInstance, termBase: object): Term {
       // Handle chalk methods that take arguments and return a new chain
       if (prop === "rgb" || prop === "bgRgb") {
         return (r: number, g: number, b: number) => {
-          const newChalk = currentChalk[prop](r, g, b) as ChalkInstance
-          return createChainProxy(newChalk, termBase)
+          const newChalk = applyRgb(currentChalk, [r, g, b], termBase, prop === "rgb" ? "fg" : "bg")
+          return createChainProxy(newChalk, termBase, decorations)
         }
       }
 
       if (prop === "hex" || prop === "bgHex") {
         return (color: string) => {
-          const newChalk = currentChalk[prop](color) as ChalkInstance
-          return createChainProxy(newChalk, termBase)
+          // chalk accepts hex without the leading "#"
+          const normalized = color.startsWith("$") || color.startsWith("#") ? color : `#${color}`
+          const layer = prop === "hex" ? "fg" : "bg"
+          const known = normalized.startsWith("$") || parseColor(normalized) !== null
+          const newChalk = known
+            ? applyColor(currentChalk, normalized, termBase, layer)
+            : (currentChalk[prop](color) as ChalkInstance)
+          return createChainProxy(newChalk, termBase, decorations)
+        }
+      }
+
+      if (prop === "style") {
+        return (options: StyleOptions) => {
+          const [newChalk, newDecorations] = applyStyleOptions(currentChalk, decorations, options, termBase)
+          return createChainProxy(newChalk, termBase, newDecorations)
+        }
+      }
+
+      if (Object.hasOwn(EXTENDED_UNDERLINES, prop)) {
+        const underlineStyle = EXTENDED_UNDERLINES[prop as ExtendedUnderlineName]
+        return createChainProxy(currentChalk, termBase, { ...decorations, underlineStyle })
+      }
+
+      if (prop === "underlineStyle") {
+        return (underlineStyle: UnderlineStyle) =>
+          createChainProxy(currentChalk, termBase, { ...decorations, underlineStyle })
+      }
+
+      if (prop === "underlineColor") {
+        return (color: RGB | Color) => {
+          const underlineColor = Array.isArray(color) ? color : resolveUnderlineColor(color, termBase.theme)
+          return createChainProxy(currentChalk, termBase, { ...decorations, underlineColor })
+        }
+      }
+
+      if (prop === "color" || prop === "bgColor") {
+        return (color: Color) => {
+          const newChalk = applyColor(currentChalk, color, termBase, prop === "color" ? "fg" : "bg")
+          return createChainProxy(newChalk, termBase, decorations)
         }
       }
 
       if (prop === "ansi256" || prop === "bgAnsi256") {
         return (code: number) => {
-          const newChalk = currentChalk[prop](code) as ChalkInstance
-          return createChainProxy(newChalk, termBase)
+          const newChalk = applyAnsi256(currentChalk, code, termBase, prop === "ansi256" ? "fg" : "bg")
+          return createChainProxy(newChalk, termBase, decorations)
         }
       }
 
@@ -409,7 +1031,7 @@ function createChainProxy(currentChalk: ChalkInstance, termBase: object): Term {
       if (chalkProp !== undefined) {
         // If it's a chalk chain property, wrap it in a new proxy
         if (typeof chalkProp === "function" || typeof chalkProp === "object") {
-          return createChainProxy(chalkProp as ChalkInstance, termBase)
+          return createChainProxy(chalkProp as ChalkInstance, termBase, decorations)
         }
         return chalkProp
       }
@@ -0,0 +1,306 @@
+/**
+ * ANSI-aware slicing, truncation and wrapping.
+ *
+ * All positions and widths are display columns (measured with string-width),
+ * cuts only fall between grapheme clusters, and SGR styles, underline styles
+ * and OSC 8 hyperlinks that are active at a cut are closed before it and
+ * re-opened after it, so every piece renders like the original.
+ *
+ * Exported through `@beorn/chalkx/utils`.
+ */
+
+import stringWidth from "string-width"
+import { tokenizeAnsi } from "./tokenize.js"
+import { applyAnsiToken, closeSgr, diffSgr, emptySgrState } from "./sgr-state.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for truncateAnsi().
+ */
+export interface TruncateOptions {
+  /** Where to cut text out (default: "end") */
+  position?: "end" | "middle" | "start"
+  /** Marker inserted in place of the removed text (default: "…") */
+  ellipsis?: string
+}
+
+/**
+ * Options for wrapAnsi().
+ */
+export interface WrapOptions {
+  /** Break words longer than the width instead of letting them overflow (default: false) */
+  hard?: boolean
+  /** Drop whitespace at the start and end of wrapped lines (default: true) */
+  trim?: boolean
+}
+
+// =============================================================================
+// Graphemes
+// =============================================================================
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+
+/** A grapheme cluster with its display width */
+interface Grapheme {
+  text: string
+  width: number
+}
+
+function graphemes(text: string): Grapheme[] {
+  return Array.from(segmenter.segment(text), ({ segment }) => ({ text: segment, width: stringWidth(segment) }))
+}
+
+/** Display width of the text tokens, ignoring every escape sequence */
+function visibleWidth(str: string): number {
+  let width = 0
+  for (const token of tokenizeAnsi(str)) {
+    if (token.type === "text") width += stringWidth(token.value)
+  }
+  return width
+}
+
+// =============================================================================
+// Slicing
+// =============================================================================
+
+/**
+ * Slice a string by display columns, keeping its styling.
+ *
+ * Grapheme clusters are never split: a wide character that straddles
+ * `start` or `end` is left out. Styles and hyperlinks active at `start`
+ * are re-opened at the beginning of the result, and anything still open
+ * at the end is closed. Other sequences (cursor movement, APC/DCS
+ * payloads such as Kitty images, OSC titles) are kept when they fall
+ * inside the slice; those before the first column are kept only when
+ * `start` is 0.
+ *
+ * @param str - String potentially containing ANSI codes
+ * @param start - First column to include (default: 0)
+ * @param end - Column to stop before (default: end of string)
+ * @returns The styled substring covering columns [start, end)
+ *
+ * @example
+ * ```ts
+ * sliceAnsi('\x1b[31mhello\x1b[39m world', 3, 8)
+ * // '\x1b[31mlo\x1b[39m wo'
+ * sliceAnsi('한글', 1, 4) // '글'
+ * ```
+ */
+export function sliceAnsi(str: string, start = 0, end = Infinity): string {
+  let style = emptySgrState()
+  let result = ""
+  let started = false
+  let column = 0
+
+  for (const token of tokenizeAnsi(str)) {
+    if (column >= end) break
+
+    if (token.type !== "text" && token.type !== "control") {
+      const next = applyAnsiToken(style, token)
+      // Leading non-style sequences of a slice from column 0 stay in place
+      if (started || (start === 0 && next === style)) result += token.value
+      style = next
+      continue
+    }
+
+    const pieces = token.type === "text" ? graphemes(token.value) : [{ text: token.value, width: 0 }]
+    for (const { text, width } of pieces) {
+      const next = column + width
+      // Zero-width graphemes at `end` belong to the following slice
+      if (column >= start && next <= end && (width > 0 || column < end)) {
+        if (!started) {
+          result += diffSgr(emptySgrState(), style)
+          started = true
+        }
+        result += text
+      }
+      column = next
+      if (column >= end) break
+    }
+  }
+
+  return started ? result + closeSgr(style) : ""
+}
+
+// =============================================================================
+// Truncation
+// =============================================================================
+
+/**
+ * Shorten a string to at most `width` display columns, replacing the
+ * removed text with an ellipsis.
+ *
+ * Strings that already fit are returned unchanged.
+ *
+ * @param str - String potentially containing ANSI codes
+ * @param width - Maximum display width of the result
+ * @param options - Truncation position and ellipsis
+ *
+ * @example
+ * ```ts
+ * truncateAnsi('\x1b[1mimportant\x1b[22m', 6) // '\x1b[1mimpor\x1b[22m…'
+ * truncateAnsi('/usr/local/bin/node', 12, { position: 'middle' }) // '/usr/…n/node'
+ * truncateAnsi('hello world', 8, { position: 'start', ellipsis: '...' }) // '...world'
+ * ```
+ */
+export function truncateAnsi(str: string, width: number, options: TruncateOptions = {}): string {
+  const { position = "end", ellipsis = "…" } = options
+  const total = visibleWidth(str)
+  if (total <= width) return str
+
+  const available = width - visibleWidth(ellipsis)
+  if (available <= 0) return sliceAnsi(ellipsis, 0, Math.max(0, width))
+
+  if (position === "start") {
+    return ellipsis + sliceAnsi(str, total - available)
+  }
+  if (position === "middle") {
+    const head = Math.ceil(available / 2)
+    return sliceAnsi(str, 0, head) + ellipsis + sliceAnsi(str, total - (available - head))
+  }
+  return sliceAnsi(str, 0, available) + ellipsis
+}
+
+// =============================================================================
+// Wrapping
+// =============================================================================
+
+/** A run of whitespace or non-whitespace graphemes, in columns of its line */
+interface Run {
+  start: number
+  end: number
+  space: boolean
+  graphemes: Grapheme[]
+}
+
+function splitRuns(text: string): Run[] {
+  const runs: Run[] = []
+  let column = 0
+  for (const grapheme of graphemes(text)) {
+    const space = /^\s+$/.test(grapheme.text)
+    const last = runs[runs.length - 1]
+    if (last && last.space === space) {
+      last.end += grapheme.width
+      last.graphemes.push(grapheme)
+    } else {
+      runs.push({ start: column, end: column + grapheme.width, space, graphemes: [grapheme] })
+    }
+    column += grapheme.width
+  }
+  return runs
+}
+
+/**
+ * Split a styled string at newlines, closing styles at the end of each
+ * line and re-opening them at the start of the next.
+ */
+function splitLines(str: string): string[] {
+  let style = emptySgrState()
+  const lines: string[] = []
+  let line = ""
+  for (const token of tokenizeAnsi(str)) {
+    if (token.type === "control" && token.value === "\n") {
+      lines.push(line + closeSgr(style))
+      line = diffSgr(emptySgrState(), style)
+      continue
+    }
+    line += token.value
+    style = applyAnsiToken(style, token)
+  }
+  lines.push(line)
+  return lines
+}
+
+/**
+ * Column ranges [start, end) for each wrapped row of a single line.
+ */
+function wrapRanges(text: string, width: number, hard: boolean, trim: boolean): [number, number][] {
+  const rows: [number, number][] = []
+  let rowStart = -1
+  let rowEnd = 0
+
+  const flush = () => {
+    if (rowStart >= 0) rows.push([rowStart, rowEnd])
+    rowStart = -1
+  }
+
+  // Place a run grapheme by grapheme, continuing on new rows as needed
+  const placeBroken = (run: Run) => {
+    let column = run.start
+    for (const { width: w } of run.graphemes) {
+      if (rowStart >= 0 && column + w - rowStart > width) flush()
+      if (rowStart < 0) rowStart = column
+      column += w
+      rowEnd = column
+    }
+  }
+
+  for (const run of splitRuns(text)) {
+    if (run.space && trim) continue
+
+    if (rowStart >= 0 && run.end - rowStart <= width) {
+      rowEnd = run.end
+      continue
+    }
+
+    if (run.space) {
+      placeBroken(run)
+      continue
+    }
+    // Words start a new row unless they fit on the current one
+    flush()
+    if (hard && run.end - run.start > width) {
+      placeBroken(run)
+    } else {
+      rowStart = run.start
+      rowEnd = run.end
+    }
+  }
+
+  flush()
+  return rows
+}
+
+/**
+ * Word-wrap a string to a display width, keeping its styling.
+ *
+ * Existing newlines are preserved. Styles and hyperlinks that span a line
+ * break are closed at the end of the row and re-opened on the next, so
+ * each row can be printed or positioned on its own.
+ *
+ * @param str - String potentially containing ANSI codes
+ * @param width - Maximum display width of each row
+ * @param options - Hard breaking and whitespace trimming
+ * @returns Wrapped rows joined with "\n"
+ *
+ * @example
+ * ```ts
+ * wrapAnsi('\x1b[32mthe quick brown fox\x1b[39m', 10)
+ * // '\x1b[32mthe quick\x1b[39m\n\x1b[32mbrown fox\x1b[39m'
+ * wrapAnsi('abcdefgh', 3, { hard: true }) // 'abc\ndef\ngh'
+ * ```
+ */
+export function wrapAnsi(str: string, width: number, options: WrapOptions = {}): string {
+  const { hard = false, trim = true } = options
+  const columns = Math.max(1, Math.floor(width))
+
+  return splitLines(str)
+    .flatMap((line) => {
+      const ranges = wrapRanges(stripToText(line), columns, hard, trim)
+      if (ranges.length === 0) return [trim ? "" : line]
+      return ranges.map(([start, end]) => sliceAnsi(line, start, end))
+    })
+    .join("\n")
+}
+
+/** Visible text of a string, without escape sequences or control characters */
+function stripToText(str: string): string {
+  let text = ""
+  for (const token of tokenizeAnsi(str)) {
+    if (token.type === "text") text += token.value
+  }
+  return text
+}
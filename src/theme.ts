@@ -0,0 +1,121 @@
+/**
+ * Theme definitions and `$token` color resolution.
+ *
+ * A theme maps token names (`primary`, `surface-fg`, ...) to colors.
+ * Any chalkx API accepting a Color resolves `$name` against the term's theme,
+ * so one palette can be shared between inkx components and plain CLI output.
+ *
+ * Built-in palettes are adapted from Catppuccin Mocha (dark) and Latte (light).
+ */
+
+import type { Color } from "./types.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A named color palette.
+ *
+ * Token values are any Color — including other `$tokens`, which are
+ * resolved recursively (e.g. `link: "$primary"`).
+ */
+export interface Theme {
+  /** Theme name, for display and debugging */
+  name: string
+  /** Token values keyed by name, without the `$` prefix */
+  colors: Record<string, Color>
+}
+
+// =============================================================================
+// Built-in Themes
+// =============================================================================
+
+/**
+ * Default theme for dark terminal backgrounds.
+ */
+export const darkTheme: Theme = {
+  name: "dark",
+  colors: {
+    bg: "#1e1e2e",
+    fg: "#cdd6f4",
+    surface: "#313244",
+    "surface-fg": "$fg",
+    muted: "#45475a",
+    "muted-fg": "#a6adc8",
+    border: "#585b70",
+    primary: "#89b4fa",
+    "primary-fg": "$bg",
+    secondary: "#cba6f7",
+    accent: "#f5c2e7",
+    success: "#a6e3a1",
+    warning: "#f9e2af",
+    error: "#f38ba8",
+    info: "#89dceb",
+    link: "$primary",
+  },
+}
+
+/**
+ * Default theme for light terminal backgrounds.
+ */
+export const lightTheme: Theme = {
+  name: "light",
+  colors: {
+    bg: "#eff1f5",
+    fg: "#4c4f69",
+    surface: "#ccd0da",
+    "surface-fg": "$fg",
+    muted: "#bcc0cc",
+    "muted-fg": "#6c6f85",
+    border: "#9ca0b0",
+    primary: "#1e66f5",
+    "primary-fg": "$bg",
+    secondary: "#8839ef",
+    accent: "#ea76cb",
+    success: "#40a02b",
+    warning: "#df8e1d",
+    error: "#d20f39",
+    info: "#04a5e5",
+    link: "$primary",
+  },
+}
+
+/**
+ * Pick the built-in theme for a terminal background.
+ *
+ * @param darkBackground - Usually `term.caps.darkBackground`
+ */
+export function defaultTheme(darkBackground: boolean): Theme {
+  return darkBackground ? darkTheme : lightTheme
+}
+
+// =============================================================================
+// Token Resolution
+// =============================================================================
+
+/** Guards against reference cycles such as `a: "$b", b: "$a"` */
+const MAX_TOKEN_DEPTH = 8
+
+/**
+ * Resolve a Color against a theme.
+ *
+ * `$tokens` are looked up (following references to other tokens);
+ * any other color is returned unchanged. Returns undefined for unknown
+ * tokens and reference cycles.
+ *
+ * @example
+ * ```ts
+ * resolveThemeColor("$link", darkTheme) // "#89b4fa"
+ * resolveThemeColor("red", darkTheme) // "red"
+ * resolveThemeColor("$nope", darkTheme) // undefined
+ * ```
+ */
+export function resolveThemeColor(color: Color, theme: Theme): Color | undefined {
+  let resolved: Color | undefined = color
+  for (let depth = 0; resolved?.startsWith("$"); depth++) {
+    if (depth >= MAX_TOKEN_DEPTH) return undefined
+    resolved = theme.colors[resolved.slice(1)]
+  }
+  return resolved
+}
@@ -0,0 +1,289 @@
+/**
+ * ANSI escape sequence tokenizer.
+ *
+ * A state-machine scanner (after ECMA-48 and the DEC VT parser) that splits
+ * a string into typed tokens: text, control characters, SGR with parsed
+ * parameters, other CSI sequences, OSC, DCS/APC/PM/SOS strings and
+ * plain ESC sequences. Both 7-bit (ESC [) and 8-bit C1 (0x9B) introducers
+ * are recognized; OSC and string sequences end at BEL, ST (ESC \) or C1 ST.
+ *
+ * Chalk-free and dependency-free, like the rest of `@beorn/chalkx/utils`.
+ *
+ * @see https://vt100.net/emu/dec_ansi_parser
+ * @see https://ecma-international.org/publications-and-standards/standards/ecma-48/
+ */
+
+// =============================================================================
+// Token Types
+// =============================================================================
+
+/**
+ * One SGR parameter with its colon-separated subparameters.
+ * `58:2::255:0:0` parses to `{ value: 58, subparams: [2, 0, 255, 0, 0] }`.
+ * Empty parameters read as 0 (the ECMA-48 default).
+ */
+export interface SgrParam {
+  value: number
+  subparams: number[]
+}
+
+/** Printable text (no control characters) */
+export interface TextToken {
+  type: "text"
+  value: string
+}
+
+/** A single C0 or C1 control character (newline, tab, BEL, ...) */
+export interface ControlToken {
+  type: "control"
+  value: string
+  code: number
+}
+
+/** Select Graphic Rendition: CSI ... m */
+export interface SgrToken {
+  type: "sgr"
+  value: string
+  params: SgrParam[]
+}
+
+/** Any other Control Sequence: CSI [prefix] params [intermediates] final */
+export interface CsiToken {
+  type: "csi"
+  value: string
+  /** Private marker: "?", ">", "<", "=" or "" */
+  prefix: string
+  /** Raw parameter string, e.g. "1;2" */
+  params: string
+  /** Intermediate bytes, e.g. "$" or " " */
+  intermediates: string
+  /** Final byte, e.g. "H". Empty for a malformed, aborted sequence. */
+  final: string
+}
+
+/** Operating System Command: OSC command ; data ST */
+export interface OscToken {
+  type: "osc"
+  value: string
+  /** Command number as written, e.g. "8" for hyperlinks */
+  command: string
+  /** Everything after the first ";" */
+  data: string
+}
+
+/** Device Control, Application Program Command, Privacy Message, Start Of String */
+export interface StringToken {
+  type: "dcs" | "apc" | "pm" | "sos"
+  value: string
+  /** Payload between the introducer and the terminator */
+  data: string
+}
+
+/** Two-character or charset ESC sequence, e.g. ESC 7, ESC c, ESC ( B */
+export interface EscToken {
+  type: "esc"
+  value: string
+  intermediates: string
+  final: string
+}
+
+/**
+ * A token produced by tokenizeAnsi().
+ * `value` is always the exact source text, so joining every token's
+ * value reproduces the input.
+ */
+export type AnsiToken = TextToken | ControlToken | SgrToken | CsiToken | OscToken | StringToken | EscToken
+
+// =============================================================================
+// Character Classes
+// =============================================================================
+
+const ESC = 0x1b
+const BEL = 0x07
+
+/** 8-bit C1 introducers and terminator */
+const C1_CSI = 0x9b
+const C1_OSC = 0x9d
+const C1_DCS = 0x90
+const C1_APC = 0x9f
+const C1_PM = 0x9e
+const C1_SOS = 0x98
+const C1_ST = 0x9c
+
+/** String sequence type by 7-bit introducer (the byte after ESC) */
+const STRING_INTRODUCERS: Record<string, StringToken["type"] | "osc"> = {
+  "]": "osc",
+  P: "dcs",
+  _: "apc",
+  "^": "pm",
+  X: "sos",
+}
+
+/** String sequence type by 8-bit C1 introducer */
+const C1_STRING_INTRODUCERS: Record<number, StringToken["type"] | "osc"> = {
+  [C1_OSC]: "osc",
+  [C1_DCS]: "dcs",
+  [C1_APC]: "apc",
+  [C1_PM]: "pm",
+  [C1_SOS]: "sos",
+}
+
+/**
+ * Finals recognized after a bare ESC: DECSC/DECRC (7 8), keypad modes (= >),
+ * RIS (c), IND/NEL/HTS/RI (D E H M) and ST (\). Any other byte leaves the
+ * ESC as a lone control character, so stray ESCs never eat text.
+ */
+const ESC_FINALS = new Set(["7", "8", "=", ">", "c", "D", "E", "H", "M", "\\"])
+
+function isControl(code: number): boolean {
+  return code < 0x20 || code === 0x7f || (code >= 0x80 && code <= 0x9f)
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+/**
+ * Parse an SGR parameter string ("1;38:2::255:0:0") into SgrParams.
+ */
+function parseSgrParams(params: string): SgrParam[] {
+  return params.split(";").map((param) => {
+    const [value, ...subparams] = param.split(":").map((n) => (n === "" ? 0 : Number(n)))
+    return { value: value!, subparams }
+  })
+}
+
+/**
+ * Scan a CSI sequence starting at `start` (the first byte after the introducer).
+ * The token's value spans from `introStart` to the end of the sequence.
+ */
+function scanCsi(str: string, introStart: number, start: number): AnsiToken {
+  let i = start
+  let prefix = ""
+  if (i < str.length && "?><=".includes(str[i]!)) prefix = str[i++]!
+
+  const paramsStart = i
+  while (i < str.length && str.charCodeAt(i) >= 0x30 && str.charCodeAt(i) <= 0x3f) i++
+  const params = str.slice(paramsStart, i)
+
+  const intermediatesStart = i
+  while (i < str.length && str.charCodeAt(i) >= 0x20 && str.charCodeAt(i) <= 0x2f) i++
+  const intermediates = str.slice(intermediatesStart, i)
+
+  const code = i < str.length ? str.charCodeAt(i) : -1
+  const final = code >= 0x40 && code <= 0x7e ? str[i++]! : ""
+  const value = str.slice(introStart, i)
+
+  if (final === "m" && prefix === "" && intermediates === "") {
+    return { type: "sgr", value, params: parseSgrParams(params) }
+  }
+  return { type: "csi", value, prefix, params, intermediates, final }
+}
+
+/**
+ * Scan a string sequence (OSC, DCS, APC, PM, SOS) until BEL (OSC only),
+ * ST or C1 ST. An ESC that does not start ST aborts the string; an
+ * unterminated string runs to the end of input, as in a terminal.
+ */
+function scanString(str: string, introStart: number, start: number, type: StringToken["type"] | "osc"): AnsiToken {
+  let i = start
+  let end = str.length
+  let next = str.length
+  while (i < str.length) {
+    const code = str.charCodeAt(i)
+    if ((code === BEL && type === "osc") || code === C1_ST) {
+      end = i
+      next = i + 1
+      break
+    }
+    if (code === ESC) {
+      end = i
+      next = str[i + 1] === "\\" ? i + 2 : i
+      break
+    }
+    i++
+  }
+
+  const value = str.slice(introStart, next)
+  const data = str.slice(start, end)
+  if (type === "osc") {
+    const separator = data.indexOf(";")
+    return {
+      type: "osc",
+      value,
+      command: separator === -1 ? data : data.slice(0, separator),
+      data: separator === -1 ? "" : data.slice(separator + 1),
+    }
+  }
+  return { type, value, data }
+}
+
+/**
+ * Split a string into typed ANSI tokens.
+ *
+ * Joining every token's `value` reproduces the input exactly.
+ *
+ * @param str - String potentially containing escape sequences
+ * @returns Tokens in input order
+ *
+ * @example
+ * ```ts
+ * tokenizeAnsi("\x1b[1;31mhi\x1b[0m\n")
+ * // [
+ * //   { type: "sgr", value: "\x1b[1;31m", params: [{ value: 1, subparams: [] }, { value: 31, subparams: [] }] },
+ * //   { type: "text", value: "hi" },
+ * //   { type: "sgr", value: "\x1b[0m", params: [{ value: 0, subparams: [] }] },
+ * //   { type: "control", value: "\n", code: 10 },
+ * // ]
+ * ```
+ */
+export function tokenizeAnsi(str: string): AnsiToken[] {
+  const tokens: AnsiToken[] = []
+  let i = 0
+
+  while (i < str.length) {
+    const code = str.charCodeAt(i)
+
+    // Text run
+    if (!isControl(code)) {
+      const start = i
+      while (i < str.length && !isControl(str.charCodeAt(i))) i++
+      tokens.push({ type: "text", value: str.slice(start, i) })
+      continue
+    }
+
+    let token: AnsiToken
+    if (code === ESC && i + 1 < str.length) {
+      const next = str[i + 1]!
+      const nextCode = str.charCodeAt(i + 1)
+      const stringType = STRING_INTRODUCERS[next]
+      if (next === "[") {
+        token = scanCsi(str, i, i + 2)
+      } else if (stringType) {
+        token = scanString(str, i, i + 2, stringType)
+      } else if (nextCode >= 0x20 && nextCode <= 0x2f) {
+        // ESC intermediates final, e.g. charset designation ESC ( B
+        let j = i + 1
+        while (j < str.length && str.charCodeAt(j) >= 0x20 && str.charCodeAt(j) <= 0x2f) j++
+        const intermediates = str.slice(i + 1, j)
+        const finalCode = j < str.length ? str.charCodeAt(j) : -1
+        const final = finalCode >= 0x30 && finalCode <= 0x7e ? str[j]! : ""
+        token = { type: "esc", value: `\x1b${intermediates}${final}`, intermediates, final }
+      } else if (ESC_FINALS.has(next)) {
+        token = { type: "esc", value: `\x1b${next}`, intermediates: "", final: next }
+      } else {
+        token = { type: "control", value: "\x1b", code }
+      }
+    } else if (code === C1_CSI) {
+      token = scanCsi(str, i, i + 1)
+    } else if (C1_STRING_INTRODUCERS[code]) {
+      token = scanString(str, i, i + 1, C1_STRING_INTRODUCERS[code]!)
+    } else {
+      token = { type: "control", value: str[i]!, code }
+    }
+    tokens.push(token)
+    i += token.value.length
+  }
+
+  return tokens
+}
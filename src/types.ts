@@ -3,6 +3,9 @@
  */
 
 import type { TerminalCaps } from "./detection.js"
+import type { TerminalColors } from "./probe.js"
+import type { Theme } from "./theme.js"
+import type { ResizeOptions } from "./resize.js"
 
 // =============================================================================
 // Color Types
@@ -64,7 +67,7 @@ type RgbColor = `rgb(${string})`
  * Format: $name — resolved against the active theme at render time.
  * Examples: $primary, $surface, $error, $bg, $fg, $muted-fg
  */
-type ThemeToken = `$${string}`
+export type ThemeToken = `$${string}`
 
 /**
  * Type-safe color value accepted by chalkx APIs.
@@ -102,6 +105,9 @@ export type UnderlineStyle = "single" | "double" | "curly" | "dotted" | "dashed"
 
 /**
  * Style options for term.style() method.
+ *
+ * Colors accept every Color form (ANSI name, `#hex`, `rgb(...)`, `$token`).
+ * `underlineStyle` and `underlineColor` imply `underline`.
  */
 export interface StyleOptions {
   color?: Color
@@ -112,6 +118,9 @@ export interface StyleOptions {
   underline?: boolean
   strikethrough?: boolean
   inverse?: boolean
+  underlineStyle?: UnderlineStyle
+  underlineColor?: Color
+  hyperlink?: string
 }
 
 // =============================================================================
@@ -150,6 +159,23 @@ export interface CreateTermOptions {
 
   // Terminal capabilities override
   caps?: Partial<TerminalCaps>
+
+  // Terminal default colors (usually from queryTerminalColors())
+  colors?: TerminalColors
+
+  // Theme for $token colors (default: built-in dark/light from caps.darkBackground)
+  theme?: Theme
+
+  // Resize notification debounce and pixel size queries for onResize()/subscribeSize()
+  resize?: ResizeOptions
+}
+
+/**
+ * Options for createTermAsync().
+ */
+export interface CreateTermAsyncOptions extends CreateTermOptions {
+  // Maximum time to wait for terminal query replies (ms, default: 200)
+  probeTimeout?: number
 }
 
 // Re-export TerminalCaps from detection for convenience
@@ -3,6 +3,10 @@
  *
  * Provides curly, dotted, dashed, and double underline styles
  * with graceful fallback to standard underline on unsupported terminals.
+ *
+ * The standalone functions detect support from the environment and use the
+ * global chalk. Inside apps, prefer the term members (`term.curlyUnderline`,
+ * `term.underlineColor(rgb)`), which honor the term's caps and color level.
  */
 
 import chalk from "chalk"
@@ -12,9 +16,11 @@ import {
   UNDERLINE_STANDARD,
   UNDERLINE_RESET_STANDARD,
   buildUnderlineColorCode,
+  buildUnderlineColorIndexCode,
 } from "./constants.js"
 import { detectExtendedUnderline } from "./detection.js"
-import type { UnderlineStyle, RGB } from "./types.js"
+import type { UnderlineStyle, RGB, TerminalCaps, ColorLevel } from "./types.js"
+import { ansi256ToRgb, rgbToAnsi16 } from "./quantize.js"
 
 // =============================================================================
 // Extended Underline Functions
@@ -154,3 +160,61 @@ export function styledUnderline(style: UnderlineStyle, rgb: RGB, text: string):
 
   return `${styleCode}${colorCode}${text}${UNDERLINE_CODES.reset}${UNDERLINE_COLOR_RESET}`
 }
+
+// =============================================================================
+// Capability-Driven Underlines
+// =============================================================================
+
+/**
+ * Underline style and color to apply with formatUnderline().
+ */
+export interface UnderlineFormat {
+  /** Underline style (default: "single") */
+  style?: UnderlineStyle
+  /** Underline color as RGB, or a 256-color palette index */
+  color?: RGB | number
+}
+
+/**
+ * Apply an underline style and color based on explicit capabilities
+ * instead of the environment.
+ *
+ * - Styles other than "single" need `caps.underlineStyles`, else SGR 4 is used
+ * - Color needs `caps.underlineColor`, else it is dropped (underline still applies)
+ *
+ * - Color is quantized to the color level (SGR 58:5 below truecolor)
+ *
+ * Used by the term style chain; the standalone functions above detect
+ * support from the environment on every call.
+ *
+ * @param text - Text to underline
+ * @param format - Style and color
+ * @param caps - Underline capabilities (usually `term.caps`)
+ * @param level - Color level (usually `term.hasColor()`, default: "truecolor")
+ * @returns Styled text with ANSI codes
+ */
+export function formatUnderline(
+  text: string,
+  format: UnderlineFormat,
+  caps: Pick<TerminalCaps, "underlineStyles" | "underlineColor">,
+  level: ColorLevel = "truecolor",
+): string {
+  const style = format.style ?? "single"
+  const extended = caps.underlineStyles && style !== "single"
+  const open = extended ? UNDERLINE_CODES[style] : UNDERLINE_STANDARD
+  const close = extended ? UNDERLINE_CODES.reset : UNDERLINE_RESET_STANDARD
+
+  if (format.color === undefined || !caps.underlineColor) {
+    return `${open}${text}${close}`
+  }
+
+  let colorCode: string
+  if (typeof format.color !== "number") {
+    colorCode = buildUnderlineColorCode(...format.color, level)
+  } else if (level === "basic" && format.color >= 16) {
+    colorCode = buildUnderlineColorIndexCode(rgbToAnsi16(ansi256ToRgb(format.color)))
+  } else {
+    colorCode = buildUnderlineColorIndexCode(format.color)
+  }
+  return `${open}${colorCode}${text}${UNDERLINE_COLOR_RESET}${close}`
+}
@@ -2,32 +2,67 @@
  * ANSI string utilities.
  *
  * This module can be imported separately via `@beorn/chalkx/utils`
- * for projects that only need ANSI stripping without chalk.
+ * for projects that only need ANSI stripping, measuring and slicing without chalk.
  */
 
 import stringWidth from "string-width"
+import { tokenizeAnsi } from "./tokenize.js"
+export { sliceAnsi, truncateAnsi, wrapAnsi } from "./text.js"
+export type { TruncateOptions, WrapOptions } from "./text.js"
+export { parseSgrState, diffSgr, closeSgr, applyAnsiToken, emptySgrState } from "./sgr-state.js"
+export type { SgrState, SgrColor, SgrHyperlink } from "./sgr-state.js"
+
+export { tokenizeAnsi } from "./tokenize.js"
+export type {
+  AnsiToken,
+  TextToken,
+  ControlToken,
+  SgrToken,
+  SgrParam,
+  CsiToken,
+  OscToken,
+  StringToken,
+  EscToken,
+} from "./tokenize.js"
 
 // =============================================================================
 // ANSI Regex Pattern
 // =============================================================================
 
 /**
- * ANSI escape code pattern for stripping.
+ * ANSI escape code pattern.
  *
  * Matches:
  * - SGR escape sequences: \x1b[31m (red), \x1b[0m (reset)
  * - Extended SGR codes: \x1b[4:3m (curly underline), \x1b[58:2::r:g:bm (underline color)
- * - OSC 8 hyperlink sequences: \x1b]8;;<url>\x1b\\ (opening and closing)
+ * - Other CSI sequences: \x1b[2J, \x1b[?25l, \x1b[5;10H (7-bit and 8-bit introducers)
+ * - OSC, DCS, APC, PM and SOS strings terminated by BEL, ST or C1 ST
+ *   (including OSC 8 hyperlinks: \x1b]8;;<url>\x1b\\)
+ *
+ * Kept for callers that need a regex. stripAnsi() and displayLength() use
+ * tokenizeAnsi(), which also handles unterminated and malformed sequences.
  */
-export const ANSI_REGEX = /\x1b\[[0-9;:]*m|\x1b\]8;;[^\x1b]*\x1b\\/g
+export const ANSI_REGEX =
+  /(?:\x1b\[|\x9b)[\x30-\x3f]*[\x20-\x2f]*[\x40-\x7e]|(?:\x1b[\]P_^X]|[\x90\x98\x9d\x9e\x9f])[^\x07\x1b\x9c]*(?:\x07|\x1b\\|\x9c)/g
 
 // =============================================================================
 // String Utilities
 // =============================================================================
 
+/** Characters stripAnsi() removes or that start an escape sequence: non-whitespace C0, DEL and C1 */
+const ESCAPE_START = /[\x00-\x08\x0e-\x1f\x7f-\x9f]/
+
+/** Whitespace controls (tab, newline, vertical tab, form feed, carriage return) */
+const isWhitespaceControl = (code: number) => code >= 0x09 && code <= 0x0d
+
 /**
  * Strip all ANSI escape codes from a string.
  *
+ * Removes every escape sequence family (SGR, CSI, OSC, DCS, APC, ...),
+ * 8-bit C1 controls and stray C0 controls — a dangling ESC from a
+ * truncated sequence, BEL, backspace, DEL. Only the whitespace controls
+ * tab, newline, vertical tab, form feed and carriage return are kept.
+ *
  * @param text - String potentially containing ANSI codes
  * @returns Clean string with all ANSI codes removed
  *
@@ -35,10 +70,20 @@ export const ANSI_REGEX = /\x1b\[[0-9;:]*m|\x1b\]8;;[^\x1b]*\x1b\\/g
  * ```ts
  * stripAnsi('\x1b[31mred\x1b[0m') // 'red'
  * stripAnsi('\x1b[4:3mwavy\x1b[4:0m') // 'wavy'
+ * stripAnsi('\x1b[2K\x1b[1Gdone\n') // 'done\n'
+ * stripAnsi('tail of a cut log\x1b') // 'tail of a cut log'
  * ```
  */
 export function stripAnsi(text: string): string {
-  return text.replace(ANSI_REGEX, "")
+  if (!ESCAPE_START.test(text)) return text
+
+  let result = ""
+  for (const token of tokenizeAnsi(text)) {
+    if (token.type === "text" || (token.type === "control" && isWhitespaceControl(token.code))) {
+      result += token.value
+    }
+  }
+  return result
 }
 
 /**
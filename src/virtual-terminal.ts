@@ -0,0 +1,548 @@
+/**
+ * In-memory virtual terminal for testing rendered output.
+ *
+ * Interprets the sequences chalkx emits — cursor movement, erasing,
+ * scroll regions, the alternate screen, SGR styling and OSC 8 links —
+ * into a grid of cells, so tests can assert on what the user would see
+ * instead of on raw escape strings.
+ *
+ * @example
+ * ```ts
+ * const vt = createVirtualTerminal(40, 10)
+ * using term = createTerm({ stdout: vt.stdout, color: "truecolor" })
+ * term.write(cursorTo(2, 4) + term.bold("hi"))
+ * vt.toString() // "\n\n    hi"
+ * vt.cell(2, 4).style.bold // true
+ * ```
+ */
+
+import { Writable } from "stream"
+import stringWidth from "string-width"
+import { ansiColorName } from "./color.js"
+import { applyAnsiToken, emptySgrState, type SgrColor, type SgrState } from "./sgr-state.js"
+import { tokenizeAnsi, type AnsiToken, type CsiToken } from "./tokenize.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One cell of the virtual screen.
+ */
+export interface VirtualCell {
+  /** Grapheme shown in the cell; "" for the right half of a wide character */
+  char: string
+  /** Columns the grapheme occupies: 1, 2 for wide characters, 0 for right halves */
+  width: number
+  /** Rendition the cell was written with */
+  style: SgrState
+  /** OSC 8 hyperlink URL, or null */
+  link: string | null
+}
+
+/**
+ * Cursor position (0-indexed) and visibility.
+ */
+export interface VirtualCursor {
+  row: number
+  col: number
+  visible: boolean
+}
+
+/**
+ * An in-memory terminal screen.
+ */
+export interface VirtualTerminal {
+  readonly cols: number
+  readonly rows: number
+  /** Writable TTY-like stream feeding this terminal; pass to createTerm({ stdout }) */
+  readonly stdout: NodeJS.WriteStream
+  /** Current cursor state */
+  readonly cursor: VirtualCursor
+  /** Whether the alternate screen buffer is active */
+  readonly altScreen: boolean
+  /** Window title set via OSC 0/2 */
+  readonly title: string
+  /** Cells of the active screen, row by row */
+  readonly grid: readonly (readonly VirtualCell[])[]
+
+  /** Interpret a chunk of output. Sequences split across writes are buffered. */
+  write(data: string): void
+  /** Cell at a position of the active screen */
+  cell(row: number, col: number): VirtualCell
+  /** Text of one row, without trailing blanks */
+  line(row: number): string
+  /** Screen text: rows without trailing blanks, trailing blank rows dropped */
+  toString(): string
+  /**
+   * Screen text with styled runs marked inline, e.g. `[bold fg=red]error[/]`.
+   * Stable across changes in escape code ordering, so suited to snapshots.
+   */
+  toStyledSnapshot(): string
+}
+
+// =============================================================================
+// Cells
+// =============================================================================
+
+const EMPTY_STYLE = emptySgrState()
+
+/** Blank cell; erased cells keep the current background (BCE) like xterm */
+function blankCell(style: SgrState = EMPTY_STYLE): VirtualCell {
+  if (style.bg === null) return { char: " ", width: 1, style: EMPTY_STYLE, link: null }
+  return { char: " ", width: 1, style: { ...EMPTY_STYLE, bg: style.bg }, link: null }
+}
+
+function blankLine(cols: number, style?: SgrState): VirtualCell[] {
+  return Array.from({ length: cols }, () => blankCell(style))
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+function describeColor(color: SgrColor): string {
+  if (typeof color !== "number") return `#${color.map((c) => c.toString(16).padStart(2, "0")).join("")}`
+  return color < 16 ? ansiColorName(color) : String(color)
+}
+
+/** Attribute list for a styled run, in a fixed order; "" when unstyled */
+function describeStyle(style: SgrState, link: string | null): string {
+  const parts: string[] = []
+  if (style.bold) parts.push("bold")
+  if (style.dim) parts.push("dim")
+  if (style.italic) parts.push("italic")
+  if (style.underline) parts.push(style.underline === "single" ? "underline" : `underline=${style.underline}`)
+  if (style.blink) parts.push("blink")
+  if (style.inverse) parts.push("inverse")
+  if (style.hidden) parts.push("hidden")
+  if (style.strikethrough) parts.push("strikethrough")
+  if (style.overline) parts.push("overline")
+  if (style.fg !== null) parts.push(`fg=${describeColor(style.fg)}`)
+  if (style.bg !== null) parts.push(`bg=${describeColor(style.bg)}`)
+  if (style.underlineColor !== null) parts.push(`underlineColor=${describeColor(style.underlineColor)}`)
+  if (link) parts.push(`link=${link}`)
+  return parts.join(" ")
+}
+
+/** A cell that looks empty: an unstyled space */
+function isBlank(cell: VirtualCell): boolean {
+  return cell.char === " " && describeStyle(cell.style, cell.link) === ""
+}
+
+/** Drop trailing blank cells */
+function trimCells(cells: readonly VirtualCell[]): readonly VirtualCell[] {
+  let end = cells.length
+  while (end > 0 && isBlank(cells[end - 1]!)) end--
+  return cells.slice(0, end)
+}
+
+/** Drop trailing empty rows */
+function trimRows(rows: string[]): string {
+  let end = rows.length
+  while (end > 0 && rows[end - 1] === "") end--
+  return rows.slice(0, end).join("\n")
+}
+
+// =============================================================================
+// Virtual Terminal
+// =============================================================================
+
+/**
+ * Create an in-memory terminal of the given size.
+ *
+ * Newlines move to the start of the next row, as on a TTY with the
+ * default `onlcr` output translation. Lines auto-wrap at the right edge.
+ *
+ * @param cols - Screen width in columns (default: 80)
+ * @param rows - Screen height in rows (default: 24)
+ */
+export function createVirtualTerminal(cols = 80, rows = 24): VirtualTerminal {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+
+  let main = Array.from({ length: rows }, () => blankLine(cols))
+  let alt = Array.from({ length: rows }, () => blankLine(cols))
+  let screen = main
+  let altScreen = false
+
+  let row = 0
+  let col = 0
+  let visible = true
+  let style = emptySgrState()
+  let wrapPending = false
+  let autowrap = true
+  let scrollTop = 0
+  let scrollBottom = rows - 1
+  let saved = { row: 0, col: 0, style: emptySgrState() }
+  let title = ""
+  let pending = ""
+
+  // ---------------------------------------------------------------------------
+  // Screen operations
+  // ---------------------------------------------------------------------------
+
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+  function moveTo(r: number, c: number) {
+    row = clamp(r, 0, rows - 1)
+    col = clamp(c, 0, cols - 1)
+    wrapPending = false
+  }
+
+  /** Scroll lines [top, bottom] up by n, adding blank lines at the bottom */
+  function scrollUp(n: number, top = scrollTop, bottom = scrollBottom) {
+    const count = Math.min(n, bottom - top + 1)
+    screen.splice(top, count)
+    screen.splice(bottom - count + 1, 0, ...Array.from({ length: count }, () => blankLine(cols, style)))
+  }
+
+  /** Scroll lines [top, bottom] down by n, adding blank lines at the top */
+  function scrollDown(n: number, top = scrollTop, bottom = scrollBottom) {
+    const count = Math.min(n, bottom - top + 1)
+    screen.splice(bottom - count + 1, count)
+    screen.splice(top, 0, ...Array.from({ length: count }, () => blankLine(cols, style)))
+  }
+
+  function lineFeed() {
+    if (row === scrollBottom) scrollUp(1)
+    else if (row < rows - 1) row++
+  }
+
+  function reverseIndex() {
+    if (row === scrollTop) scrollDown(1)
+    else if (row > 0) row--
+  }
+
+  function erase(r: number, from: number, to: number) {
+    const line = screen[r]!
+    for (let c = from; c < to; c++) line[c] = blankCell(style)
+  }
+
+  /** Blank both halves of a wide character overlapping a cell about to change */
+  function breakWide(r: number, c: number) {
+    const line = screen[r]!
+    if (line[c]?.width === 0 && c > 0) line[c - 1] = blankCell()
+    if (line[c]?.width === 2 && c + 1 < cols) line[c + 1] = blankCell()
+  }
+
+  function print(char: string, width: number) {
+    if (width === 0) {
+      // Combining characters join the previous cell
+      const target = wrapPending ? col : col - 1
+      const cell = screen[row]![target]
+      if (cell) screen[row]![target] = { ...cell, char: cell.char + char }
+      return
+    }
+
+    if (wrapPending || (width === 2 && col === cols - 1)) {
+      if (!autowrap) {
+        col = cols - width
+      } else {
+        if (!wrapPending) erase(row, col, cols)
+        col = 0
+        lineFeed()
+      }
+      wrapPending = false
+    }
+
+    const line = screen[row]!
+    breakWide(row, col)
+    if (width === 2) breakWide(row, col + 1)
+    const link = style.hyperlink?.url ?? null
+    line[col] = { char, width, style, link }
+    if (width === 2) line[col + 1] = { char: "", width: 0, style, link }
+
+    col += width
+    if (col >= cols) {
+      col = cols - 1
+      wrapPending = autowrap
+    }
+  }
+
+  function printText(text: string) {
+    for (const { segment } of segmenter.segment(text)) {
+      print(segment, Math.min(2, stringWidth(segment)))
+    }
+  }
+
+  function setAltScreen(enabled: boolean, saveCursor: boolean) {
+    if (enabled === altScreen) return
+    if (enabled) {
+      if (saveCursor) saved = { row, col, style }
+      alt = Array.from({ length: rows }, () => blankLine(cols))
+      screen = alt
+    } else {
+      screen = main
+      if (saveCursor) moveTo(saved.row, saved.col)
+    }
+    altScreen = enabled
+  }
+
+  function reset() {
+    main = Array.from({ length: rows }, () => blankLine(cols))
+    alt = Array.from({ length: rows }, () => blankLine(cols))
+    screen = main
+    altScreen = false
+    row = col = 0
+    visible = autowrap = true
+    wrapPending = false
+    style = emptySgrState()
+    scrollTop = 0
+    scrollBottom = rows - 1
+    title = ""
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sequence handlers
+  // ---------------------------------------------------------------------------
+
+  function setMode(mode: number, enabled: boolean) {
+    if (mode === 25) visible = enabled
+    else if (mode === 7) autowrap = enabled
+    else if (mode === 1049) setAltScreen(enabled, true)
+    else if (mode === 47 || mode === 1047) setAltScreen(enabled, false)
+  }
+
+  function handleCsi(token: CsiToken) {
+    const args = token.params.split(";").map((p) => (p === "" ? undefined : Number(p)))
+    const arg = (i: number, fallback: number) => args[i] ?? fallback
+    // Counts of 0 mean 1 for movement and editing
+    const n = Math.max(1, arg(0, 1))
+
+    if (token.prefix === "?") {
+      if (token.final === "h" || token.final === "l") {
+        for (const mode of args) if (mode !== undefined) setMode(mode, token.final === "h")
+      }
+      return
+    }
+    if (token.prefix !== "" || token.intermediates !== "") return
+
+    switch (token.final) {
+      case "H":
+      case "f":
+        moveTo(arg(0, 1) - 1, arg(1, 1) - 1)
+        break
+      case "A":
+        moveTo(row - n, col)
+        break
+      case "B":
+        moveTo(row + n, col)
+        break
+      case "C":
+        moveTo(row, col + n)
+        break
+      case "D":
+        moveTo(row, col - n)
+        break
+      case "E":
+        moveTo(row + n, 0)
+        break
+      case "F":
+        moveTo(row - n, 0)
+        break
+      case "G":
+        moveTo(row, n - 1)
+        break
+      case "d":
+        moveTo(n - 1, col)
+        break
+      case "J": {
+        const mode = arg(0, 0)
+        if (mode === 0) {
+          erase(row, col, cols)
+          for (let r = row + 1; r < rows; r++) erase(r, 0, cols)
+        } else if (mode === 1) {
+          for (let r = 0; r < row; r++) erase(r, 0, cols)
+          erase(row, 0, col + 1)
+        } else {
+          for (let r = 0; r < rows; r++) erase(r, 0, cols)
+        }
+        break
+      }
+      case "K": {
+        const mode = arg(0, 0)
+        if (mode === 0) erase(row, col, cols)
+        else if (mode === 1) erase(row, 0, col + 1)
+        else erase(row, 0, cols)
+        break
+      }
+      case "X":
+        erase(row, col, Math.min(cols, col + n))
+        break
+      case "P": {
+        const line = screen[row]!
+        line.splice(col, Math.min(n, cols - col))
+        while (line.length < cols) line.push(blankCell(style))
+        break
+      }
+      case "@": {
+        const line = screen[row]!
+        line.splice(col, 0, ...Array.from({ length: Math.min(n, cols - col) }, () => blankCell(style)))
+        line.length = cols
+        break
+      }
+      case "L":
+        if (row >= scrollTop && row <= scrollBottom) scrollDown(n, row, scrollBottom)
+        break
+      case "M":
+        if (row >= scrollTop && row <= scrollBottom) scrollUp(n, row, scrollBottom)
+        break
+      case "S":
+        scrollUp(n)
+        break
+      case "T":
+        scrollDown(n)
+        break
+      case "r": {
+        const top = arg(0, 1) - 1
+        const bottom = arg(1, rows) - 1
+        if (top < bottom && bottom < rows) {
+          scrollTop = top
+          scrollBottom = bottom
+          moveTo(0, 0)
+        }
+        break
+      }
+      case "s":
+        saved = { row, col, style }
+        break
+      case "u":
+        moveTo(saved.row, saved.col)
+        break
+    }
+  }
+
+  function handleToken(token: AnsiToken) {
+    switch (token.type) {
+      case "text":
+        printText(token.value)
+        break
+      case "sgr":
+        style = applyAnsiToken(style, token)
+        break
+      case "osc":
+        if (token.command === "8") style = applyAnsiToken(style, token)
+        else if (token.command === "0" || token.command === "2") title = token.data
+        break
+      case "csi":
+        handleCsi(token)
+        break
+      case "esc":
+        if (token.final === "7") saved = { row, col, style }
+        else if (token.final === "8") {
+          moveTo(saved.row, saved.col)
+          style = saved.style
+        } else if (token.final === "c") reset()
+        else if (token.final === "D") lineFeed()
+        else if (token.final === "E") {
+          lineFeed()
+          col = 0
+        } else if (token.final === "M") reverseIndex()
+        break
+      case "control":
+        if (token.value === "\n" || token.value === "\v" || token.value === "\f") {
+          lineFeed()
+          col = 0
+          wrapPending = false
+        } else if (token.value === "\r") {
+          col = 0
+          wrapPending = false
+        } else if (token.value === "\b") {
+          moveTo(row, col - 1)
+        } else if (token.value === "\t") {
+          moveTo(row, Math.min(cols - 1, (Math.floor(col / 8) + 1) * 8))
+        }
+        break
+    }
+  }
+
+  /** Whether a trailing token may continue in the next write */
+  function isIncomplete(token: AnsiToken): boolean {
+    switch (token.type) {
+      case "csi":
+      case "esc":
+        return token.final === ""
+      case "control":
+        return token.value === "\x1b"
+      case "osc":
+      case "dcs":
+      case "apc":
+      case "pm":
+      case "sos":
+        return !/(?:\x07|\x1b\\|\x9c)$/.test(token.value)
+      default:
+        return false
+    }
+  }
+
+  function write(data: string) {
+    const tokens = tokenizeAnsi(pending + data)
+    pending = ""
+    const last = tokens[tokens.length - 1]
+    if (last && isIncomplete(last)) {
+      pending = last.value
+      tokens.pop()
+    }
+    for (const token of tokens) handleToken(token)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Stream and inspection
+  // ---------------------------------------------------------------------------
+
+  const stdout = Object.assign(
+    new Writable({
+      decodeStrings: false,
+      write(chunk: string | Buffer, _encoding, callback) {
+        write(String(chunk))
+        callback()
+      },
+    }),
+    { isTTY: true, columns: cols, rows },
+  ) as unknown as NodeJS.WriteStream
+
+  function line(r: number): string {
+    return trimCells(screen[r] ?? [])
+      .map((cell) => cell.char)
+      .join("")
+  }
+
+  function styledLine(r: number): string {
+    let result = ""
+    let runLabel = ""
+    for (const cell of trimCells(screen[r] ?? [])) {
+      if (cell.width === 0 && cell.char === "") continue
+      const label = describeStyle(cell.style, cell.link)
+      if (label !== runLabel) {
+        if (runLabel) result += "[/]"
+        if (label) result += `[${label}]`
+        runLabel = label
+      }
+      result += cell.char
+    }
+    return runLabel ? result + "[/]" : result
+  }
+
+  return {
+    cols,
+    rows,
+    stdout,
+    get cursor() {
+      return { row, col, visible }
+    },
+    get altScreen() {
+      return altScreen
+    },
+    get title() {
+      return title
+    },
+    get grid() {
+      return screen
+    },
+    write,
+    cell: (r, c) => screen[r]?.[c] ?? blankCell(),
+    line,
+    toString: () => trimRows(screen.map((_, r) => line(r))),
+    toStyledSnapshot: () => trimRows(screen.map((_, r) => styledLine(r))),
+  }
+}
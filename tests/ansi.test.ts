@@ -6,10 +6,14 @@ import {
   clearLine,
   cursorTo,
   cursorHome,
+  cursorUp,
+  cursorDown,
   cursorHide,
   cursorShow,
   cursorStyle,
   setTitle,
+  setTaskbarProgress,
+  clearTaskbarProgress,
   enableMouse,
   disableMouse,
   enableBracketedPaste,
@@ -22,6 +26,7 @@ import {
   scrollDown,
   enableKittyKeyboard,
   disableKittyKeyboard,
+  passthrough,
 } from "../src/ansi.js"
 
 const ESC = "\x1b"
@@ -64,6 +69,12 @@ describe("ansi helpers", () => {
       expect(cursorHome()).toBe(`${CSI}H`)
     })
 
+    test("cursorUp/cursorDown send CUU/CUD", () => {
+      expect(cursorUp(2)).toBe(`${CSI}2A`)
+      expect(cursorDown(1)).toBe(`${CSI}1B`)
+      expect(cursorUp(0)).toBe("")
+    })
+
     test("cursorHide sets DEC 25 reset", () => {
       expect(cursorHide()).toBe(`${CSI}?25l`)
     })
@@ -94,6 +105,13 @@ describe("ansi helpers", () => {
       expect(setTitle("")).toBe(`${ESC}]2;\x07`)
     })
 
+    test("setTaskbarProgress uses OSC 9;4 with a clamped percentage", () => {
+      expect(setTaskbarProgress(42.4)).toBe(`${ESC}]9;4;1;42\x07`)
+      expect(setTaskbarProgress(150, "error")).toBe(`${ESC}]9;4;2;100\x07`)
+      expect(setTaskbarProgress(0, "indeterminate")).toBe(`${ESC}]9;4;3;0\x07`)
+      expect(clearTaskbarProgress()).toBe(`${ESC}]9;4;0;0\x07`)
+    })
+
     test("enableMouse enables modes 1000, 1002, 1006", () => {
       expect(enableMouse()).toBe(`${CSI}?1000h${CSI}?1002h${CSI}?1006h`)
     })
@@ -208,6 +226,25 @@ describe("ansi helpers", () => {
     })
   })
 
+  // ===========================================================================
+  // Multiplexer Passthrough
+  // ===========================================================================
+
+  describe("passthrough", () => {
+    test("wraps for tmux with doubled ESC", () => {
+      expect(passthrough(`${ESC}]52;c;aGk=\x07`, "tmux")).toBe(`${ESC}Ptmux;${ESC}${ESC}]52;c;aGk=\x07${ESC}\\`)
+    })
+
+    test("wraps for screen in 768-byte chunks", () => {
+      const long = "x".repeat(1000)
+      expect(passthrough(long, "screen")).toBe(`${ESC}P${"x".repeat(768)}${ESC}\\${ESC}P${"x".repeat(232)}${ESC}\\`)
+    })
+
+    test("leaves sequences alone without a multiplexer", () => {
+      expect(passthrough(`${CSI}?25l`, null)).toBe(`${CSI}?25l`)
+    })
+  })
+
   // ===========================================================================
   // Composability
   // ===========================================================================
@@ -0,0 +1,111 @@
+/**
+ * Tests for sparklines and bar charts
+ */
+
+import { describe, it, expect } from "vitest"
+import { barChart, sparkline } from "../src/chart.js"
+import { displayLength, stripAnsi } from "../src/utils.js"
+import { termWith } from "./helpers.js"
+
+describe("sparkline", () => {
+  it("maps values onto eight block levels", () => {
+    expect(sparkline(termWith(), [0, 1, 2, 3, 4, 5, 6, 7])).toBe("▁▂▃▄▅▆▇█")
+  })
+
+  it("uses ASCII levels without unicode", () => {
+    expect(sparkline(termWith({ unicode: false }), [0, 7])).toBe("_#")
+  })
+
+  it("clamps to min and max", () => {
+    expect(sparkline(termWith(), [-5, 50, 150], { min: 0, max: 100 })).toBe("▁▅█")
+  })
+
+  it("draws flat data at mid height and gaps for non-finite values", () => {
+    expect(sparkline(termWith(), [3, 3, NaN, 3])).toBe("▅▅ ▅")
+  })
+
+  it("averages into buckets or right-aligns to the width", () => {
+    expect(sparkline(termWith(), [0, 0, 10, 10], { width: 2 })).toBe("▁█")
+    expect(sparkline(termWith(), [0, 10], { width: 5 })).toBe("   ▁█")
+  })
+
+  it("colors the line at the term's color level", () => {
+    const values = [1, 5, 3, 8, 2]
+    const truecolor = sparkline(termWith({ color: "truecolor" }), values, { color: "#ff8800" })
+    const basic = sparkline(termWith({ color: "basic" }), values, { color: "#ff8800" })
+    expect(truecolor).toContain("\x1b[38;2;255;136;0m")
+    expect(basic).toMatch(/^\x1b\[9[0-7]m|^\x1b\[3[0-7]m/)
+    expect(stripAnsi(basic)).toBe(stripAnsi(truecolor))
+    expect(displayLength(truecolor)).toBe(5)
+  })
+})
+
+describe("barChart", () => {
+  const entries = [
+    { label: "api", value: 100 },
+    { label: "worker", value: 50 },
+    { label: "cron", value: 5 },
+  ]
+
+  it("pads labels, scales bars and right-aligns values", () => {
+    expect(barChart(termWith(), entries, { width: 20 })).toEqual([
+      "api    █████████ 100",
+      "worker ████▌      50",
+      "cron   ▍           5",
+    ])
+  })
+
+  it("keeps every line at exactly the requested width", () => {
+    for (const color of ["truecolor", "256", null] as const) {
+      for (const width of [12, 30, 80]) {
+        const lines = barChart(termWith({ color }), entries, { width })
+        for (const line of lines) expect(displayLength(line)).toBe(width)
+      }
+    }
+  })
+
+  it("truncates long labels to a third of the width", () => {
+    const [line] = barChart(termWith(), [{ label: "a-very-long-service-name", value: 1 }], { width: 30 })
+    expect(line!.startsWith("a-very-lo… ")).toBe(true)
+    expect(displayLength(line!)).toBe(30)
+  })
+
+  it("uses ASCII bars without unicode", () => {
+    expect(barChart(termWith({ unicode: false }), entries, { width: 20, values: false, labels: false })).toEqual([
+      "####################",
+      "##########          ",
+      "#                   ",
+    ])
+  })
+
+  it("colors bars from a scale, a function or the entry", () => {
+    const term = termWith({ color: "truecolor" })
+    const scaled = barChart(term, entries, { width: 20, colorScale: ["#00ff00", "#ff0000"] })
+    expect(scaled[0]).toContain("\x1b[38;2;255;0;0m")
+    expect(scaled[1]).toContain("\x1b[38;2;255;0;0m")
+    expect(scaled[2]).toContain("\x1b[38;2;0;255;0m")
+
+    const byFunction = barChart(term, entries, {
+      width: 20,
+      colorScale: (value) => (value > 60 ? "#0000ff" : "#ffffff"),
+    })
+    expect(byFunction[0]).toContain("\x1b[38;2;0;0;255m")
+    expect(byFunction[1]).toContain("\x1b[38;2;255;255;255m")
+
+    const [own] = barChart(term, [{ label: "x", value: 1, color: "#123456" }], { width: 10 })
+    expect(own).toContain("\x1b[38;2;18;52;86m")
+  })
+
+  it("draws empty bars for zero and negative values", () => {
+    const lines = barChart(termWith(), [
+      { label: "a", value: 0 },
+      { label: "b", value: -3 },
+    ])
+    expect(lines.map((line) => line.replace(/[^█▏▎▍▌▋▊▉]/g, ""))).toEqual(["", ""])
+  })
+
+  it("fits the term width by default", () => {
+    const lines = termWith({ cols: 60 }).barChart(entries)
+    for (const line of lines) expect(displayLength(line)).toBe(60)
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Tests for OSC 52 clipboard access
+ */
+
+import { describe, it, expect } from "vitest"
+import { copyToClipboard, parseClipboardReply, readClipboard } from "../src/clipboard.js"
+import { createTerm } from "../src/term.js"
+import { fakeTerminal } from "./helpers.js"
+
+/** Answer clipboard queries with `reply` */
+const answer = (reply: string) => (query: string) => (query.includes(";?") ? reply : undefined)
+
+describe("copyToClipboard", () => {
+  it("encodes text as base64 OSC 52", () => {
+    expect(copyToClipboard("hello", { multiplexer: null })).toBe("\x1b]52;c;aGVsbG8=\x07")
+  })
+
+  it("encodes UTF-8", () => {
+    expect(copyToClipboard("héllo ✓", { multiplexer: null })).toBe(
+      `\x1b]52;c;${Buffer.from("héllo ✓").toString("base64")}\x07`,
+    )
+  })
+
+  it("selects the target", () => {
+    expect(copyToClipboard("x", { target: "p", multiplexer: null })).toBe("\x1b]52;p;eA==\x07")
+  })
+
+  it("returns an empty string over the size limit", () => {
+    // 301 bytes encode to 404 base64 characters, 300 bytes to exactly 400
+    expect(copyToClipboard("a".repeat(301), { maxLength: 400, multiplexer: null })).toBe("")
+    expect(copyToClipboard("a".repeat(300), { maxLength: 400, multiplexer: null })).not.toBe("")
+  })
+
+  it("wraps for tmux passthrough", () => {
+    expect(copyToClipboard("hi", { multiplexer: "tmux" })).toBe("\x1bPtmux;\x1b\x1b]52;c;aGk=\x07\x1b\\")
+  })
+})
+
+describe("parseClipboardReply", () => {
+  it("decodes BEL and ST terminated replies", () => {
+    expect(parseClipboardReply("\x1b]52;c;aGVsbG8=\x07")).toBe("hello")
+    expect(parseClipboardReply("noise\x1b]52;p;aGk=\x1b\\")).toBe("hi")
+  })
+
+  it("returns null without a reply", () => {
+    expect(parseClipboardReply("\x1b[?62c")).toBeNull()
+  })
+})
+
+describe("readClipboard", () => {
+  it("queries and decodes the clipboard", async () => {
+    const { stdout, stdin, writes } = fakeTerminal(answer("\x1b]52;c;Y29waWVk\x07"))
+    expect(await readClipboard(stdin, stdout, { multiplexer: null, timeout: 500 })).toBe("copied")
+    expect(writes[0]).toBe("\x1b]52;c;?\x07")
+  })
+
+  it("resolves null when the terminal does not answer", async () => {
+    const { stdout, stdin } = fakeTerminal()
+    expect(await readClipboard(stdin, stdout, { multiplexer: null, timeout: 20 })).toBeNull()
+  })
+
+  it("skips the query when not a TTY", async () => {
+    const { stdout, stdin, writes } = fakeTerminal()
+    stdout.isTTY = false
+    expect(await readClipboard(stdin, stdout)).toBeNull()
+    expect(writes).toEqual([])
+  })
+})
+
+describe("term clipboard", () => {
+  it("writes copies and reads through the term", async () => {
+    const { stdout, stdin, writes } = fakeTerminal(answer("\x1b]52;c;cGFzdGVk\x07"))
+    using term = createTerm({ stdout, stdin, color: null, caps: { osc52: true } })
+    expect(term.copyToClipboard("x", { multiplexer: null })).toBe(true)
+    expect(writes).toEqual(["\x1b]52;c;eA==\x07"])
+    expect(term.copyToClipboard("x".repeat(100), { maxLength: 10 })).toBe(false)
+    expect(await term.readClipboard({ multiplexer: null, timeout: 500 })).toBe("pasted")
+  })
+
+  it("copies nothing when the terminal lacks OSC 52", () => {
+    const { stdout, stdin, writes } = fakeTerminal()
+    using term = createTerm({ stdout, stdin, color: null, caps: { osc52: false } })
+    expect(term.copyToClipboard("x", { multiplexer: null })).toBe(false)
+    expect(writes).toEqual([])
+  })
+})
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, afterEach } from "vitest"
-import { detectExtendedUnderline } from "../src/detection.js"
+import { detectExtendedUnderline, detectMultiplexer } from "../src/detection.js"
 
 describe("terminal detection", () => {
   // Save original env values
@@ -84,4 +84,33 @@ describe("terminal detection", () => {
       expect(detectExtendedUnderline()).toBe(false)
     })
   })
+
+  describe("multiplexer detection", () => {
+    const origTmux = process.env.TMUX
+    const origSty = process.env.STY
+
+    afterEach(() => {
+      if (origTmux !== undefined) process.env.TMUX = origTmux
+      else delete process.env.TMUX
+      if (origSty !== undefined) process.env.STY = origSty
+      else delete process.env.STY
+    })
+
+    it("detects tmux via TMUX", () => {
+      process.env.TMUX = "/tmp/tmux-1000/default,123,0"
+      expect(detectMultiplexer()).toBe("tmux")
+    })
+
+    it("detects screen via STY", () => {
+      delete process.env.TMUX
+      process.env.STY = "123.pts-0.host"
+      expect(detectMultiplexer()).toBe("screen")
+    })
+
+    it("returns null outside a multiplexer", () => {
+      delete process.env.TMUX
+      delete process.env.STY
+      expect(detectMultiplexer()).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,93 @@
+/**
+ * Shared fixtures for the tests: fake TTY streams, terms and RGBA images
+ */
+
+import { PassThrough } from "stream"
+import { createTerm } from "../src/term.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+import type { ColorLevel } from "../src/types.js"
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// =============================================================================
+// Streams
+// =============================================================================
+
+/** Fake TTY stdin that records raw mode changes */
+export function fakeStdin() {
+  const stdin = new PassThrough() as unknown as NodeJS.ReadStream & PassThrough
+  const modes: boolean[] = []
+  stdin.isTTY = true
+  stdin.isRaw = false
+  stdin.setRawMode = (mode: boolean) => {
+    modes.push(mode)
+    stdin.isRaw = mode
+    return stdin
+  }
+  return { stdin, modes }
+}
+
+/**
+ * Fake stdout that records writes, with mutable dimensions.
+ * A TTY unless `isTTY` is false; `resize()` updates the size and emits "resize".
+ */
+export function fakeStdout(
+  options: { isTTY?: boolean; cols?: number; rows?: number; onWrite?: (chunk: string) => void } = {},
+) {
+  const stdout = new PassThrough() as unknown as NodeJS.WriteStream & PassThrough
+  const writes: string[] = []
+  stdout.isTTY = options.isTTY ?? true
+  stdout.columns = options.cols ?? 80
+  stdout.rows = options.rows ?? 24
+  stdout.write = ((chunk: string) => {
+    writes.push(chunk)
+    options.onWrite?.(chunk)
+    return true
+  }) as typeof stdout.write
+  const resize = (cols: number, rows: number) => {
+    stdout.columns = cols
+    stdout.rows = rows
+    stdout.emit("resize")
+  }
+  return { stdout, writes, resize }
+}
+
+/**
+ * Fake TTY pair: whatever is written to stdout is passed to `respond`,
+ * and its return value, if any, is fed back through stdin.
+ */
+export function fakeTerminal(
+  respond: (query: string) => string | undefined = () => undefined,
+  options: { cols?: number; rows?: number } = {},
+) {
+  const { stdin, modes } = fakeStdin()
+  const { stdout, writes, resize } = fakeStdout({
+    ...options,
+    onWrite(chunk) {
+      const reply = respond(chunk)
+      if (reply) setTimeout(() => stdin.write(reply), 1)
+    },
+  })
+  return { stdin, stdout, writes, modes, resize }
+}
+
+// =============================================================================
+// Terms and Images
+// =============================================================================
+
+/** Term on a virtual screen, without colors unless `color` is given */
+export function termWith(options: { color?: ColorLevel | null; unicode?: boolean; cols?: number } = {}) {
+  const vt = createVirtualTerminal(options.cols ?? 80, 10)
+  return createTerm({ stdout: vt.stdout, color: options.color ?? null, unicode: options.unicode ?? true })
+}
+
+/** Build an RGBA buffer from a per-pixel color function */
+export function image(
+  width: number,
+  height: number,
+  color: (x: number, y: number) => [number, number, number, number],
+) {
+  const rgba = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) rgba.set(color(x, y), (y * width + x) * 4)
+  return rgba
+}
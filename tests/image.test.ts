@@ -0,0 +1,132 @@
+/**
+ * Tests for inline images
+ */
+
+import { describe, it, expect } from "vitest"
+import { inflateSync } from "zlib"
+import { detectImageProtocol, encodePng, itermImage, renderImage } from "../src/image.js"
+import { passthrough } from "../src/ansi.js"
+import { defaultCaps } from "../src/detection.js"
+import { createTerm } from "../src/term.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+
+/** 2x2 image: red, green / blue, transparent */
+const PIXELS = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 0, 0, 0, 0])
+
+/** Term on a virtual screen with the given image caps */
+function tty(caps: { kittyGraphics?: boolean; itermImages?: boolean; sixel?: boolean } = {}) {
+  const vt = createVirtualTerminal(40, 10)
+  const term = createTerm({
+    stdout: vt.stdout,
+    color: "truecolor",
+    cursor: true,
+    unicode: true,
+    caps: { kittyGraphics: false, itermImages: false, sixel: false, ...caps },
+  })
+  return { vt, term }
+}
+
+describe("detectImageProtocol", () => {
+  it("prefers kitty, then OSC 1337, then sixel", () => {
+    const caps = defaultCaps()
+    expect(detectImageProtocol({ ...caps, kittyGraphics: true, itermImages: true, sixel: true })).toBe("kitty")
+    expect(detectImageProtocol({ ...caps, itermImages: true, sixel: true })).toBe("iterm")
+    expect(detectImageProtocol({ ...caps, sixel: true })).toBe("sixel")
+    expect(detectImageProtocol(caps)).toBe("blocks")
+    expect(detectImageProtocol(undefined)).toBe("blocks")
+  })
+})
+
+describe("encodePng", () => {
+  it("writes signature, header and pixel data", () => {
+    const png = Buffer.from(encodePng(PIXELS, 2, 2))
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    expect(png.toString("ascii", 12, 16)).toBe("IHDR")
+    expect(png.readUInt32BE(16)).toBe(2)
+    expect(png.readUInt32BE(20)).toBe(2)
+    expect([png[24], png[25]]).toEqual([8, 6])
+
+    const idatLength = png.readUInt32BE(33)
+    expect(png.toString("ascii", 37, 41)).toBe("IDAT")
+    const raw = inflateSync(png.subarray(41, 41 + idatLength))
+    expect([...raw]).toEqual([0, ...PIXELS.subarray(0, 8), 0, ...PIXELS.subarray(8)])
+    expect(png.toString("ascii", png.length - 8, png.length - 4)).toBe("IEND")
+  })
+
+  it("stores valid chunk checksums", () => {
+    // CRC-32 of "IEND" with no data
+    const png = Buffer.from(encodePng(PIXELS, 2, 2))
+    expect(png.readUInt32BE(png.length - 4)).toBe(0xae426082)
+  })
+
+  it("returns empty for missing pixel data", () => {
+    expect(encodePng(new Uint8Array(4), 2, 2)).toHaveLength(0)
+  })
+})
+
+describe("itermImage", () => {
+  it("builds an OSC 1337 inline file", () => {
+    const file = new Uint8Array([1, 2, 3])
+    expect(itermImage(file, { cols: 10, multiplexer: null })).toBe("\x1b]1337;File=inline=1;size=3;width=10:AQID\x07")
+  })
+})
+
+describe("renderImage", () => {
+  it("uses the Kitty graphics protocol", () => {
+    const { term } = tty({ kittyGraphics: true })
+    expect(renderImage(term, PIXELS, 2, 2, { cols: 4, multiplexer: null })).toMatch(/^\x1b_Ga=T,f=32,s=2,v=2,c=4,q=2/)
+  })
+
+  it("uses unicode placeholders for Kitty inside tmux", () => {
+    const { term } = tty({ kittyGraphics: true })
+    const output = renderImage(term, PIXELS, 2, 2, { cols: 2, rows: 1, multiplexer: "tmux" })
+    expect(output.startsWith("\x1bPtmux;")).toBe(true)
+    expect(output).toContain("U=1")
+    expect(output).toContain("\u{10EEEE}")
+  })
+
+  it("sends a PNG over OSC 1337", () => {
+    const { term } = tty({ itermImages: true })
+    const output = renderImage(term, PIXELS, 2, 2, { multiplexer: null })
+    const payload = /^\x1b\]1337;File=inline=1;size=\d+:(.*)\x07$/.exec(output)![1]!
+    expect(Buffer.from(payload, "base64")).toEqual(Buffer.from(encodePng(PIXELS, 2, 2)))
+  })
+
+  it("encodes sixel at native size or scaled to cells", () => {
+    const { term } = tty({ sixel: true })
+    expect(renderImage(term, PIXELS, 2, 2, { multiplexer: null })).toMatch(/^\x1bP0;1;0q"1;1;2;2/)
+    // Default cell size 8x16 without a pixel size reply
+    expect(renderImage(term, PIXELS, 2, 2, { cols: 2, rows: 1, multiplexer: null })).toMatch(/^\x1bP0;1;0q"1;1;16;16/)
+  })
+
+  it("wraps sixel for tmux passthrough", () => {
+    const { term } = tty({ sixel: true })
+    const sixel = renderImage(term, PIXELS, 2, 2, { multiplexer: null })
+    expect(renderImage(term, PIXELS, 2, 2, { multiplexer: "tmux" })).toBe(passthrough(sixel, "tmux"))
+  })
+
+  it("falls back to half blocks", () => {
+    const { vt, term } = tty()
+    vt.write(renderImage(term, PIXELS, 2, 2))
+    expect(vt.line(0)).toBe("▀▀")
+    expect(vt.cell(0, 0).style.fg).toEqual([255, 0, 0])
+    expect(vt.cell(0, 0).style.bg).toEqual([0, 0, 255])
+    // Transparent bottom pixel keeps the default background
+    expect(vt.cell(0, 1).style.fg).toEqual([0, 255, 0])
+    expect(vt.cell(0, 1).style.bg).toBeNull()
+  })
+
+  it("returns empty for missing pixel data", () => {
+    const { term } = tty()
+    expect(renderImage(term, new Uint8Array(4), 2, 2)).toBe("")
+  })
+})
+
+describe("term.image", () => {
+  it("writes the image followed by a newline", () => {
+    const { vt, term } = tty()
+    term.image(PIXELS, 2, 2, { cols: 2 })
+    expect(vt.line(0)).toBe("▀▀")
+    expect(vt.cursor.row).toBe(1)
+  })
+})
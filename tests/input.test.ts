@@ -0,0 +1,323 @@
+/**
+ * Tests for raw terminal input decoding
+ */
+
+import { describe, it, expect } from "vitest"
+import { createInputDecoder, readInput, readKeys, type InputEvent, type KeyEvent } from "../src/input.js"
+import { enableMouse, disableMouse } from "../src/ansi.js"
+import { createTerm } from "../src/term.js"
+import { fakeStdin } from "./helpers.js"
+
+/** Decode a complete input string */
+function decode(input: string): InputEvent[] {
+  const decoder = createInputDecoder()
+  return [...decoder.feed(input), ...decoder.flush()]
+}
+
+/** Decode a single key */
+function key(input: string): KeyEvent {
+  const events = decode(input)
+  expect(events).toHaveLength(1)
+  expect(events[0]!.kind).toBe("key")
+  return events[0] as KeyEvent
+}
+
+describe("input decoding", () => {
+  describe("legacy keys", () => {
+    it("decodes printable characters", () => {
+      expect(key("a")).toMatchObject({ kind: "key", key: "a", code: "a", text: "a", shift: false, ctrl: false })
+      expect(key("A")).toMatchObject({ key: "A", code: "a", text: "A", shift: true })
+      expect(decode("hé").map((e) => (e as KeyEvent).key)).toEqual(["h", "é"])
+    })
+
+    it("keeps grapheme clusters together", () => {
+      expect(key("👨‍👩‍👧").key).toBe("👨‍👩‍👧")
+    })
+
+    it("decodes control characters", () => {
+      expect(key("\r")).toMatchObject({ key: "Enter", text: "" })
+      expect(key("\t").key).toBe("Tab")
+      expect(key("\x7f").key).toBe("Backspace")
+      expect(key("\x03")).toMatchObject({ key: "c", ctrl: true, text: "" })
+      expect(key("\x00")).toMatchObject({ key: " ", ctrl: true })
+    })
+
+    it("decodes Alt as an ESC prefix", () => {
+      expect(key("\x1bx")).toMatchObject({ key: "x", alt: true, text: "", sequence: "\x1bx" })
+      expect(key("\x1b\x7f")).toMatchObject({ key: "Backspace", alt: true })
+    })
+
+    it("decodes cursor and function keys", () => {
+      expect(key("\x1b[A").key).toBe("ArrowUp")
+      expect(key("\x1bOB").key).toBe("ArrowDown")
+      expect(key("\x1b[H").key).toBe("Home")
+      expect(key("\x1bOP").key).toBe("F1")
+      expect(key("\x1b[15~").key).toBe("F5")
+      expect(key("\x1b[3~").key).toBe("Delete")
+      expect(key("\x1b[Z")).toMatchObject({ key: "Tab", shift: true })
+    })
+
+    it("decodes modifier parameters", () => {
+      expect(key("\x1b[1;5C")).toMatchObject({ key: "ArrowRight", ctrl: true, shift: false })
+      expect(key("\x1b[1;4A")).toMatchObject({ key: "ArrowUp", shift: true, alt: true })
+      expect(key("\x1b[5;3~")).toMatchObject({ key: "PageUp", alt: true })
+    })
+
+    it("decodes modifyOtherKeys", () => {
+      expect(key("\x1b[27;5;13~")).toMatchObject({ key: "Enter", ctrl: true })
+      expect(key("\x1b[27;6;97~")).toMatchObject({ key: "A", code: "a", ctrl: true, shift: true })
+    })
+
+    it("ignores terminal replies", () => {
+      expect(decode("\x1b[?62;4c\x1b[?1ux")).toMatchObject([{ key: "x" }])
+    })
+  })
+
+  describe("Kitty keyboard protocol", () => {
+    it("decodes keys and modifiers", () => {
+      expect(key("\x1b[97u")).toMatchObject({ key: "a", code: "a", text: "a" })
+      expect(key("\x1b[97;5u")).toMatchObject({ key: "a", ctrl: true, text: "" })
+      expect(key("\x1b[97;9u")).toMatchObject({ key: "a", meta: true })
+      expect(key("\x1b[27u").key).toBe("Escape")
+      expect(key("\x1b[13;2u")).toMatchObject({ key: "Enter", shift: true })
+    })
+
+    it("uses the shifted key and associated text", () => {
+      expect(key("\x1b[97:65;2;65u")).toMatchObject({ key: "A", code: "a", text: "A", shift: true })
+      expect(key("\x1b[49:33;2u")).toMatchObject({ key: "!", code: "1" })
+    })
+
+    it("decodes event types", () => {
+      expect(key("\x1b[97;1:1u").eventType).toBe("press")
+      expect(key("\x1b[97;1:2u").eventType).toBe("repeat")
+      expect(key("\x1b[97;1:3u")).toMatchObject({ eventType: "release", text: "" })
+      expect(key("\x1b[1;1:3A")).toMatchObject({ key: "ArrowUp", eventType: "release" })
+    })
+
+    it("names functional keys", () => {
+      expect(key("\x1b[57376u").key).toBe("F13")
+      expect(key("\x1b[57441;2u").key).toBe("Shift")
+      expect(key("\x1b[57399u")).toMatchObject({ key: "0", text: "0" })
+    })
+  })
+
+  describe("chunking and ESC ambiguity", () => {
+    it("holds a lone ESC until flushed", () => {
+      const decoder = createInputDecoder()
+      expect(decoder.feed("\x1b")).toEqual([])
+      expect(decoder.pending).toBe(true)
+      expect(decoder.flush()).toMatchObject([{ key: "Escape" }])
+      expect(decoder.pending).toBe(false)
+    })
+
+    it("joins sequences split across chunks", () => {
+      const decoder = createInputDecoder()
+      expect(decoder.feed("\x1b[1;")).toEqual([])
+      expect(decoder.feed("5A")).toMatchObject([{ key: "ArrowUp", ctrl: true }])
+    })
+
+    it("decodes several keys in one chunk", () => {
+      expect(decode("ab\x1b[Bc\r").map((e) => (e as KeyEvent).key)).toEqual(["a", "b", "ArrowDown", "c", "Enter"])
+    })
+  })
+})
+
+describe("mouse decoding", () => {
+  it("decodes SGR presses and releases with 0-indexed coordinates", () => {
+    expect(decode("\x1b[<0;10;5M")).toEqual([
+      {
+        kind: "mouse",
+        type: "down",
+        button: "left",
+        x: 9,
+        y: 4,
+        shift: false,
+        alt: false,
+        ctrl: false,
+        sequence: "\x1b[<0;10;5M",
+      },
+    ])
+    expect(decode("\x1b[<2;1;1m")).toMatchObject([{ type: "up", button: "right", x: 0, y: 0 }])
+  })
+
+  it("decodes drag, move and wheel", () => {
+    expect(decode("\x1b[<32;3;4M")).toMatchObject([{ type: "drag", button: "left" }])
+    expect(decode("\x1b[<35;3;4M")).toMatchObject([{ type: "move", button: "none" }])
+    expect(decode("\x1b[<64;3;4M")).toMatchObject([{ type: "wheel", button: "wheelUp" }])
+    expect(decode("\x1b[<65;3;4M")).toMatchObject([{ type: "wheel", button: "wheelDown" }])
+  })
+
+  it("decodes modifiers", () => {
+    expect(decode("\x1b[<28;1;1M")).toMatchObject([{ button: "left", shift: true, alt: true, ctrl: true }])
+  })
+
+  it("decodes legacy X10 reports", () => {
+    expect(decode("\x1b[M !!")).toMatchObject([{ type: "down", button: "left", x: 0, y: 0 }])
+    expect(decode("\x1b[M#+%")).toMatchObject([{ type: "up", button: "none", x: 10, y: 4 }])
+  })
+
+  it("never leaks mouse bytes as keys", () => {
+    const decoder = createInputDecoder()
+    expect(decoder.feed("a\x1b[<0;12")).toMatchObject([{ kind: "key", key: "a" }])
+    expect(decoder.feed(";7Mb")).toMatchObject([
+      { kind: "mouse", x: 11, y: 6 },
+      { kind: "key", key: "b" },
+    ])
+  })
+
+  it("enables and disables optional tracking modes", () => {
+    expect(enableMouse({ anyEvent: true, pixels: true })).toBe(
+      "\x1b[?1000h\x1b[?1002h\x1b[?1003h\x1b[?1006h\x1b[?1016h",
+    )
+    expect(disableMouse({ anyEvent: true, pixels: true })).toBe(
+      "\x1b[?1016l\x1b[?1006l\x1b[?1003l\x1b[?1002l\x1b[?1000l",
+    )
+  })
+})
+
+describe("bracketed paste", () => {
+  it("decodes a paste as one event", () => {
+    expect(decode("\x1b[200~hello\rworld\x1b[201~")).toEqual([
+      { kind: "paste", text: "hello\rworld", truncated: false },
+    ])
+  })
+
+  it("never decodes pasted escape sequences as keys", () => {
+    expect(decode("a\x1b[200~\x1b[A\x03\x1b[201~b")).toMatchObject([
+      { kind: "key", key: "a" },
+      { kind: "paste", text: "\x1b[A\x03" },
+      { kind: "key", key: "b" },
+    ])
+  })
+
+  it("buffers across chunks, including split markers", () => {
+    const decoder = createInputDecoder()
+    expect(decoder.feed("\x1b[20")).toEqual([])
+    expect(decoder.feed("0~line 1\n")).toEqual([])
+    expect(decoder.feed("line 2\x1b[2")).toEqual([])
+    expect(decoder.flush()).toEqual([])
+    expect(decoder.feed("01~")).toEqual([{ kind: "paste", text: "line 1\nline 2", truncated: false }])
+  })
+
+  it("truncates pastes beyond the size limit", () => {
+    const decoder = createInputDecoder({ maxPasteLength: 4 })
+    expect(decoder.feed("\x1b[200~abc")).toEqual([])
+    expect(decoder.feed("defgh\x1b[201~x")).toMatchObject([
+      { kind: "paste", text: "abcd", truncated: true },
+      { kind: "key", key: "x" },
+    ])
+  })
+
+  it("optionally strips control characters", () => {
+    const decoder = createInputDecoder({ stripPasteControls: true })
+    expect(decoder.feed("\x1b[200~a\r\nb\rc\x1b[31md\x1b[0m\x07\te\x1b[201~")).toEqual([
+      { kind: "paste", text: "a\nb\ncd\te", truncated: false },
+    ])
+  })
+})
+
+describe("readInput", () => {
+  it("yields keys and restores cooked mode when the loop ends", async () => {
+    const { stdin, modes } = fakeStdin()
+    setTimeout(() => stdin.write("ab\x1b[A"), 1)
+    const keys: string[] = []
+    for await (const event of readKeys(stdin)) {
+      keys.push(event.key)
+      if (keys.length === 3) break
+    }
+    expect(keys).toEqual(["a", "b", "ArrowUp"])
+    expect(modes).toEqual([true, false])
+    expect(stdin.listenerCount("data")).toBe(0)
+  })
+
+  it("keeps an already flowing stream flowing after close", async () => {
+    const { stdin } = fakeStdin()
+    const seen: string[] = []
+    stdin.on("data", (chunk: Buffer) => seen.push(chunk.toString()))
+    const reader = readInput(stdin)
+    stdin.write("a")
+    await reader.next()
+    reader.close()
+    expect(stdin.readableFlowing).toBe(true)
+    stdin.write("b")
+    await new Promise((resolve) => setTimeout(resolve, 1))
+    expect(seen).toEqual(["a", "b"])
+  })
+
+  it("emits Escape after the timeout", async () => {
+    const { stdin } = fakeStdin()
+    const reader = readInput(stdin, { escapeTimeout: 5 })
+    stdin.write("\x1b")
+    const { value } = await reader.next()
+    expect(value).toMatchObject({ kind: "key", key: "Escape" })
+    reader.close()
+  })
+
+  it("decodes UTF-8 split across chunks", async () => {
+    const { stdin } = fakeStdin()
+    const reader = readInput(stdin)
+    const bytes = Buffer.from("é")
+    stdin.write(bytes.subarray(0, 1))
+    stdin.write(bytes.subarray(1))
+    expect((await reader.next()).value).toMatchObject({ key: "é" })
+    reader.close()
+  })
+
+  it("stops when the signal aborts", async () => {
+    const { stdin } = fakeStdin()
+    const controller = new AbortController()
+    const reader = readInput(stdin, { signal: controller.signal })
+    const next = reader.next()
+    controller.abort()
+    expect(await next).toEqual({ value: undefined, done: true })
+  })
+})
+
+describe("readKeys", () => {
+  it("drops mouse and paste events", async () => {
+    const { stdin } = fakeStdin()
+    const reader = readKeys(stdin)
+    stdin.write("\x1b[<0;1;1M\x1b[200~q\x1b[201~x")
+    expect((await reader.next()).value).toMatchObject({ kind: "key", key: "x" })
+    reader.close()
+  })
+})
+
+describe("term.keys", () => {
+  it("closes readers and leaves raw mode on dispose", async () => {
+    const { stdin, modes } = fakeStdin()
+    const term = createTerm({ stdin, color: null })
+    const reader = term.keys()
+    const next = reader.next()
+    term[Symbol.dispose]()
+    expect(await next).toEqual({ value: undefined, done: true })
+    expect(modes).toEqual([true, false])
+  })
+
+  it("drops readers left with break", async () => {
+    const { stdin, modes } = fakeStdin()
+    using term = createTerm({ stdin, color: null })
+    const first = term.keys()
+    setTimeout(() => stdin.write("a"), 1)
+    for await (const event of first) {
+      expect(event.key).toBe("a")
+      break
+    }
+    expect(stdin.listenerCount("data")).toBe(0)
+
+    const second = term.keys()
+    stdin.write("b")
+    expect((await second.next()).value).toMatchObject({ key: "b" })
+    expect(await first.next()).toEqual({ value: undefined, done: true })
+    second.close()
+    expect(modes).toEqual([true, false, true, false])
+  })
+
+  it("yields mouse events from term.input", async () => {
+    const { stdin } = fakeStdin()
+    using term = createTerm({ stdin, color: null })
+    const reader = term.input()
+    stdin.write("\x1b[<64;5;6M")
+    expect((await reader.next()).value).toMatchObject({ kind: "mouse", type: "wheel", x: 4, y: 5 })
+  })
+})
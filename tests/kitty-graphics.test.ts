@@ -0,0 +1,109 @@
+/**
+ * Tests for the Kitty graphics protocol
+ */
+
+import { describe, it, expect } from "vitest"
+import { kittyImage, kittyPlace, kittyDelete, kittyPlaceholder, KITTY_PLACEHOLDER_MAX } from "../src/kitty-graphics.js"
+
+/** Decode the APC chunks of a sequence into [control, payload] pairs */
+function graphicsChunks(sequence: string): [string, string][] {
+  return [...sequence.matchAll(/\x1b_G([^;\x1b]*)(?:;([^\x1b]*))?\x1b\\/g)].map((m) => [m[1]!, m[2] ?? ""])
+}
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3])
+
+describe("kittyImage", () => {
+  it("transmits and displays a PNG", () => {
+    const chunks = graphicsChunks(kittyImage(PNG, { cols: 10, rows: 4, zIndex: -1, multiplexer: null }))
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0]![0]).toBe("a=T,f=100,c=10,r=4,z=-1,q=2,m=0")
+    expect(Buffer.from(chunks[0]![1], "base64")).toEqual(Buffer.from(PNG))
+  })
+
+  it("sends raw RGBA and RGB with pixel dimensions", () => {
+    const rgba = new Uint8Array(2 * 3 * 4)
+    expect(graphicsChunks(kittyImage(rgba, { width: 2, height: 3, multiplexer: null }))[0]![0]).toBe(
+      "a=T,f=32,s=2,v=3,q=2,m=0",
+    )
+    const rgb = new Uint8Array(2 * 3 * 3)
+    expect(graphicsChunks(kittyImage(rgb, { width: 2, height: 3, multiplexer: null }))[0]![0]).toBe(
+      "a=T,f=24,s=2,v=3,q=2,m=0",
+    )
+  })
+
+  it("returns empty for raw data that does not match its dimensions", () => {
+    expect(kittyImage(new Uint8Array(10), { width: 2, height: 2, multiplexer: null })).toBe("")
+    expect(kittyImage(new Uint8Array(16), { multiplexer: null })).toBe("")
+  })
+
+  it("splits large payloads into 4096-byte chunks", () => {
+    const data = new Uint8Array(64 * 64 * 4).map((_, i) => i % 251)
+    const chunks = graphicsChunks(kittyImage(data, { width: 64, height: 64, id: 3, multiplexer: null }))
+    expect(chunks.length).toBe(Math.ceil((Math.ceil(data.length / 3) * 4) / 4096))
+    expect(chunks[0]![0]).toBe("a=T,f=32,s=64,v=64,i=3,q=2,m=1")
+    expect(chunks.slice(1, -1).every(([control]) => control === "m=1")).toBe(true)
+    expect(chunks.at(-1)![0]).toBe("m=0")
+    expect(chunks.every(([, payload]) => payload.length <= 4096)).toBe(true)
+    expect(Buffer.from(chunks.map(([, payload]) => payload).join(""), "base64")).toEqual(Buffer.from(data))
+  })
+
+  it("transmits without displaying", () => {
+    const chunks = graphicsChunks(kittyImage(PNG, { id: 7, cols: 2, transmitOnly: true, multiplexer: null }))
+    expect(chunks[0]![0]).toBe("a=t,f=100,i=7,q=2,m=0")
+  })
+
+  it("wraps each chunk for tmux", () => {
+    const sequence = kittyImage(PNG, { multiplexer: "tmux" })
+    expect(sequence.startsWith("\x1bPtmux;\x1b\x1b_G")).toBe(true)
+    expect(sequence.endsWith("\x1b\x1b\\\x1b\\")).toBe(true)
+  })
+
+  it("appends placeholder rows in placeholder mode", () => {
+    const sequence = kittyImage(PNG, { id: 9, cols: 3, rows: 2, placeholder: true, multiplexer: null })
+    expect(graphicsChunks(sequence)[0]![0]).toBe("a=T,f=100,i=9,c=3,r=2,U=1,q=2,m=0")
+    expect(sequence.endsWith(kittyPlaceholder(9, 3, 2).join("\n"))).toBe(true)
+  })
+
+  it("generates ids for placeholder images", () => {
+    const a = graphicsChunks(kittyImage(PNG, { placeholder: true, multiplexer: null }))[0]![0]
+    const b = graphicsChunks(kittyImage(PNG, { placeholder: true, multiplexer: null }))[0]![0]
+    expect(a).toMatch(/,i=\d+,/)
+    expect(a).not.toBe(b)
+  })
+})
+
+describe("kittyPlace", () => {
+  it("places a transmitted image", () => {
+    expect(kittyPlace(7, { cols: 2, rows: 1, placement: 4, zIndex: 1, multiplexer: null })).toBe(
+      "\x1b_Ga=p,i=7,p=4,c=2,r=1,z=1,q=2\x1b\\",
+    )
+  })
+})
+
+describe("kittyDelete", () => {
+  it("deletes all images", () => {
+    expect(kittyDelete({ multiplexer: null })).toBe("\x1b_Ga=d,d=A,q=2\x1b\\")
+  })
+
+  it("deletes one image or placement", () => {
+    expect(kittyDelete({ id: 7, multiplexer: null })).toBe("\x1b_Ga=d,d=I,i=7,q=2\x1b\\")
+    expect(kittyDelete({ id: 7, placement: 2, free: false, multiplexer: null })).toBe("\x1b_Ga=d,d=i,i=7,p=2,q=2\x1b\\")
+  })
+})
+
+describe("kittyPlaceholder", () => {
+  it("encodes row and column as diacritics", () => {
+    const [first, second] = kittyPlaceholder(5, 2, 2)
+    expect(first).toBe("\x1b[38;5;5m\u{10EEEE}\u0305\u0305\u{10EEEE}\u0305\u030d\x1b[39m")
+    expect(second).toBe("\x1b[38;5;5m\u{10EEEE}\u030d\u0305\u{10EEEE}\u030d\u030d\x1b[39m")
+  })
+
+  it("encodes large ids as truecolor", () => {
+    expect(kittyPlaceholder(0x010203, 1, 1)[0]!.startsWith("\x1b[38;2;1;2;3m")).toBe(true)
+  })
+
+  it("addresses the full diacritics table", () => {
+    expect(KITTY_PLACEHOLDER_MAX).toBe(297)
+    expect(kittyPlaceholder(1, 1, 500)).toHaveLength(297)
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Tests for inline live regions
+ */
+
+import { describe, it, expect } from "vitest"
+import { createLiveRegion } from "../src/live-region.js"
+import { createTerm } from "../src/term.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+import { patchConsole } from "../src/patch-console.js"
+import { fakeStdout, sleep } from "./helpers.js"
+
+function setup(cols = 20, rows = 8) {
+  const vt = createVirtualTerminal(cols, rows)
+  const term = createTerm({ stdout: vt.stdout, color: "truecolor", cursor: true, resize: { debounce: 1 } })
+  return { vt, term }
+}
+
+describe("createLiveRegion", () => {
+  it("repaints lines in place", () => {
+    const { vt, term } = setup()
+    term.write("$ deploy\n")
+    using region = createLiveRegion(term)
+    region.update(["step 1", "0%"])
+    region.update(["step 2", "50%"])
+    expect(vt.toString()).toBe("$ deploy\nstep 2\n50%")
+  })
+
+  it("erases leftover rows when the region shrinks", () => {
+    const { vt, term } = setup()
+    using region = createLiveRegion(term)
+    region.update(["a long first line", "b", "c"])
+    region.update("x")
+    expect(vt.toString()).toBe("x")
+  })
+
+  it("prints log lines above the region", () => {
+    const { vt, term } = setup()
+    using region = createLiveRegion(term)
+    region.update(["progress 1/3"])
+    region.log("fetched a")
+    region.update(["progress 2/3"])
+    region.log("fetched b")
+    expect(vt.toString()).toBe("fetched a\nfetched b\nprogress 2/3")
+  })
+
+  it("keeps scrolling logs above a region at the bottom", () => {
+    const { vt, term } = setup(20, 4)
+    using region = createLiveRegion(term)
+    region.update(["status"])
+    for (let i = 1; i <= 6; i++) region.log(`log ${i}`)
+    expect(vt.toString()).toBe("log 4\nlog 5\nlog 6\nstatus")
+  })
+
+  it("counts wrapped rows when erasing", () => {
+    const { vt, term } = setup(10, 8)
+    using region = createLiveRegion(term)
+    region.update(["0123456789abcdef", "x"])
+    expect(vt.toString()).toBe("0123456789\nabcdef\nx")
+    region.update(["done"])
+    expect(vt.toString()).toBe("done")
+  })
+
+  it("measures styled lines by display width", () => {
+    const { vt, term } = setup(10, 8)
+    using region = createLiveRegion(term)
+    region.update([term.bold.red("0123456789"), "y"])
+    region.update(["z"])
+    expect(vt.toString()).toBe("z")
+  })
+
+  it("clears the region", () => {
+    const { vt, term } = setup()
+    term.write("before\n")
+    using region = createLiveRegion(term)
+    region.update(["a", "b"])
+    region.clear()
+    expect(vt.toString()).toBe("before")
+  })
+
+  it("leaves the last content in scrollback on done", () => {
+    const { vt, term } = setup()
+    const region = createLiveRegion(term)
+    region.update(["finished"])
+    region.done()
+    region.update(["ignored"])
+    term.write("next")
+    expect(vt.toString()).toBe("finished\nnext")
+  })
+
+  it("clips to the terminal height", () => {
+    const { vt, term } = setup(20, 3)
+    using region = createLiveRegion(term)
+    region.update(["1", "2", "3", "4", "5"])
+    region.update(["1", "2", "3", "4", "6"])
+    expect(vt.toString()).toBe("1\n2\n3")
+  })
+
+  it("prints captured console entries above the region", async () => {
+    const { vt, term } = setup()
+    const fakeConsole = { log: () => {}, info: () => {}, warn: () => {}, error: () => {}, debug: () => {} }
+    using patched = patchConsole(fakeConsole as unknown as Console, { suppress: true })
+    using region = createLiveRegion(term, { console: patched })
+    region.update(["working"])
+    fakeConsole.log("value: %d", 42)
+    fakeConsole.error("oops")
+    await sleep(0)
+    expect(vt.toString()).toBe("value: 42\noops\nworking")
+  })
+
+  it("repaints on resize", async () => {
+    const { vt, term } = setup()
+    using region = createLiveRegion(term)
+    region.update(["status"])
+    vt.write("\rgarbage")
+    vt.stdout.columns = 15
+    vt.stdout.emit("resize")
+    await sleep(20)
+    expect(vt.toString()).toBe("status")
+  })
+
+  it("appends changed content without cursor control", () => {
+    const { stdout, writes } = fakeStdout({ isTTY: false })
+    const term = createTerm({ stdout, color: null, cursor: false })
+    using region = createLiveRegion(term)
+    region.update(["10%"])
+    region.update(["10%"])
+    region.log("note")
+    region.update(["20%"])
+    expect(writes.join("")).toBe("10%\nnote\n20%\n")
+  })
+})
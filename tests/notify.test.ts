@@ -0,0 +1,154 @@
+/**
+ * Tests for desktop notifications
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import { notify } from "../src/notify.js"
+import { defaultCaps, detectNotificationProtocol } from "../src/detection.js"
+import { createTerm } from "../src/term.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+
+/** Decode the OSC 99 chunks of a sequence into [metadata, payload] pairs */
+function kittyChunks(sequence: string): [string, string][] {
+  return [...sequence.matchAll(/\x1b\]99;([^;]*);([^\x1b]*)\x1b\\/g)].map((m) => [
+    m[1]!,
+    Buffer.from(m[2]!, "base64").toString("utf8"),
+  ])
+}
+
+describe("notify", () => {
+  it("uses OSC 9 with title and body joined", () => {
+    expect(notify({ title: "Build", body: "done", protocol: "osc9", multiplexer: null })).toBe("\x1b]9;Build: done\x07")
+    expect(notify({ body: "done", protocol: "osc9", multiplexer: null })).toBe("\x1b]9;done\x07")
+  })
+
+  it("keeps OSC 9 messages from reading as taskbar progress", () => {
+    expect(notify({ title: "4; tests failed", protocol: "osc9", multiplexer: null })).toBe(
+      "\x1b]9; 4; tests failed\x07",
+    )
+    expect(notify({ title: "4", body: "x", protocol: "osc9", multiplexer: null })).toBe("\x1b]9;4: x\x07")
+  })
+
+  it("uses OSC 777 with a separate title", () => {
+    expect(notify({ title: "Build; CI", body: "a; b", protocol: "osc777", multiplexer: null })).toBe(
+      "\x1b]777;notify;Build, CI;a; b\x07",
+    )
+  })
+
+  it("uses OSC 99 with title and body chunks", () => {
+    const sequence = notify({
+      title: "Build",
+      body: "done ✓",
+      urgency: "critical",
+      id: "b1",
+      protocol: "osc99",
+      multiplexer: null,
+    })
+    expect(kittyChunks(sequence)).toEqual([
+      ["i=b1:d=0:p=title:e=1:u=2", "Build"],
+      ["i=b1:d=1:p=body:e=1", "done ✓"],
+    ])
+  })
+
+  it("chunks long OSC 99 payloads without splitting characters", () => {
+    const body = "é".repeat(1000)
+    const chunks = kittyChunks(notify({ body, id: "long", protocol: "osc99", multiplexer: null }))
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.map(([, text]) => text).join("")).toBe(body)
+    expect(chunks.slice(0, -1).every(([meta]) => meta.includes("d=0"))).toBe(true)
+    expect(chunks.at(-1)![0]).toContain("d=1")
+  })
+
+  it("generates OSC 99 ids when omitted", () => {
+    const a = kittyChunks(notify({ title: "a", protocol: "osc99", multiplexer: null }))[0]![0]
+    const b = kittyChunks(notify({ title: "b", protocol: "osc99", multiplexer: null }))[0]![0]
+    expect(a).toMatch(/^i=chalkx-\d+:/)
+    expect(a).not.toBe(b)
+  })
+
+  it("restricts OSC 99 ids to letters, digits, _ and -", () => {
+    const [[metadata, text]] = kittyChunks(notify({ body: "x", id: "a:b;c d", protocol: "osc99", multiplexer: null }))
+    expect(metadata).toBe("i=a_b_c_d:d=1:p=body:e=1:u=1")
+    expect(text).toBe("x")
+  })
+
+  it("strips control characters", () => {
+    expect(notify({ body: "evil\x07\x1b]0;x", protocol: "osc9", multiplexer: null })).toBe("\x1b]9;evil  ]0;x\x07")
+  })
+
+  it("falls back to BEL or nothing when unsupported", () => {
+    expect(notify({ title: "x", protocol: null })).toBe("\x07")
+    expect(notify({ title: "x", protocol: null, fallback: "none" })).toBe("")
+  })
+
+  it("wraps for tmux passthrough", () => {
+    expect(notify({ body: "hi", protocol: "osc9", multiplexer: "tmux" })).toBe("\x1bPtmux;\x1b\x1b]9;hi\x07\x1b\\")
+  })
+})
+
+describe("term.notify", () => {
+  it("writes the notification to stdout", () => {
+    const vt = createVirtualTerminal(20, 2)
+    const writes: string[] = []
+    const write = vt.stdout.write.bind(vt.stdout)
+    vt.stdout.write = ((chunk: string) => {
+      writes.push(chunk)
+      return write(chunk)
+    }) as typeof vt.stdout.write
+    using term = createTerm({ stdout: vt.stdout, color: null })
+    term.notify({ title: "Done", protocol: "osc777", multiplexer: null })
+    expect(writes).toEqual(["\x1b]777;notify;Done;\x07"])
+    expect(vt.toString()).toBe("")
+  })
+
+  it("picks the protocol from the term's caps", () => {
+    const writes: string[] = []
+    const stdout = createVirtualTerminal(20, 2).stdout
+    stdout.write = ((chunk: string) => writes.push(chunk) > 0) as typeof stdout.write
+    using kitty = createTerm({ stdout, color: null, caps: { program: "kitty", notifications: true } })
+    kitty.notify({ body: "hi", id: "n", multiplexer: null })
+    using muted = createTerm({ stdout, color: null, caps: { program: "kitty", notifications: false } })
+    muted.notify({ body: "hi", multiplexer: null })
+    expect(writes).toEqual(["\x1b]99;i=n:d=1:p=body:e=1:u=1;aGk=\x1b\\", "\x07"])
+  })
+})
+
+describe("detectNotificationProtocol", () => {
+  const saved = { ...process.env }
+
+  afterEach(() => {
+    for (const key of ["TERM", "TERM_PROGRAM", "KITTY_WINDOW_ID"]) {
+      if (saved[key] !== undefined) process.env[key] = saved[key]
+      else delete process.env[key]
+    }
+  })
+
+  function detect(env: Record<string, string>) {
+    delete process.env.TERM
+    delete process.env.TERM_PROGRAM
+    delete process.env.KITTY_WINDOW_ID
+    Object.assign(process.env, env)
+    return detectNotificationProtocol()
+  }
+
+  it("picks the protocol per terminal", () => {
+    expect(detect({ TERM: "xterm-kitty" })).toBe("osc99")
+    expect(detect({ TERM_PROGRAM: "ghostty", TERM: "xterm-ghostty" })).toBe("osc777")
+    expect(detect({ TERM: "foot" })).toBe("osc777")
+    expect(detect({ TERM: "rxvt-unicode-256color" })).toBe("osc777")
+    expect(detect({ TERM_PROGRAM: "iTerm.app", TERM: "xterm-256color" })).toBe("osc9")
+    expect(detect({ TERM_PROGRAM: "WezTerm", TERM: "xterm-256color" })).toBe("osc9")
+    expect(detect({ TERM: "xterm-256color" })).toBeNull()
+  })
+
+  it("prefers caps over the environment", () => {
+    detect({ TERM_PROGRAM: "iTerm.app" })
+    const caps = { ...defaultCaps(), notifications: true }
+    expect(detectNotificationProtocol({ ...caps, program: "WezTerm" })).toBe("osc9")
+    expect(detectNotificationProtocol({ ...caps, program: "ghostty" })).toBe("osc777")
+    expect(detectNotificationProtocol({ ...caps, term: "xterm-kitty" })).toBe("osc99")
+    expect(detectNotificationProtocol({ ...caps, notifications: false, program: "kitty" })).toBeNull()
+    // Unknown programs fall back to the environment
+    expect(detectNotificationProtocol(caps)).toBe("osc9")
+  })
+})
@@ -0,0 +1,295 @@
+/**
+ * Tests for runtime terminal capability probing
+ */
+
+import { describe, it, expect } from "vitest"
+import { defaultCaps } from "../src/detection.js"
+import {
+  parseProbeReplies,
+  mergeProbeResult,
+  probeTerminalCaps,
+  probeTerminal,
+  queryTerminal,
+  queryTerminalColors,
+  parseColorReplies,
+  parseOscColor,
+  decrqmQuery,
+} from "../src/probe.js"
+import { isDarkColor, relativeLuminance } from "../src/color.js"
+import { createTermAsync } from "../src/term.js"
+import { fakeTerminal } from "./helpers.js"
+
+describe("terminal probing", () => {
+  describe("parseProbeReplies", () => {
+    it("parses DA1 attributes", () => {
+      expect(parseProbeReplies("\x1b[?62;4;22c").da1).toEqual([62, 4, 22])
+    })
+
+    it("parses XTVERSION with ST and BEL terminators", () => {
+      expect(parseProbeReplies("\x1bP>|kitty(0.35.2)\x1b\\").version).toBe("kitty(0.35.2)")
+      expect(parseProbeReplies("\x1bP>|tmux 3.4\x07").version).toBe("tmux 3.4")
+    })
+
+    it("parses DECRQM replies", () => {
+      const result = parseProbeReplies("\x1b[?2026;2$y\x1b[?2004;1$y\x1b[?1006;0$y")
+      expect(result.modes).toEqual({ 2026: "reset", 2004: "set", 1006: "unrecognized" })
+    })
+
+    it("parses Kitty keyboard flags", () => {
+      expect(parseProbeReplies("\x1b[?1u").kittyKeyboard).toBe(1)
+      expect(parseProbeReplies("\x1b[?0u").kittyKeyboard).toBe(0)
+    })
+
+    it("returns nulls for an empty buffer", () => {
+      expect(parseProbeReplies("")).toEqual({ da1: null, version: null, modes: {}, kittyKeyboard: null })
+    })
+  })
+
+  describe("mergeProbeResult", () => {
+    const base = { ...defaultCaps(), syncOutput: false, mouse: true, kittyKeyboard: false }
+
+    it("enables features the terminal reports", () => {
+      const caps = mergeProbeResult(parseProbeReplies("\x1b[?2026;2$y\x1b[?1006;2$y\x1b[?0u\x1b[?62c"), base)
+      expect(caps.syncOutput).toBe(true)
+      expect(caps.mouse).toBe(true)
+      expect(caps.kittyKeyboard).toBe(true)
+    })
+
+    it("treats unanswered queries as unsupported once DA1 arrives", () => {
+      const caps = mergeProbeResult(parseProbeReplies("\x1b[?62c"), { ...base, syncOutput: true })
+      expect(caps.syncOutput).toBe(false)
+      expect(caps.mouse).toBe(false)
+      expect(caps.kittyKeyboard).toBe(false)
+    })
+
+    it("keeps heuristics when DA1 timed out", () => {
+      const caps = mergeProbeResult(parseProbeReplies(""), { ...base, syncOutput: true })
+      expect(caps).toEqual({ ...base, syncOutput: true })
+    })
+
+    it("treats permanently reset modes as unsupported", () => {
+      const caps = mergeProbeResult(parseProbeReplies("\x1b[?2026;4$y\x1b[?62c"), { ...base, syncOutput: true })
+      expect(caps.syncOutput).toBe(false)
+    })
+
+    it("detects sixel from DA1 attribute 4", () => {
+      expect(mergeProbeResult(parseProbeReplies("\x1b[?62;4c"), base).sixel).toBe(true)
+      expect(mergeProbeResult(parseProbeReplies("\x1b[?62c"), { ...base, sixel: true }).sixel).toBe(false)
+    })
+
+    it("identifies the terminal from XTVERSION", () => {
+      const caps = mergeProbeResult(parseProbeReplies("\x1bP>|kitty(0.35.2)\x1b\\\x1b[?62c"), {
+        ...base,
+        program: "",
+        kittyGraphics: false,
+        hyperlinks: false,
+      })
+      expect(caps.program).toBe("kitty")
+      expect(caps.kittyGraphics).toBe(true)
+      expect(caps.hyperlinks).toBe(true)
+    })
+
+    it("detects OSC 1337 images from XTVERSION", () => {
+      const caps = mergeProbeResult(parseProbeReplies("\x1bP>|WezTerm 20240203\x1b\\\x1b[?62;4c"), {
+        ...base,
+        itermImages: false,
+      })
+      expect(caps.itermImages).toBe(true)
+      expect(caps.sixel).toBe(true)
+    })
+
+    it("does not overwrite a program name from the environment", () => {
+      const caps = mergeProbeResult(parseProbeReplies("\x1bP>|tmux 3.4\x1b\\\x1b[?62c"), {
+        ...base,
+        program: "iTerm.app",
+      })
+      expect(caps.program).toBe("iTerm.app")
+    })
+  })
+
+  describe("queryTerminal", () => {
+    it("resolves when the reply is complete", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "\x1b[?62c")
+      const reply = await queryTerminal(stdin, stdout, "\x1b[c", (buf) => buf.endsWith("c"), { timeout: 1000 })
+      expect(writes).toEqual(["\x1b[c"])
+      expect(reply).toBe("\x1b[?62c")
+    })
+
+    it("resolves with partial input on timeout", async () => {
+      const { stdin, stdout } = fakeTerminal(() => "\x1b[?6")
+      const reply = await queryTerminal(stdin, stdout, "\x1b[c", () => false, { timeout: 20 })
+      expect(reply).toBe("\x1b[?6")
+    })
+
+    it("detaches its data listener when done", async () => {
+      const { stdin, stdout } = fakeTerminal(() => "\x1b[?62c")
+      await queryTerminal(stdin, stdout, "\x1b[c", () => true, { timeout: 1000 })
+      expect(stdin.listenerCount("data")).toBe(0)
+    })
+  })
+
+  describe("probeTerminalCaps", () => {
+    it("sends every query with DA1 last", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "\x1b[?62c")
+      await probeTerminalCaps(stdin, stdout, { timeout: 1000 })
+      const query = writes.join("")
+      expect(query).toContain("\x1b[>0q")
+      expect(query).toContain(decrqmQuery(2026))
+      expect(query).toContain(decrqmQuery(2004))
+      expect(query).toContain(decrqmQuery(1006))
+      expect(query).toContain("\x1b[?u")
+      expect(query.endsWith("\x1b[c")).toBe(true)
+    })
+
+    it("merges replies over heuristics", async () => {
+      const { stdin, stdout } = fakeTerminal(() => "\x1b[?2026;2$y\x1b[?1u\x1b[?62;4c")
+      const caps = await probeTerminalCaps(stdin, stdout, { timeout: 1000 })
+      expect(caps.syncOutput).toBe(true)
+      expect(caps.kittyKeyboard).toBe(true)
+      expect(caps.sixel).toBe(true)
+    })
+
+    it("does not query when stdout is not a TTY", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "\x1b[?62c")
+      stdout.isTTY = false
+      await probeTerminalCaps(stdin, stdout)
+      expect(writes).toEqual([])
+    })
+  })
+
+  describe("parseOscColor", () => {
+    it("parses 16-bit rgb: specs", () => {
+      expect(parseOscColor("rgb:1e1e/1e1e/2e2e")).toEqual([30, 30, 46])
+      expect(parseOscColor("rgb:ffff/0000/8080")).toEqual([255, 0, 128])
+    })
+
+    it("scales short channel widths", () => {
+      expect(parseOscColor("rgb:ff/80/00")).toEqual([255, 128, 0])
+      expect(parseOscColor("rgb:f/0/f")).toEqual([255, 0, 255])
+    })
+
+    it("accepts rgba: and #rrggbb", () => {
+      expect(parseOscColor("rgba:ffff/ffff/ffff/ffff")).toEqual([255, 255, 255])
+      expect(parseOscColor("#fdf6e3")).toEqual([253, 246, 227])
+    })
+
+    it("rejects unknown formats", () => {
+      expect(parseOscColor("red")).toBeNull()
+      expect(parseOscColor("rgb:zz/00/00")).toBeNull()
+    })
+  })
+
+  describe("parseColorReplies", () => {
+    it("parses OSC 10/11/4 replies with ST and BEL", () => {
+      const colors = parseColorReplies(
+        "\x1b]10;rgb:cdcd/d6d6/f4f4\x1b\\\x1b]11;rgb:1e1e/1e1e/2e2e\x07\x1b]4;1;rgb:ffff/0000/0000\x1b\\",
+      )
+      expect(colors.fg).toEqual([205, 214, 244])
+      expect(colors.bg).toEqual([30, 30, 46])
+      expect(colors.palette).toEqual({ 1: [255, 0, 0] })
+      expect(colors.dark).toBe(true)
+    })
+
+    it("reports a light background", () => {
+      expect(parseColorReplies("\x1b]11;rgb:fdfd/f6f6/e3e3\x1b\\").dark).toBe(false)
+    })
+
+    it("leaves dark null when the background is unknown", () => {
+      expect(parseColorReplies("\x1b[?62c")).toEqual({ fg: null, bg: null, palette: {}, dark: null })
+    })
+  })
+
+  describe("luminance", () => {
+    it("spans 0 to 1", () => {
+      expect(relativeLuminance([0, 0, 0])).toBe(0)
+      expect(relativeLuminance([255, 255, 255])).toBeCloseTo(1)
+    })
+
+    it("classifies dark and light backgrounds", () => {
+      expect(isDarkColor([0, 43, 54])).toBe(true) // Solarized Dark
+      expect(isDarkColor([253, 246, 227])).toBe(false) // Solarized Light
+      expect(isDarkColor([255, 255, 255])).toBe(false)
+    })
+  })
+
+  describe("queryTerminalColors", () => {
+    it("sends OSC 10/11/4 followed by DA1", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "\x1b[?62c")
+      await queryTerminalColors(stdin, stdout, { palette: [0, 15], timeout: 1000 })
+      expect(writes.join("")).toBe("\x1b]10;?\x1b\\\x1b]11;?\x1b\\\x1b]4;0;?\x1b\\\x1b]4;15;?\x1b\\\x1b[c")
+    })
+
+    it("returns the reported colors", async () => {
+      const { stdin, stdout } = fakeTerminal(() => "\x1b]11;rgb:ffff/ffff/ffff\x1b\\\x1b[?62c")
+      const colors = await queryTerminalColors(stdin, stdout, { timeout: 1000 })
+      expect(colors.bg).toEqual([255, 255, 255])
+      expect(colors.dark).toBe(false)
+    })
+  })
+
+  describe("probeTerminal", () => {
+    it("sends caps and color queries in one write with a single DA1", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "\x1b]11;rgb:0000/0000/0000\x1b\\\x1b[?2026;2$y\x1b[?62c")
+      const { caps, colors } = await probeTerminal(stdin, stdout, { timeout: 1000 })
+      expect(writes).toHaveLength(1)
+      expect(writes[0]!.split("\x1b[c")).toHaveLength(2)
+      expect(writes[0]).toContain("\x1b]11;?\x1b\\")
+      expect(caps.syncOutput).toBe(true)
+      expect(colors.dark).toBe(true)
+    })
+
+    it("takes darkBackground from the reported background over env guesses", async () => {
+      const saved = { TERM_PROGRAM: process.env.TERM_PROGRAM, COLORFGBG: process.env.COLORFGBG }
+      process.env.TERM_PROGRAM = "Apple_Terminal"
+      process.env.COLORFGBG = "0;15"
+      try {
+        const { stdin, stdout } = fakeTerminal(() => "\x1b]11;rgb:0000/0000/0000\x1b\\\x1b[?62c")
+        const { caps } = await probeTerminal(stdin, stdout, { timeout: 1000 })
+        expect(caps.darkBackground).toBe(true)
+      } finally {
+        for (const [key, value] of Object.entries(saved)) {
+          if (value === undefined) delete process.env[key]
+          else process.env[key] = value
+        }
+      }
+    })
+
+    it("skips color queries with colors: false", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "\x1b[?62c")
+      const { colors } = await probeTerminal(stdin, stdout, { timeout: 1000, colors: false })
+      expect(writes[0]).not.toContain("\x1b]10;?")
+      expect(colors).toEqual({ fg: null, bg: null, palette: {}, dark: null })
+    })
+  })
+
+  describe("createTermAsync", () => {
+    it("probes once, waiting a single timeout on a silent terminal", async () => {
+      const { stdin, stdout, writes } = fakeTerminal(() => "")
+      using term = await createTermAsync({ stdin, stdout, probeTimeout: 20 })
+      expect(writes).toHaveLength(1)
+      expect(term.colors?.bg).toBeNull()
+    })
+
+    it("uses probed caps", async () => {
+      const { stdin, stdout } = fakeTerminal(() => "\x1b[?2026;1$y\x1b[?62c")
+      using term = await createTermAsync({ stdin, stdout, probeTimeout: 1000 })
+      expect(term.caps?.syncOutput).toBe(true)
+      expect(term.caps?.kittyKeyboard).toBe(false)
+    })
+
+    it("sets darkBackground from the queried background", async () => {
+      const { stdin, stdout } = fakeTerminal((query) =>
+        query.includes("\x1b]11;?") ? "\x1b]11;rgb:ffff/ffff/ffff\x1b\\\x1b[?62c" : "\x1b[?62c",
+      )
+      using term = await createTermAsync({ stdin, stdout, probeTimeout: 1000 })
+      expect(term.colors?.bg).toEqual([255, 255, 255])
+      expect(term.caps?.darkBackground).toBe(false)
+    })
+
+    it("lets explicit caps override probed values", async () => {
+      const { stdin, stdout } = fakeTerminal(() => "\x1b[?2026;1$y\x1b[?62c")
+      using term = await createTermAsync({ stdin, stdout, probeTimeout: 1000, caps: { syncOutput: false } })
+      expect(term.caps?.syncOutput).toBe(false)
+    })
+  })
+})
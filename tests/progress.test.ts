@@ -0,0 +1,184 @@
+/**
+ * Tests for progress bars and spinners
+ */
+
+import { describe, it, expect } from "vitest"
+import { createTerm } from "../src/term.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+import { clearTaskbarProgress, setTaskbarProgress } from "../src/ansi.js"
+import { fakeStdout, sleep } from "./helpers.js"
+
+/** Term on a virtual screen, recording writes */
+function tty(options: { unicode?: boolean; progress?: boolean } = {}) {
+  const vt = createVirtualTerminal(60, 10)
+  const writes: string[] = []
+  const write = vt.stdout.write.bind(vt.stdout)
+  vt.stdout.write = ((chunk: string) => {
+    writes.push(chunk)
+    return write(chunk)
+  }) as typeof vt.stdout.write
+  const term = createTerm({
+    stdout: vt.stdout,
+    color: "truecolor",
+    cursor: true,
+    unicode: options.unicode ?? true,
+    caps: { progress: options.progress ?? false },
+  })
+  return { vt, term, writes }
+}
+
+/** Term on a pipe: no cursor control, no colors */
+function pipe() {
+  const { stdout, writes } = fakeStdout({ isTTY: false })
+  const term = createTerm({ stdout, color: null, cursor: false, unicode: true })
+  return { term, output: () => writes.join("") }
+}
+
+describe("term.progress", () => {
+  it("draws a unicode bar in place", () => {
+    const { vt, term } = tty()
+    using bar = term.progress({ total: 10, width: 10, label: "files" })
+    bar.update(5)
+    expect(vt.toString()).toBe("█████░░░░░  50% files")
+    bar.increment(2, "more files")
+    expect(vt.toString()).toBe("███████░░░  70% more files")
+    expect(bar.value).toBe(7)
+  })
+
+  it("resolves partial cells in eighths", () => {
+    const { vt, term } = tty()
+    using bar = term.progress({ total: 80, width: 10 })
+    bar.update(12)
+    expect(vt.line(0)).toBe("█▌░░░░░░░░  15%")
+  })
+
+  it("falls back to ASCII without unicode", () => {
+    const { vt, term } = tty({ unicode: false })
+    using bar = term.progress({ total: 4, width: 8 })
+    bar.update(1)
+    expect(vt.line(0)).toBe("[##------]  25%")
+  })
+
+  it("colors the ASCII bar too", () => {
+    const { vt, term } = tty({ unicode: false })
+    using bar = term.progress({ total: 2, width: 2 })
+    bar.update(1)
+    expect(vt.line(0)).toBe("[#-]  50%")
+    expect(vt.cell(0, 0).style.fg).toBeNull()
+    expect(vt.cell(0, 1).style.fg).not.toBeNull()
+    expect(vt.cell(0, 2).style.dim).toBe(true)
+  })
+
+  it("colors the bar from the theme", () => {
+    const { vt, term } = tty()
+    using bar = term.progress({ total: 2, width: 2 })
+    bar.update(1)
+    expect(vt.cell(0, 0).style.fg).not.toBeNull()
+    expect(vt.cell(0, 1).style.dim).toBe(true)
+  })
+
+  it("fills custom formats", () => {
+    const { vt, term } = tty()
+    using bar = term.progress({ total: 200, width: 4, format: "{label}: {value}/{total} {bar}" })
+    bar.update(50, "bytes")
+    expect(vt.line(0)).toBe("bytes: 50/200 █░░░")
+  })
+
+  it("keeps the percent column and label spacing fixed", () => {
+    const { term, output } = pipe()
+    const bar = term.progress({ total: 200, label: "dl  now", interval: 0 })
+    bar.update(10)
+    bar.update(200)
+    bar.done()
+    expect(output()).toBe(["  0% dl  now", "  5% dl  now", "100% dl  now"].join("\n") + "\n")
+  })
+
+  it("drops the gap left by an empty placeholder", () => {
+    const { vt, term } = tty()
+    using bar = term.progress({ total: 4, width: 4, format: "{label} {bar} [{value}]" })
+    bar.update(2)
+    expect(vt.line(0)).toBe("██░░ [2]")
+  })
+
+  it("leaves the final line and continues below on done", () => {
+    const { vt, term } = tty()
+    const bar = term.progress({ total: 1, width: 4 })
+    bar.update(1)
+    bar.done()
+    term.write("next")
+    expect(vt.toString()).toBe("████ 100%\nnext")
+  })
+
+  it("reports taskbar progress when supported", () => {
+    const { term, writes } = tty({ progress: true })
+    const bar = term.progress({ total: 4 })
+    bar.update(1)
+    bar.update(1)
+    bar.done()
+    const osc = writes.filter((w) => w.startsWith("\x1b]9;4"))
+    expect(osc).toEqual([setTaskbarProgress(0), setTaskbarProgress(25), clearTaskbarProgress()])
+  })
+
+  it("prints plain percentage lines without cursor control", () => {
+    const { term, output } = pipe()
+    const bar = term.progress({ total: 4, label: "sync", interval: 0 })
+    bar.update(1)
+    bar.update(1)
+    bar.update(2)
+    bar.done()
+    expect(output()).toBe(["  0% sync", " 25% sync", " 50% sync"].join("\n") + "\n")
+  })
+
+  it("throttles plain lines to the interval but prints the final state", () => {
+    const { term, output } = pipe()
+    const bar = term.progress({ total: 100, interval: 60_000 })
+    for (let i = 1; i <= 100; i++) bar.update(i)
+    bar.done()
+    expect(output()).toBe("  0%\n100%\n")
+  })
+})
+
+describe("term.spinner", () => {
+  it("animates frames in place", async () => {
+    const { vt, term } = tty()
+    const spinner = term.spinner({ frames: ["a", "b"], text: "working", interval: 5 })
+    expect(vt.line(0)).toBe("a working")
+    await sleep(30)
+    expect(["a working", "b working"]).toContain(vt.line(0))
+    spinner.update("still working")
+    expect(vt.line(0)).toMatch(/^[ab] still working$/)
+    spinner.done("finished")
+    expect(vt.toString()).toBe("finished")
+  })
+
+  it("accepts frames directly and erases the line when done without text", () => {
+    const { vt, term } = tty()
+    term.write("before\n")
+    const spinner = term.spinner(["*"])
+    expect(vt.toString()).toBe("before\n*")
+    spinner.done()
+    expect(vt.toString()).toBe("before")
+  })
+
+  it("uses ASCII frames without unicode", () => {
+    const { vt, term } = tty({ unicode: false })
+    using _spinner = term.spinner({ text: "x" })
+    expect(vt.line(0)).toBe("- x")
+  })
+
+  it("shows indeterminate taskbar progress when supported", () => {
+    const { term, writes } = tty({ progress: true })
+    term.spinner().done()
+    const osc = writes.filter((w) => w.startsWith("\x1b]9;4"))
+    expect(osc).toEqual([setTaskbarProgress(0, "indeterminate"), clearTaskbarProgress()])
+  })
+
+  it("prints text changes as lines without cursor control", () => {
+    const { term, output } = pipe()
+    const spinner = term.spinner({ text: "resolving" })
+    spinner.update("resolving")
+    spinner.update("fetching")
+    spinner.done("done")
+    expect(output()).toBe("resolving\nfetching\ndone\n")
+  })
+})
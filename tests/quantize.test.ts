@@ -0,0 +1,126 @@
+/**
+ * Tests for color quantization
+ */
+
+import { describe, it, expect } from "vitest"
+import { ansi256ToRgb, rgbToAnsi256, rgbToAnsi16, quantizeColor, colorDistance, rgbToOklab } from "../src/quantize.js"
+import { buildUnderlineColorCode } from "../src/constants.js"
+import { formatUnderline } from "../src/underline.js"
+import { createTerm } from "../src/term.js"
+
+describe("color quantization", () => {
+  describe("ansi256ToRgb", () => {
+    it("maps the ANSI range to xterm defaults", () => {
+      expect(ansi256ToRgb(0)).toEqual([0, 0, 0])
+      expect(ansi256ToRgb(9)).toEqual([255, 0, 0])
+      expect(ansi256ToRgb(15)).toEqual([255, 255, 255])
+    })
+
+    it("maps the color cube", () => {
+      expect(ansi256ToRgb(16)).toEqual([0, 0, 0])
+      expect(ansi256ToRgb(196)).toEqual([255, 0, 0])
+      expect(ansi256ToRgb(208)).toEqual([255, 135, 0])
+      expect(ansi256ToRgb(231)).toEqual([255, 255, 255])
+    })
+
+    it("maps the grayscale ramp", () => {
+      expect(ansi256ToRgb(232)).toEqual([8, 8, 8])
+      expect(ansi256ToRgb(255)).toEqual([238, 238, 238])
+    })
+  })
+
+  describe("OKLab", () => {
+    it("puts white at L=1 with no chroma", () => {
+      const [L, a, b] = rgbToOklab([255, 255, 255])
+      expect(L).toBeCloseTo(1, 3)
+      expect(a).toBeCloseTo(0, 3)
+      expect(b).toBeCloseTo(0, 3)
+    })
+
+    it("measures identical colors as distance 0", () => {
+      expect(colorDistance([12, 34, 56], [12, 34, 56])).toBe(0)
+    })
+  })
+
+  describe("rgbToAnsi256", () => {
+    it("returns exact palette matches", () => {
+      expect(rgbToAnsi256([255, 0, 0])).toBe(196)
+      expect(rgbToAnsi256([255, 135, 0])).toBe(208)
+      expect(rgbToAnsi256([128, 128, 128])).toBe(244)
+    })
+
+    it("never returns theme-dependent ANSI entries", () => {
+      expect(rgbToAnsi256([0, 0, 0])).toBeGreaterThanOrEqual(16)
+      expect(rgbToAnsi256([255, 255, 255])).toBeGreaterThanOrEqual(16)
+      expect(rgbToAnsi256([205, 0, 0])).toBeGreaterThanOrEqual(16)
+    })
+
+    it("keeps dark near-grays on the grayscale ramp", () => {
+      expect(rgbToAnsi256([30, 30, 46])).toBe(234)
+    })
+  })
+
+  describe("rgbToAnsi16", () => {
+    it("distinguishes normal and bright colors", () => {
+      expect(rgbToAnsi16([255, 0, 0])).toBe(9)
+      expect(rgbToAnsi16([180, 0, 0])).toBe(1)
+    })
+
+    it("maps grays to black, gray and white", () => {
+      expect(rgbToAnsi16([10, 10, 10])).toBe(0)
+      expect(rgbToAnsi16([120, 120, 120])).toBe(8)
+      expect(rgbToAnsi16([250, 250, 250])).toBe(15)
+    })
+  })
+
+  describe("quantizeColor", () => {
+    it("downsamples per color level", () => {
+      expect(quantizeColor([255, 128, 0], "truecolor")).toEqual([255, 128, 0])
+      expect(quantizeColor([255, 128, 0], "256")).toBe(208)
+      expect(quantizeColor([255, 0, 0], "basic")).toBe(9)
+    })
+  })
+
+  describe("underline color", () => {
+    it("buildUnderlineColorCode emits indexed SGR 58 below truecolor", () => {
+      expect(buildUnderlineColorCode(255, 0, 0)).toBe("\x1b[58:2::255:0:0m")
+      expect(buildUnderlineColorCode(255, 0, 0, "256")).toBe("\x1b[58:5:196m")
+      expect(buildUnderlineColorCode(255, 0, 0, "basic")).toBe("\x1b[58:5:9m")
+    })
+
+    it("formatUnderline maps palette indices to 16 colors at basic", () => {
+      const caps = { underlineStyles: true, underlineColor: true }
+      expect(formatUnderline("x", { color: 196 }, caps, "basic")).toBe("\x1b[4m\x1b[58:5:9mx\x1b[59m\x1b[24m")
+      expect(formatUnderline("x", { color: 196 }, caps, "256")).toBe("\x1b[4m\x1b[58:5:196mx\x1b[59m\x1b[24m")
+    })
+  })
+
+  describe("term style chain", () => {
+    it("passes RGB through at truecolor", () => {
+      using t = createTerm({ color: "truecolor" })
+      expect(t.rgb(255, 128, 0)("x")).toBe("\x1b[38;2;255;128;0mx\x1b[39m")
+    })
+
+    it("uses perceptual 256-color matches", () => {
+      using t = createTerm({ color: "256" })
+      expect(t.rgb(255, 135, 0)("x")).toBe("\x1b[38;5;208mx\x1b[39m")
+      expect(t.hex("#1e1e2e")("x")).toBe("\x1b[38;5;234mx\x1b[39m")
+      expect(t.bgColor("rgb(255, 0, 0)")("x")).toBe("\x1b[48;5;196mx\x1b[49m")
+    })
+
+    it("uses the 16 ANSI colors at basic", () => {
+      using t = createTerm({ color: "basic" })
+      expect(t.rgb(255, 0, 0)("x")).toBe("\x1b[91mx\x1b[39m")
+      expect(t.bgHex("b40000")("x")).toBe("\x1b[41mx\x1b[49m")
+      expect(t.ansi256(196)("x")).toBe("\x1b[91mx\x1b[39m")
+      expect(t.ansi256(1)("x")).toBe("\x1b[31mx\x1b[39m")
+    })
+
+    it("quantizes underline color to the term level", () => {
+      using t = createTerm({ color: "256", caps: { underlineStyles: true, underlineColor: true } })
+      expect(t.style({ underlineStyle: "curly", underlineColor: "#ff0000" })("x")).toBe(
+        "\x1b[4:3m\x1b[58:5:196mx\x1b[59m\x1b[4:0m",
+      )
+    })
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Tests for the text raster
+ */
+
+import { describe, it, expect } from "vitest"
+import { rasterize, resampleRgba } from "../src/raster.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+import { displayLength, stripAnsi } from "../src/utils.js"
+import { image, termWith } from "./helpers.js"
+
+const solid = (width: number, height: number, color: [number, number, number, number]) =>
+  image(width, height, () => color)
+
+const WHITE = [255, 255, 255, 255] as [number, number, number, number]
+const BLACK = [0, 0, 0, 255] as [number, number, number, number]
+const CLEAR = [0, 0, 0, 0] as [number, number, number, number]
+
+describe("rasterize", () => {
+  it("renders every line at exactly the requested width", () => {
+    const rgba = image(13, 7, (x, y) => [x * 19, y * 36, 90, 255])
+    for (const color of ["truecolor", "256", null] as const) {
+      const term = termWith({ color })
+      for (const mode of ["halfblock", "braille"] as const) {
+        for (const cols of [1, 5, 13, 30]) {
+          const lines = rasterize(term, rgba, 13, 7, { cols, mode })
+          expect(lines.length).toBeGreaterThan(0)
+          for (const line of lines) expect(displayLength(line)).toBe(cols)
+        }
+      }
+    }
+  })
+
+  it("colors two pixels per cell with half blocks", () => {
+    const vt = createVirtualTerminal(40, 10)
+    const term = termWith({ color: "truecolor" })
+    const rgba = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 0, 255, 0, 255])
+    vt.write(rasterize(term, rgba, 2, 2).join("\n"))
+    expect(vt.line(0)).toBe("▀█")
+    expect(vt.cell(0, 0).style.fg).toEqual([255, 0, 0])
+    expect(vt.cell(0, 0).style.bg).toEqual([0, 0, 255])
+    expect(vt.cell(0, 1).style.fg).toEqual([0, 255, 0])
+    expect(vt.cell(0, 1).style.bg).toBeNull()
+  })
+
+  it("uses lower half blocks and blanks for transparent pixels", () => {
+    const term = termWith({ color: "truecolor" })
+    const rgba = image(2, 2, (x, y) => (y === 1 && x === 0 ? WHITE : CLEAR))
+    expect(rasterize(term, rgba, 2, 2).map(stripAnsi)).toEqual(["▄ "])
+  })
+
+  it("follows the color level", () => {
+    const rgba = image(4, 4, (x) => [x * 60, 100, 200, 255])
+    const truecolor = rasterize(termWith({ color: "truecolor" }), rgba, 4, 4).join("")
+    const indexed = rasterize(termWith({ color: "256" }), rgba, 4, 4).join("")
+    expect(truecolor).toContain("38;2;")
+    expect(indexed).toContain("38;5;")
+    expect(indexed).not.toContain("38;2;")
+  })
+
+  it("styles runs of equal colors once", () => {
+    const term = termWith({ color: "truecolor" })
+    const [line] = rasterize(term, solid(10, 2, [40, 50, 60, 255]), 10, 2)
+    expect(line!.match(/\x1b\[38;2;/g)).toHaveLength(1)
+    expect(stripAnsi(line!)).toBe("█".repeat(10))
+  })
+
+  it("thresholds half blocks without color", () => {
+    const term = termWith()
+    // Columns: both lit, top lit, bottom lit, neither
+    const lit = [
+      [true, true],
+      [true, false],
+      [false, true],
+      [false, false],
+    ]
+    const rgba = image(4, 2, (x, y) => (lit[x]![y] ? WHITE : BLACK))
+    expect(rasterize(term, rgba, 4, 2)).toEqual(["█▀▄ "])
+  })
+
+  it("draws braille dots by luminance", () => {
+    const term = termWith({ color: "truecolor" })
+    const leftColumn = image(2, 4, (x) => (x === 0 ? WHITE : BLACK))
+    const braille = (rgba: Uint8Array, invert = false) => rasterize(term, rgba, 2, 4, { mode: "braille", invert })
+
+    expect(braille(solid(2, 4, WHITE))).toEqual(["⣿"])
+    expect(braille(leftColumn)).toEqual(["⡇"])
+    expect(braille(leftColumn, true)).toEqual(["⢸"])
+    expect(braille(solid(2, 4, BLACK))).toEqual([" "])
+  })
+
+  it("colors braille lines", () => {
+    const term = termWith({ color: "truecolor" })
+    const [line] = rasterize(term, solid(2, 4, WHITE), 2, 4, { mode: "braille", color: "#ff0000" })
+    expect(line).toBe("\x1b[38;2;255;0;0m⣿\x1b[39m")
+  })
+
+  it("falls back to an ASCII ramp without unicode", () => {
+    const term = termWith({ unicode: false })
+    const rgba = image(4, 2, (x) => [x * 85, x * 85, x * 85, 255])
+    expect(rasterize(term, rgba, 4, 2)).toEqual([" -*@"])
+    expect(rasterize(term, solid(1, 2, CLEAR), 1, 2)).toEqual([" "])
+  })
+
+  it("keeps the aspect ratio unless rows are given", () => {
+    const term = termWith({ color: "truecolor" })
+    const rgba = image(20, 10, () => WHITE)
+    expect(rasterize(term, rgba, 20, 10, { cols: 10 })).toHaveLength(3)
+    expect(rasterize(term, rgba, 20, 10, { cols: 10, rows: 2 })).toHaveLength(2)
+    expect(rasterize(term, rgba, 20, 10, { cols: 10, mode: "braille" })).toHaveLength(3)
+  })
+
+  it("returns no lines for missing pixel data", () => {
+    expect(rasterize(termWith({ color: "truecolor" }), new Uint8Array(4), 2, 2)).toEqual([])
+  })
+})
+
+describe("resampleRgba", () => {
+  it("averages pixels when downscaling", () => {
+    const rgba = new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255])
+    expect([...resampleRgba(rgba, 2, 1, 1, 1)]).toEqual([128, 128, 128, 255])
+  })
+
+  it("weights colors by alpha", () => {
+    const rgba = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 0])
+    expect([...resampleRgba(rgba, 2, 1, 1, 1)]).toEqual([255, 0, 0, 128])
+  })
+
+  it("repeats pixels when upscaling", () => {
+    const rgba = new Uint8Array([1, 2, 3, 255])
+    expect([...resampleRgba(rgba, 1, 1, 2, 1)]).toEqual([1, 2, 3, 255, 1, 2, 3, 255])
+  })
+})
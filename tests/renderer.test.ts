@@ -0,0 +1,154 @@
+/**
+ * Tests for the differential frame renderer
+ */
+
+import { describe, it, expect } from "vitest"
+import { createRenderer } from "../src/renderer.js"
+import { createTerm } from "../src/term.js"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+import { disableSyncUpdate, enableSyncUpdate } from "../src/ansi.js"
+import { hyperlink } from "../src/hyperlink.js"
+
+/** Term on a virtual screen, recording each write */
+function setup(cols = 20, rows = 5, syncOutput = false) {
+  const vt = createVirtualTerminal(cols, rows)
+  const writes: string[] = []
+  const write = vt.stdout.write.bind(vt.stdout)
+  vt.stdout.write = ((chunk: string) => {
+    writes.push(chunk)
+    return write(chunk)
+  }) as typeof vt.stdout.write
+  const term = createTerm({ stdout: vt.stdout, color: "truecolor", caps: { syncOutput } })
+  return { vt, term, writes }
+}
+
+describe("createRenderer", () => {
+  it("paints the first frame in full", () => {
+    const { vt, term } = setup()
+    const renderer = createRenderer(term)
+    renderer.render(["hello", "", term.bold.red("world")])
+    expect(vt.toString()).toBe("hello\n\nworld")
+    expect(vt.toStyledSnapshot()).toBe("hello\n\n[bold fg=red]world[/]")
+  })
+
+  it("writes only changed cells", () => {
+    const { vt, term, writes } = setup()
+    const renderer = createRenderer(term)
+    renderer.render(["count: 10", "static line"])
+    writes.length = 0
+
+    renderer.render(["count: 11", "static line"])
+    expect(vt.toString()).toBe("count: 11\nstatic line")
+    expect(writes).toEqual(["\x1b[1;9H1"])
+  })
+
+  it("writes nothing for an unchanged frame", () => {
+    const { term, writes } = setup()
+    const renderer = createRenderer(term)
+    renderer.render(["same"])
+    writes.length = 0
+    renderer.render(["same"])
+    expect(writes).toEqual([])
+  })
+
+  it("uses relative movement when shorter", () => {
+    const { vt, term, writes } = setup(40, 5)
+    const renderer = createRenderer(term)
+    renderer.render(["a".repeat(30), "b".repeat(30)])
+    writes.length = 0
+
+    renderer.render(["a".repeat(10) + "X" + "a".repeat(19), "b".repeat(11) + "Y" + "b".repeat(18)])
+    expect(vt.line(0)).toBe("a".repeat(10) + "X" + "a".repeat(19))
+    expect(vt.line(1)).toBe("b".repeat(11) + "Y" + "b".repeat(18))
+    // Absolute to the first change, then one row down (cursor already one column right)
+    expect(writes).toEqual(["\x1b[1;11HX\x1b[BY"])
+  })
+
+  it("merges nearby changes into one run", () => {
+    const { vt, term, writes } = setup()
+    const renderer = createRenderer(term)
+    renderer.render(["a-b-c"])
+    writes.length = 0
+    renderer.render(["A-B-C"])
+    expect(vt.line(0)).toBe("A-B-C")
+    expect(writes).toEqual(["\x1b[HA-B-C"])
+  })
+
+  it("erases vacated line ends and rows", () => {
+    const { vt, term, writes } = setup()
+    const renderer = createRenderer(term)
+    renderer.render(["long line here", "second", "third"])
+    writes.length = 0
+
+    renderer.render(["long"])
+    expect(vt.toString()).toBe("long")
+    expect(writes.join("")).not.toContain(" ")
+  })
+
+  it("switches styles incrementally", () => {
+    const { vt, term, writes } = setup()
+    const renderer = createRenderer(term)
+    renderer.render([term.red("ab")])
+    writes.length = 0
+    renderer.render([term.red("a") + term.bold.red("b")])
+    expect(vt.toStyledSnapshot()).toBe("[fg=red]a[/][bold fg=red]b[/]")
+    expect(writes).toEqual(["\x1b[1;2H\x1b[1;31mb\x1b[0m"])
+  })
+
+  it("erases with the default background", () => {
+    const { vt, term } = setup()
+    const renderer = createRenderer(term)
+    renderer.render([term.bgBlue("blue bar"), "next"])
+    renderer.render([term.bgBlue("blue"), "next"])
+    expect(vt.toStyledSnapshot()).toBe("[bg=blue]blue[/]\nnext")
+  })
+
+  it("handles wide characters", () => {
+    const { vt, term } = setup(10, 3)
+    const renderer = createRenderer(term)
+    renderer.render(["a日本b"])
+    expect(vt.line(0)).toBe("a日本b")
+
+    // Replacing the right half of a wide character rewrites it whole
+    renderer.render(["a日xyb"])
+    expect(vt.line(0)).toBe("a日xyb")
+
+    renderer.render(["ab漢cd"])
+    expect(vt.line(0)).toBe("ab漢cd")
+    expect(vt.cell(0, 2).width).toBe(2)
+  })
+
+  it("clips to the terminal size without splitting wide characters", () => {
+    const { vt, term } = setup(5, 2)
+    const renderer = createRenderer(term)
+    renderer.render(["abcd日", "0123456789", "hidden"])
+    expect(vt.toString()).toBe("abcd\n01234")
+  })
+
+  it("repaints after invalidate", () => {
+    const { vt, term } = setup()
+    const renderer = createRenderer(term)
+    renderer.render(["frame"])
+    term.write("\x1b[3;1Hstray output")
+    renderer.invalidate()
+    renderer.render(["frame"])
+    expect(vt.toString()).toBe("frame")
+  })
+
+  it("wraps frames in synchronized output when supported", () => {
+    const { term, writes } = setup(20, 5, true)
+    const renderer = createRenderer(term)
+    renderer.render(["sync"])
+    expect(writes).toHaveLength(1)
+    expect(writes[0]!.startsWith(enableSyncUpdate())).toBe(true)
+    expect(writes[0]!.endsWith(disableSyncUpdate())).toBe(true)
+  })
+
+  it("keeps hyperlinks per cell", () => {
+    const { vt, term } = setup()
+    const renderer = createRenderer(term)
+    renderer.render([`see ${hyperlink("docs", "https://example.com")}`])
+    expect(vt.cell(0, 4).link).toBe("https://example.com")
+    expect(vt.cell(0, 0).link).toBeNull()
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Tests for terminal size tracking
+ */
+
+import { describe, it, expect } from "vitest"
+import { parseSizeReplies, queryPixelSize, watchSize, type TermSize } from "../src/resize.js"
+import { createTerm } from "../src/term.js"
+import { fakeTerminal, sleep } from "./helpers.js"
+
+describe("parseSizeReplies", () => {
+  it("parses text area and cell size", () => {
+    expect(parseSizeReplies("\x1b[4;600;800t\x1b[6;20;10t")).toEqual({
+      width: 800,
+      height: 600,
+      cellWidth: 10,
+      cellHeight: 20,
+    })
+  })
+
+  it("returns nulls for missing replies", () => {
+    expect(parseSizeReplies("\x1b[?62c")).toEqual({ width: null, height: null, cellWidth: null, cellHeight: null })
+  })
+})
+
+describe("queryPixelSize", () => {
+  it("queries and parses pixel dimensions", async () => {
+    const { stdout, stdin, writes } = fakeTerminal(() => "\x1b[4;480;640t\x1b[6;20;8t\x1b[?62c")
+    const size = await queryPixelSize(stdin, stdout, { timeout: 500 })
+    expect(writes[0]).toBe("\x1b[14t\x1b[16t\x1b[c")
+    expect(size).toEqual({ width: 640, height: 480, cellWidth: 8, cellHeight: 20 })
+  })
+
+  it("skips the query when not a TTY", async () => {
+    const { stdout, stdin, writes } = fakeTerminal()
+    stdin.isTTY = false
+    expect((await queryPixelSize(stdin, stdout)).width).toBeNull()
+    expect(writes).toEqual([])
+  })
+})
+
+describe("watchSize", () => {
+  it("reports the current size", () => {
+    const { stdout, stdin } = fakeTerminal(undefined, { cols: 100, rows: 30 })
+    using watcher = watchSize(stdout, stdin)
+    expect(watcher.getSnapshot()).toEqual({
+      cols: 100,
+      rows: 30,
+      width: null,
+      height: null,
+      cellWidth: null,
+      cellHeight: null,
+    })
+  })
+
+  it("debounces resize bursts into one notification", async () => {
+    const { stdout, stdin, resize } = fakeTerminal()
+    using watcher = watchSize(stdout, stdin, { debounce: 10 })
+    const sizes: TermSize[] = []
+    watcher.onResize((size) => sizes.push(size))
+
+    resize(90, 24)
+    resize(100, 25)
+    resize(120, 40)
+    expect(sizes).toEqual([])
+    await sleep(40)
+    expect(sizes.map(({ cols, rows }) => [cols, rows])).toEqual([[120, 40]])
+  })
+
+  it("skips notifications when the size did not change", async () => {
+    const { stdout, stdin, resize } = fakeTerminal()
+    using watcher = watchSize(stdout, stdin, { debounce: 1 })
+    let calls = 0
+    watcher.subscribe(() => calls++)
+    resize(80, 24)
+    await sleep(20)
+    expect(calls).toBe(0)
+  })
+
+  it("keeps the snapshot reference until the size changes", async () => {
+    const { stdout, stdin, resize } = fakeTerminal()
+    using watcher = watchSize(stdout, stdin, { debounce: 1 })
+    watcher.subscribe(() => {})
+    const before = watcher.getSnapshot()
+    expect(watcher.getSnapshot()).toBe(before)
+    resize(81, 24)
+    await sleep(20)
+    expect(watcher.getSnapshot()).not.toBe(before)
+    expect(watcher.getSnapshot().cols).toBe(81)
+  })
+
+  it("reads through when nobody is subscribed", () => {
+    const { stdout, stdin } = fakeTerminal()
+    using watcher = watchSize(stdout, stdin)
+    stdout.columns = 132
+    expect(watcher.getSnapshot().cols).toBe(132)
+  })
+
+  it("stops listening when the last subscriber leaves", () => {
+    const { stdout, stdin } = fakeTerminal()
+    const winch = process.listenerCount("SIGWINCH")
+    using watcher = watchSize(stdout, stdin)
+    const unsubscribe = watcher.subscribe(() => {})
+    expect(stdout.listenerCount("resize")).toBe(1)
+    expect(process.listenerCount("SIGWINCH")).toBe(winch + 1)
+    unsubscribe()
+    expect(stdout.listenerCount("resize")).toBe(0)
+    expect(process.listenerCount("SIGWINCH")).toBe(winch)
+  })
+
+  it("queries pixel sizes when enabled", async () => {
+    const { stdout, stdin, resize } = fakeTerminal(() => "\x1b[4;480;640t\x1b[6;20;8t\x1b[?62c")
+    using watcher = watchSize(stdout, stdin, { debounce: 1, pixels: true, timeout: 500 })
+    const sizes: TermSize[] = []
+    watcher.onResize((size) => sizes.push(size))
+    await sleep(30)
+    expect(sizes.at(-1)).toMatchObject({ cols: 80, width: 640, cellWidth: 8, cellHeight: 20 })
+
+    resize(100, 30)
+    await sleep(40)
+    expect(watcher.getSnapshot()).toMatchObject({ cols: 100, rows: 30, width: 640 })
+  })
+})
+
+describe("term size", () => {
+  it("notifies term.onResize and unsubscribes on dispose", async () => {
+    const { stdout, stdin, resize } = fakeTerminal()
+    const term = createTerm({ stdout, stdin, color: null, resize: { debounce: 1 } })
+    const cols: (number | undefined)[] = []
+    term.onResize((size) => cols.push(size.cols))
+    expect(term.getSize().cols).toBe(80)
+
+    resize(100, 24)
+    await sleep(20)
+    expect(cols).toEqual([100])
+
+    term[Symbol.dispose]()
+    expect(stdout.listenerCount("resize")).toBe(0)
+  })
+
+  it("supports the useSyncExternalStore contract", async () => {
+    const { stdout, stdin, resize } = fakeTerminal()
+    using term = createTerm({ stdout, stdin, color: null, resize: { debounce: 1 } })
+    const { subscribeSize, getSize } = term
+    let changes = 0
+    const unsubscribe = subscribeSize(() => changes++)
+    const first = getSize()
+    resize(90, 20)
+    await sleep(20)
+    expect(changes).toBe(1)
+    expect(getSize()).not.toBe(first)
+    expect(getSize()).toMatchObject({ cols: 90, rows: 20 })
+    unsubscribe()
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Tests for terminal session lifecycle
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import { enterSession } from "../src/session.js"
+import {
+  cursorHide,
+  cursorShow,
+  disableBracketedPaste,
+  disableKittyKeyboard,
+  disableMouse,
+  enableBracketedPaste,
+  enableKittyKeyboard,
+  enableMouse,
+  enterAltScreen,
+  leaveAltScreen,
+} from "../src/ansi.js"
+import { createTerm } from "../src/term.js"
+import { fakeStdin, fakeStdout } from "./helpers.js"
+
+const listenerCounts = () => ({
+  exit: process.listenerCount("exit"),
+  uncaught: process.listenerCount("uncaughtExceptionMonitor"),
+  sigint: process.listenerCount("SIGINT"),
+  sigterm: process.listenerCount("SIGTERM"),
+})
+
+describe("enterSession", () => {
+  const baseline = listenerCounts()
+
+  afterEach(() => {
+    expect(listenerCounts()).toEqual(baseline)
+  })
+
+  it("writes enable sequences in order", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin } = fakeStdin()
+    using _session = enterSession(stdout, stdin, {
+      altScreen: true,
+      hideCursor: true,
+      mouse: true,
+      bracketedPaste: true,
+      kittyKeyboard: true,
+    })
+    expect(writes).toEqual([
+      enterAltScreen(),
+      cursorHide(),
+      enableMouse(),
+      enableBracketedPaste(),
+      enableKittyKeyboard(1),
+    ])
+  })
+
+  it("restores in reverse order on dispose", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin, modes } = fakeStdin()
+    const session = enterSession(stdout, stdin, {
+      altScreen: true,
+      hideCursor: true,
+      mouse: { anyEvent: true },
+      bracketedPaste: true,
+      kittyKeyboard: 3,
+      rawMode: true,
+    })
+    expect(session.active).toBe(true)
+    expect(writes.at(-1)).toBe(enableKittyKeyboard(3))
+    writes.length = 0
+
+    session[Symbol.dispose]()
+    expect(session.active).toBe(false)
+    expect(writes).toEqual([
+      disableKittyKeyboard(),
+      disableBracketedPaste(),
+      disableMouse({ anyEvent: true }),
+      cursorShow(),
+      leaveAltScreen(),
+    ])
+    expect(modes).toEqual([true, false])
+  })
+
+  it("only touches requested modes", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin, modes } = fakeStdin()
+    const session = enterSession(stdout, stdin, { hideCursor: true })
+    session.restore()
+    expect(writes).toEqual([cursorHide(), cursorShow()])
+    expect(modes).toEqual([])
+  })
+
+  it("keeps raw mode when it was already on", () => {
+    const { stdout } = fakeStdout()
+    const { stdin, modes } = fakeStdin()
+    stdin.isRaw = true
+    enterSession(stdout, stdin, { rawMode: true }).restore()
+    expect(modes).toEqual([true, true])
+  })
+
+  it("restores only once", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin } = fakeStdin()
+    const session = enterSession(stdout, stdin, { altScreen: true })
+    session.restore()
+    session.restore()
+    expect(writes).toEqual([enterAltScreen(), leaveAltScreen()])
+  })
+
+  it("registers process listeners while active", () => {
+    const { stdout } = fakeStdout()
+    const { stdin } = fakeStdin()
+    const session = enterSession(stdout, stdin, {})
+    expect(listenerCounts()).toEqual({
+      exit: baseline.exit + 1,
+      uncaught: baseline.uncaught + 1,
+      sigint: baseline.sigint + 1,
+      sigterm: baseline.sigterm + 1,
+    })
+    session.restore()
+  })
+
+  it("restores on process exit", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin } = fakeStdin()
+    const session = enterSession(stdout, stdin, { hideCursor: true })
+    process.emit("exit", 0)
+    expect(session.active).toBe(false)
+    expect(writes.at(-1)).toBe(cursorShow())
+  })
+
+  it("restores on uncaught exceptions", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin } = fakeStdin()
+    const session = enterSession(stdout, stdin, { mouse: true })
+    process.emit("uncaughtExceptionMonitor", new Error("boom"), "uncaughtException")
+    expect(session.active).toBe(false)
+    expect(writes.at(-1)).toBe(disableMouse())
+  })
+
+  it("restores on signals without re-raising when the app handles them", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin } = fakeStdin()
+    const handled: string[] = []
+    const handler = (signal: string) => handled.push(signal)
+    process.on("SIGTERM", handler)
+    try {
+      const session = enterSession(stdout, stdin, { altScreen: true })
+      process.emit("SIGTERM", "SIGTERM")
+      expect(session.active).toBe(false)
+      expect(writes.at(-1)).toBe(leaveAltScreen())
+      expect(handled).toEqual(["SIGTERM"])
+    } finally {
+      process.off("SIGTERM", handler)
+    }
+  })
+})
+
+describe("term.enter", () => {
+  it("restores sessions when the term is disposed", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin, modes } = fakeStdin()
+    const term = createTerm({ stdout, stdin, color: null })
+    const session = term.enter({ altScreen: true, rawMode: true })
+    term[Symbol.dispose]()
+    expect(session.active).toBe(false)
+    expect(writes).toEqual([enterAltScreen(), leaveAltScreen()])
+    expect(modes).toEqual([true, false])
+  })
+
+  it("leaves already restored sessions alone", () => {
+    const { stdout, writes } = fakeStdout()
+    const { stdin } = fakeStdin()
+    using term = createTerm({ stdout, stdin, color: null })
+    term.enter({ hideCursor: true }).restore()
+    expect(writes).toEqual([cursorHide(), cursorShow()])
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Tests for the SGR style state model
+ */
+
+import { describe, it, expect } from "vitest"
+import { parseSgrState, diffSgr, closeSgr, emptySgrState, type SgrState } from "../src/sgr-state.js"
+import { tokenizeAnsi } from "../src/tokenize.js"
+
+const state = (overrides: Partial<SgrState>): SgrState => ({ ...emptySgrState(), ...overrides })
+
+describe("SGR state", () => {
+  describe("parseSgrState", () => {
+    it("returns the empty state for plain text", () => {
+      expect(parseSgrState("hello")).toEqual(emptySgrState())
+    })
+
+    it("reports the style active at a column", () => {
+      const str = "plain \x1b[1;31malert\x1b[22;39m done"
+      expect(parseSgrState(str, 0)).toEqual(emptySgrState())
+      expect(parseSgrState(str, 6)).toEqual(state({ bold: true, fg: 1 }))
+      expect(parseSgrState(str, 10)).toEqual(state({ bold: true, fg: 1 }))
+      expect(parseSgrState(str, 11)).toEqual(emptySgrState())
+    })
+
+    it("counts columns by display width", () => {
+      expect(parseSgrState("한\x1b[3m글", 2).italic).toBe(true)
+      expect(parseSgrState("한\x1b[3m글", 1).italic).toBe(false)
+    })
+
+    it("parses basic, bright, 256 and truecolor colors", () => {
+      expect(parseSgrState("\x1b[91;44m").fg).toBe(9)
+      expect(parseSgrState("\x1b[91;44m").bg).toBe(4)
+      expect(parseSgrState("\x1b[38;5;208m").fg).toBe(208)
+      expect(parseSgrState("\x1b[48;2;30;30;46m").bg).toEqual([30, 30, 46])
+      expect(parseSgrState("\x1b[38:2::255:128:0m").fg).toEqual([255, 128, 0])
+    })
+
+    it("keeps parameters after semicolon-form colors", () => {
+      expect(parseSgrState("\x1b[38;5;208;1m")).toEqual(state({ fg: 208, bold: true }))
+    })
+
+    it("parses underline styles and underline color", () => {
+      expect(parseSgrState("\x1b[4:3;58:2::255:0:0m")).toEqual(
+        state({ underline: "curly", underlineColor: [255, 0, 0] }),
+      )
+      expect(parseSgrState("\x1b[4m").underline).toBe("single")
+      expect(parseSgrState("\x1b[21m").underline).toBe("double")
+      expect(parseSgrState("\x1b[4:3m\x1b[4:0m").underline).toBeNull()
+      expect(parseSgrState("\x1b[58:5:196m").underlineColor).toBe(196)
+    })
+
+    it("resets attributes", () => {
+      expect(parseSgrState("\x1b[1;2;3m\x1b[22m")).toEqual(state({ italic: true }))
+      expect(parseSgrState("\x1b[1;31;4;53m\x1b[0m")).toEqual(emptySgrState())
+      expect(parseSgrState("\x1b[1;31m\x1b[m")).toEqual(emptySgrState())
+    })
+
+    it("tracks hyperlinks independently of SGR 0", () => {
+      const opened = parseSgrState("\x1b]8;id=7;https://x.dev\x1b\\\x1b[1m\x1b[0m")
+      expect(opened.hyperlink).toEqual({ url: "https://x.dev", params: "id=7" })
+      expect(parseSgrState("\x1b]8;;https://x.dev\x1b\\link\x1b]8;;\x1b\\").hyperlink).toBeNull()
+    })
+  })
+
+  describe("diffSgr", () => {
+    it("returns an empty string for equal states", () => {
+      expect(diffSgr(state({ bold: true, fg: [1, 2, 3] }), state({ bold: true, fg: [1, 2, 3] }))).toBe("")
+    })
+
+    it("emits only changed attributes", () => {
+      const bold = state({ bold: true })
+      expect(diffSgr(emptySgrState(), bold)).toBe("\x1b[1m")
+      expect(diffSgr(bold, state({ bold: true, fg: 1 }))).toBe("\x1b[31m")
+      expect(diffSgr(state({ fg: 1, italic: true }), state({ fg: 2, italic: true }))).toBe("\x1b[32m")
+    })
+
+    it("re-enables dim when only bold turns off", () => {
+      expect(diffSgr(state({ bold: true, dim: true, fg: 1 }), state({ dim: true, fg: 1 }))).toBe("\x1b[22;2m")
+    })
+
+    it("uses SGR 0 when it is shorter", () => {
+      expect(diffSgr(state({ bold: true, italic: true, fg: 1 }), emptySgrState())).toBe("\x1b[0m")
+      expect(diffSgr(state({ bold: true, italic: true, fg: 1 }), state({ underline: "curly" }))).toBe("\x1b[0;4:3m")
+    })
+
+    it("emits colors in their shortest form", () => {
+      expect(diffSgr(emptySgrState(), state({ fg: 9, bg: 4 }))).toBe("\x1b[91;44m")
+      expect(diffSgr(emptySgrState(), state({ fg: 208 }))).toBe("\x1b[38;5;208m")
+      expect(diffSgr(emptySgrState(), state({ bg: [30, 30, 46] }))).toBe("\x1b[48;2;30;30;46m")
+      expect(diffSgr(emptySgrState(), state({ underlineColor: [255, 0, 0] }))).toBe("\x1b[58:2::255:0:0m")
+    })
+
+    it("opens, switches and closes hyperlinks", () => {
+      const link = state({ hyperlink: { url: "https://x.dev", params: "" } })
+      expect(diffSgr(emptySgrState(), link)).toBe("\x1b]8;;https://x.dev\x1b\\")
+      expect(diffSgr(link, emptySgrState())).toBe("\x1b]8;;\x1b\\")
+    })
+
+    it("round-trips through parseSgrState", () => {
+      const target = state({ bold: true, underline: "dotted", fg: [10, 20, 30], bg: 236, overline: true })
+      expect(parseSgrState(diffSgr(emptySgrState(), target))).toEqual(target)
+      const from = parseSgrState("\x1b[3;4:2;35;48;5;17m")
+      const tokens = tokenizeAnsi(diffSgr(from, target))
+      expect(tokens.every((t) => t.type === "sgr")).toBe(true)
+      expect(parseSgrState("\x1b[3;4:2;35;48;5;17m" + diffSgr(from, target))).toEqual(target)
+    })
+  })
+
+  describe("closeSgr", () => {
+    it("turns off only active attributes without SGR 0", () => {
+      expect(closeSgr(state({ bold: true, italic: true, fg: 1 }))).toBe("\x1b[22;23;39m")
+      expect(closeSgr(emptySgrState())).toBe("")
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Tests for the sixel encoder
+ */
+
+import { describe, it, expect } from "vitest"
+import { encodeSixel } from "../src/sixel.js"
+import type { RGB } from "../src/types.js"
+import { image } from "./helpers.js"
+
+interface DecodedSixel {
+  width: number
+  height: number
+  palette: RGB[]
+  /** Palette color per pixel, null where nothing was painted */
+  pixels: (RGB | null)[]
+}
+
+/** Decode the subset of sixel that encodeSixel() emits */
+function decodeSixel(sequence: string): DecodedSixel {
+  const match = /^\x1bP0;1;0q"1;1;(\d+);(\d+)(.*)\x1b\\$/s.exec(sequence)
+  if (!match) throw new Error("not a sixel sequence")
+  const width = Number(match[1])
+  const height = Number(match[2])
+  const body = match[3]!
+  const palette: RGB[] = []
+  const pixels: (RGB | null)[] = new Array(width * height).fill(null)
+
+  let color = 0
+  let x = 0
+  let top = 0
+  let i = 0
+  const number = () => {
+    const start = i
+    while (/\d/.test(body[i] ?? "")) i++
+    return Number(body.slice(start, i))
+  }
+  const paint = (char: string, count: number) => {
+    const bits = char.charCodeAt(0) - 63
+    for (let n = 0; n < count; n++, x++) {
+      for (let dy = 0; dy < 6; dy++) {
+        if (bits & (1 << dy) && top + dy < height) pixels[(top + dy) * width + x] = palette[color]!
+      }
+    }
+  }
+
+  while (i < body.length) {
+    const char = body[i++]!
+    if (char === "#") {
+      color = number()
+      if (body[i] === ";") {
+        i += 3 // ";2;"
+        const rgb = [number(), (i++, number()), (i++, number())]
+        palette[color] = rgb.map((pct) => Math.round((pct * 255) / 100)) as RGB
+      }
+    } else if (char === "!") {
+      const count = number()
+      paint(body[i++]!, count)
+    } else if (char === "$") {
+      x = 0
+    } else if (char === "-") {
+      x = 0
+      top += 6
+    } else {
+      paint(char, 1)
+    }
+  }
+  return { width, height, palette, pixels }
+}
+
+const close = (a: RGB | null, b: readonly number[], tolerance = 2) =>
+  a !== null && a.every((value, c) => Math.abs(value - b[c]!) <= tolerance)
+
+describe("encodeSixel", () => {
+  it("round-trips an image with few colors across bands", () => {
+    const colors = [
+      [255, 0, 0, 255],
+      [0, 128, 0, 255],
+      [0, 0, 255, 255],
+      [240, 240, 240, 255],
+    ] as const
+    const rgba = image(7, 8, (x, y) => [...colors[(x + y) % 4]!])
+    const decoded = decodeSixel(encodeSixel(rgba, 7, 8))
+
+    expect(decoded.width).toBe(7)
+    expect(decoded.height).toBe(8)
+    expect(decoded.palette).toHaveLength(4)
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 7; x++) expect(close(decoded.pixels[y * 7 + x]!, colors[(x + y) % 4]!)).toBe(true)
+    }
+  })
+
+  it("leaves transparent pixels unpainted", () => {
+    const rgba = image(4, 2, (x) => (x % 2 ? [0, 0, 0, 0] : [255, 255, 255, 255]))
+    const { pixels } = decodeSixel(encodeSixel(rgba, 4, 2))
+    expect(pixels.map((pixel) => pixel !== null)).toEqual([true, false, true, false, true, false, true, false])
+  })
+
+  it("run-length encodes repeated columns", () => {
+    const rgba = image(40, 6, () => [10, 20, 30, 255])
+    const sequence = encodeSixel(rgba, 40, 6)
+    expect(sequence).toContain("#0!40~")
+    expect(decodeSixel(sequence).pixels.every((pixel) => close(pixel, [10, 20, 30]))).toBe(true)
+  })
+
+  it("quantizes to maxColors with a small error", () => {
+    const rgba = image(32, 12, (x, y) => [x * 8, y * 20, 128, 255])
+    const decoded = decodeSixel(encodeSixel(rgba, 32, 12, { maxColors: 16 }))
+
+    expect(decoded.palette.length).toBeLessThanOrEqual(16)
+    let error = 0
+    decoded.pixels.forEach((pixel, i) => {
+      for (let c = 0; c < 3; c++) error += Math.abs(pixel![c]! - rgba[i * 4 + c]!)
+    })
+    expect(error / (32 * 12 * 3)).toBeLessThan(20)
+  })
+
+  it("dithers to preserve average brightness", () => {
+    // A gradient with a two-color palette: without dithering every column is a flat color
+    const rgba = image(32, 12, (x) => [x * 8, x * 8, x * 8, 255])
+    const brightness = (decoded: DecodedSixel, from: number, to: number) => {
+      let sum = 0
+      for (let y = 0; y < 12; y++) for (let x = from; x < to; x++) sum += decoded.pixels[y * 32 + x]![0]
+      return sum / (12 * (to - from))
+    }
+    const flat = decodeSixel(encodeSixel(rgba, 32, 12, { maxColors: 2 }))
+    const dithered = decodeSixel(encodeSixel(rgba, 32, 12, { maxColors: 2, dither: true }))
+
+    // Columns 8-15 average 92 in the source
+    const source = (8 * 8 + 15 * 8) / 2
+    expect(Math.abs(brightness(dithered, 8, 16) - source)).toBeLessThan(Math.abs(brightness(flat, 8, 16) - source))
+    expect(new Set(dithered.pixels.slice(8, 16).map(String)).size).toBeGreaterThan(1)
+  })
+
+  it("returns empty for missing pixel data", () => {
+    expect(encodeSixel(new Uint8Array(12), 2, 2)).toBe("")
+    expect(encodeSixel(new Uint8Array(0), 0, 0)).toBe("")
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Tests for the table renderer
+ */
+
+import { describe, it, expect } from "vitest"
+import { renderTable } from "../src/table.js"
+import { hyperlink } from "../src/hyperlink.js"
+import { styledUnderline } from "../src/underline.js"
+import { displayLength, stripAnsi } from "../src/utils.js"
+import { termWith } from "./helpers.js"
+
+/** Count OSC 8 sequences that open (with a URL) and close (empty URL) links */
+function linkBalance(line: string): number {
+  let balance = 0
+  for (const [, url] of line.matchAll(/\x1b\]8;[^;]*;([^\x07\x1b]*)(?:\x07|\x1b\\)/g)) balance += url ? 1 : -1
+  return balance
+}
+
+const ROWS = [
+  ["api", 182],
+  ["worker", 64],
+]
+
+describe("renderTable", () => {
+  it("draws a header and box-drawing borders", () => {
+    expect(renderTable(termWith(), ROWS, { columns: ["Service", "p99"] })).toEqual([
+      "┌─────────┬─────┐",
+      "│ Service │ p99 │",
+      "├─────────┼─────┤",
+      "│ api     │ 182 │",
+      "│ worker  │ 64  │",
+      "└─────────┴─────┘",
+    ])
+  })
+
+  it("uses ASCII borders without unicode", () => {
+    expect(renderTable(termWith({ unicode: false }), ROWS, { border: "double" })).toEqual([
+      "+--------+-----+",
+      "| api    | 182 |",
+      "| worker | 64  |",
+      "+--------+-----+",
+    ])
+  })
+
+  it("supports rounded, double and borderless styles", () => {
+    const term = termWith()
+    expect(renderTable(term, ROWS, { border: "rounded" })[0]).toBe("╭────────┬─────╮")
+    expect(renderTable(term, ROWS, { border: "double" }).at(-1)).toBe("╚════════╩═════╝")
+    expect(renderTable(term, ROWS, { border: "none", columns: ["Service", "p99"] })).toEqual([
+      "Service  p99",
+      "api      182",
+      "worker   64",
+    ])
+  })
+
+  it("aligns columns", () => {
+    const term = termWith()
+    const rows = [
+      ["a", 1, "x"],
+      ["bbbb", 1000, "yyyyy"],
+    ]
+    expect(renderTable(term, rows, { border: "none", align: ["left", "right", "center"] })).toEqual([
+      "a        1    x",
+      "bbbb  1000  yyyyy",
+    ])
+    expect(renderTable(term, rows, { border: "none", align: "right", columns: [{ align: "left" }] })[0]).toBe(
+      "a        1      x",
+    )
+  })
+
+  it("measures styled cells by their visible width", () => {
+    const term = termWith({ color: "truecolor" })
+    const rows = [
+      [term.green("up"), hyperlink("logs", "https://example.com/logs")],
+      [styledUnderline("curly", [255, 0, 0], "degraded"), "-"],
+    ]
+    const lines = renderTable(term, rows)
+    expect(lines.map(stripAnsi)).toEqual([
+      "┌──────────┬──────┐",
+      "│ up       │ logs │",
+      "│ degraded │ -    │",
+      "└──────────┴──────┘",
+    ])
+    for (const line of lines) expect(displayLength(line)).toBe(19)
+  })
+
+  it("wraps cells to fit the width without splitting escapes or links", () => {
+    const term = termWith({ color: "truecolor" })
+    const text = term.red(`see ${hyperlink("the deployment dashboard", "https://example.com/d")} for details`)
+    const lines = renderTable(term, [["status", text]], { maxWidth: 30 })
+
+    for (const line of lines) {
+      expect(displayLength(line)).toBe(30)
+      expect(linkBalance(line)).toBe(0)
+      // Styles close before the border
+      expect(line.endsWith("│") || line.endsWith("┐") || line.endsWith("┘")).toBe(true)
+    }
+    expect(lines.length).toBeGreaterThan(3)
+    expect(
+      lines
+        .map(stripAnsi)
+        .join(" ")
+        .replace(/[│┌┐└┘┬┴─]/g, " ")
+        .split(/\s+/)
+        .join(" "),
+    ).toContain("see the deployment dashboard for details")
+  })
+
+  it("truncates instead of wrapping when wrap is false", () => {
+    const term = termWith()
+    const lines = renderTable(term, [["a", "x".repeat(50)]], { maxWidth: 20, wrap: false })
+    expect(lines).toHaveLength(3)
+    expect(lines[1]).toBe("│ a │ xxxxxxxxxxx… │")
+    expect(displayLength(lines[1]!)).toBe(20)
+  })
+
+  it("shrinks the widest column first and keeps fixed widths", () => {
+    const term = termWith()
+    const rows = [["short", "a fairly long description of the row", "12345678"]]
+    const lines = renderTable(term, rows, { maxWidth: 40, columns: [{}, {}, { width: 8 }] })
+    expect(lines[1]).toMatch(/^│ short │ .* │ 12345678 │$/)
+    for (const line of lines) expect(displayLength(line)).toBe(40)
+  })
+
+  it("keeps newlines in cells and pads short rows", () => {
+    const term = termWith()
+    expect(renderTable(term, [["a\nb", null], ["c"]], { border: "none" })).toEqual(["a", "b", "c"])
+    expect(renderTable(term, [["x", "two\nlines"]])).toEqual([
+      "┌───┬───────┐",
+      "│ x │ two   │",
+      "│   │ lines │",
+      "└───┴───────┘",
+    ])
+  })
+
+  it("returns no lines for an empty table", () => {
+    expect(renderTable(termWith(), [])).toEqual([])
+  })
+
+  it("fits term.cols by default", () => {
+    const term = termWith({ cols: 24 })
+    for (const line of term.table([["name", "x".repeat(40)]])) expect(displayLength(line)).toBe(24)
+  })
+})
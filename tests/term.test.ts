@@ -0,0 +1,129 @@
+/**
+ * Tests for the Term style chain
+ */
+
+import { describe, it, expect } from "vitest"
+import { createTerm } from "../src/term.js"
+import { stripAnsi } from "../src/utils.js"
+
+describe("term style chain", () => {
+  const extendedCaps = { underlineStyles: true, underlineColor: true }
+
+  describe("style()", () => {
+    it("applies colors and modifiers", () => {
+      using t = createTerm({ color: "truecolor" })
+      const styled = t.style({ color: "red", bgColor: "#0000ff", bold: true, italic: true })("x")
+      expect(styled).toContain("\x1b[31m")
+      expect(styled).toContain("\x1b[48;2;0;0;255m")
+      expect(styled).toContain("\x1b[1m")
+      expect(styled).toContain("\x1b[3m")
+      expect(stripAnsi(styled)).toBe("x")
+    })
+
+    it("matches the equivalent property chain", () => {
+      using t = createTerm({ color: "truecolor" })
+      expect(t.style({ color: "green", dim: true, strikethrough: true, inverse: true })("x")).toBe(
+        t.green.dim.strikethrough.inverse("x"),
+      )
+      expect(t.style({ underline: true })("x")).toBe(t.underline("x"))
+    })
+
+    it("accepts rgb() and theme tokens", () => {
+      using t = createTerm({ color: "truecolor", caps: { darkBackground: true } })
+      expect(t.style({ color: "rgb(1, 2, 3)" })("x")).toBe("\x1b[38;2;1;2;3mx\x1b[39m")
+      expect(t.style({ color: "$error" })("x")).toBe(t.color("$error")("x"))
+    })
+
+    it("layers onto an existing chain", () => {
+      using t = createTerm({ color: "truecolor" })
+      expect(t.bold.style({ color: "red" })("x")).toBe(t.bold.red("x"))
+    })
+
+    it("returns plain text for empty options", () => {
+      using t = createTerm({ color: "truecolor" })
+      expect(t.style({})("x")).toBe("x")
+    })
+
+    it("applies extended underline styles when supported", () => {
+      using t = createTerm({ color: "truecolor", caps: extendedCaps })
+      expect(t.style({ underlineStyle: "curly" })("x")).toBe("\x1b[4:3mx\x1b[4:0m")
+    })
+
+    it("applies underline color as RGB or palette index", () => {
+      using t = createTerm({ color: "truecolor", caps: extendedCaps })
+      expect(t.style({ underlineColor: "#ff0000" })("x")).toBe("\x1b[4m\x1b[58:2::255:0:0mx\x1b[59m\x1b[24m")
+      expect(t.style({ underlineStyle: "dotted", underlineColor: "red" })("x")).toBe(
+        "\x1b[4:4m\x1b[58:5:1mx\x1b[59m\x1b[4:0m",
+      )
+    })
+
+    it("falls back to plain underline without extended caps", () => {
+      using t = createTerm({ color: "truecolor", caps: { underlineStyles: false, underlineColor: false } })
+      expect(t.style({ underlineStyle: "curly", underlineColor: "red" })("x")).toBe("\x1b[4mx\x1b[24m")
+    })
+
+    it("wraps text in a hyperlink", () => {
+      using t = createTerm({ color: "truecolor" })
+      const styled = t.style({ color: "blue", hyperlink: "https://example.com" })("docs")
+      expect(styled).toBe("\x1b]8;;https://example.com\x1b\\\x1b[34mdocs\x1b[39m\x1b]8;;\x1b\\")
+    })
+
+    it("emits nothing without color", () => {
+      using t = createTerm({ color: null, caps: extendedCaps })
+      const styled = t.style({ color: "red", underlineStyle: "curly", hyperlink: "https://example.com" })("x")
+      expect(styled).toBe("x")
+    })
+  })
+
+  describe("extended underline members", () => {
+    it("applies extended underline styles when supported", () => {
+      using t = createTerm({ color: "truecolor", caps: extendedCaps })
+      expect(t.curlyUnderline("x")).toBe("\x1b[4:3mx\x1b[4:0m")
+      expect(t.dottedUnderline("x")).toBe("\x1b[4:4mx\x1b[4:0m")
+      expect(t.dashedUnderline("x")).toBe("\x1b[4:5mx\x1b[4:0m")
+      expect(t.doubleUnderline("x")).toBe("\x1b[4:2mx\x1b[4:0m")
+      expect(t.underlineStyle("curly")("x")).toBe(t.curlyUnderline("x"))
+    })
+
+    it("falls back to a standard underline without caps.underlineStyles", () => {
+      using t = createTerm({ color: "truecolor", caps: { underlineStyles: false } })
+      expect(t.curlyUnderline("x")).toBe("\x1b[4mx\x1b[24m")
+    })
+
+    it("emits no underline codes without color", () => {
+      using t = createTerm({ color: null, caps: extendedCaps })
+      expect(t.curlyUnderline("x")).toBe("x")
+      expect(t.underlineColor([255, 0, 0])("x")).toBe("x")
+    })
+
+    it("chains with chalk styles in any order", () => {
+      using t = createTerm({ color: "truecolor", caps: extendedCaps })
+      expect(t.red.curlyUnderline("x")).toBe("\x1b[4:3m\x1b[31mx\x1b[39m\x1b[4:0m")
+      expect(t.curlyUnderline.red("x")).toBe(t.red.curlyUnderline("x"))
+    })
+
+    it("underlineColor accepts RGB tuples and Color strings", () => {
+      using t = createTerm({ color: "truecolor", caps: extendedCaps })
+      expect(t.underlineColor([255, 0, 0])("x")).toBe("\x1b[4m\x1b[58:2::255:0:0mx\x1b[59m\x1b[24m")
+      expect(t.underlineColor("#ff0000")("x")).toBe(t.underlineColor([255, 0, 0])("x"))
+      expect(t.curlyUnderline.underlineColor("red")("x")).toBe("\x1b[4:3m\x1b[58:5:1mx\x1b[59m\x1b[4:0m")
+    })
+
+    it("drops underline color without caps.underlineColor", () => {
+      using t = createTerm({ color: "truecolor", caps: { underlineStyles: true, underlineColor: false } })
+      expect(t.curlyUnderline.underlineColor([255, 0, 0])("x")).toBe("\x1b[4:3mx\x1b[4:0m")
+    })
+
+    it("quantizes underline color to the color level", () => {
+      using t = createTerm({ color: "basic", caps: extendedCaps })
+      expect(t.underlineColor([255, 0, 0])("x")).toBe("\x1b[4m\x1b[58:5:9mx\x1b[59m\x1b[24m")
+    })
+
+    it("does not affect other chains", () => {
+      using t = createTerm({ color: "truecolor", caps: extendedCaps })
+      const curly = t.curlyUnderline
+      expect(curly("x")).toContain("\x1b[4:3m")
+      expect(t.red("x")).toBe("\x1b[31mx\x1b[39m")
+    })
+  })
+})
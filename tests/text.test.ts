@@ -0,0 +1,132 @@
+/**
+ * Tests for ANSI-aware slicing, truncation and wrapping
+ */
+
+import { describe, it, expect } from "vitest"
+import { sliceAnsi, truncateAnsi, wrapAnsi, stripAnsi, displayLength } from "../src/utils.js"
+
+describe("text layout", () => {
+  describe("sliceAnsi", () => {
+    it("slices plain text by columns", () => {
+      expect(sliceAnsi("hello world", 6)).toBe("world")
+      expect(sliceAnsi("hello world", 0, 5)).toBe("hello")
+    })
+
+    it("re-opens and closes styles at the cut", () => {
+      expect(sliceAnsi("\x1b[31mhello\x1b[39m world", 3, 8)).toBe("\x1b[31mlo\x1b[39m wo")
+      expect(sliceAnsi("\x1b[1;32mbold green\x1b[0m", 5)).toBe("\x1b[1;32mgreen\x1b[0m")
+    })
+
+    it("keeps extended underline and underline color codes as written", () => {
+      expect(sliceAnsi("\x1b[4:3;58:2::255:0:0mabc\x1b[4:0;59m", 1, 2)).toBe("\x1b[4:3;58:2::255:0:0mb\x1b[24;59m")
+    })
+
+    it("tracks semicolon-form extended colors", () => {
+      expect(sliceAnsi("\x1b[38;2;255;0;0mred\x1b[39m", 1)).toBe("\x1b[38;2;255;0;0med\x1b[39m")
+    })
+
+    it("re-opens hyperlinks", () => {
+      const link = "\x1b]8;;https://x.dev\x1b\\"
+      expect(sliceAnsi(`${link}docs\x1b]8;;\x1b\\`, 2)).toBe(`${link}cs\x1b]8;;\x1b\\`)
+    })
+
+    it("drops styles that were closed before the cut", () => {
+      expect(sliceAnsi("\x1b[31mab\x1b[39mcd", 2)).toBe("cd")
+    })
+
+    it("never splits wide characters or grapheme clusters", () => {
+      expect(sliceAnsi("한글", 1, 4)).toBe("글")
+      expect(sliceAnsi("한글", 0, 3)).toBe("한")
+      expect(sliceAnsi("👨‍👩‍👧x", 0, 2)).toBe("👨‍👩‍👧")
+      expect(sliceAnsi("éx", 0, 1)).toBe("é")
+    })
+
+    it("returns an empty string for an empty range", () => {
+      expect(sliceAnsi("\x1b[31mabc\x1b[39m", 3)).toBe("")
+    })
+
+    it("keeps leading non-style sequences only when slicing from column 0", () => {
+      const image = "\x1b_Gf=100;AAAA\x1b\\"
+      expect(sliceAnsi(`${image}\x1b[31mhello\x1b[39m`, 0, 2)).toBe(`${image}\x1b[31mhe\x1b[39m`)
+      expect(sliceAnsi(`${image}hello`, 2)).toBe("llo")
+      expect(sliceAnsi("\x1b[2Chi", 0)).toBe("\x1b[2Chi")
+    })
+  })
+
+  describe("truncateAnsi", () => {
+    it("returns strings that fit unchanged", () => {
+      expect(truncateAnsi("\x1b[1mhi\x1b[22m", 5)).toBe("\x1b[1mhi\x1b[22m")
+    })
+
+    it("truncates at the end by default", () => {
+      expect(truncateAnsi("\x1b[1mimportant\x1b[22m", 6)).toBe("\x1b[1mimpor\x1b[22m…")
+    })
+
+    it("truncates at the start and middle", () => {
+      expect(truncateAnsi("hello world", 8, { position: "start", ellipsis: "..." })).toBe("...world")
+      expect(truncateAnsi("/usr/local/bin/node", 12, { position: "middle" })).toBe("/usr/l…/node")
+    })
+
+    it("never exceeds the width with wide characters", () => {
+      const result = truncateAnsi("日本語テキスト", 6)
+      expect(result).toBe("日本…")
+      expect(displayLength(result)).toBeLessThanOrEqual(6)
+    })
+
+    it("measures only visible text of OSC, APC and DCS payloads", () => {
+      const image = "\x1b_Gf=100;AAAA\x1b\\"
+      const sixel = "\x1bP0;1;0q#0!4~\x1b\\"
+      const title = "\x1b]2;a long window title\x07"
+      expect(truncateAnsi(`${image}hello world`, 11)).toBe(`${image}hello world`)
+      expect(truncateAnsi(`${sixel}${title}hello world`, 11)).toBe(`${sixel}${title}hello world`)
+      expect(truncateAnsi(`${image}hello world`, 8)).toBe(`${image}hello w…`)
+      expect(truncateAnsi(`${image}hello world`, 8, { position: "start" })).toBe("…o world")
+      expect(truncateAnsi(`${image}hello world`, 8, { position: "middle" })).toBe(`${image}hell…rld`)
+    })
+
+    it("truncates the ellipsis itself when there is no room", () => {
+      expect(truncateAnsi("hello", 2, { ellipsis: "..." })).toBe("..")
+    })
+  })
+
+  describe("wrapAnsi", () => {
+    it("wraps at word boundaries", () => {
+      expect(wrapAnsi("the quick brown fox", 10)).toBe("the quick\nbrown fox")
+    })
+
+    it("closes and re-opens styles on each row", () => {
+      expect(wrapAnsi("\x1b[32mthe quick brown fox\x1b[39m", 10)).toBe(
+        "\x1b[32mthe quick\x1b[39m\n\x1b[32mbrown fox\x1b[39m",
+      )
+    })
+
+    it("carries hyperlinks across rows", () => {
+      const link = "\x1b]8;;https://x.dev\x1b\\"
+      const close = "\x1b]8;;\x1b\\"
+      expect(wrapAnsi(`${link}read the docs${close}`, 8)).toBe(`${link}read the${close}\n${link}docs${close}`)
+    })
+
+    it("preserves existing newlines and styles across them", () => {
+      expect(wrapAnsi("\x1b[1mone\ntwo\x1b[22m", 10)).toBe("\x1b[1mone\x1b[22m\n\x1b[1mtwo\x1b[22m")
+    })
+
+    it("lets long words overflow unless hard", () => {
+      expect(wrapAnsi("a abcdefgh b", 3)).toBe("a\nabcdefgh\nb")
+      expect(wrapAnsi("a abcdefgh b", 3, { hard: true })).toBe("a\nabc\ndef\ngh\nb")
+    })
+
+    it("keeps whitespace when trim is false", () => {
+      expect(wrapAnsi("a  b   c", 3, { trim: false })).toBe("a  \nb  \n c")
+    })
+
+    it("wraps wide characters by columns", () => {
+      const rows = wrapAnsi("日本語テキスト", 4, { hard: true }).split("\n")
+      expect(rows).toEqual(["日本", "語テ", "キス", "ト"])
+    })
+
+    it("does not lose text", () => {
+      const input = "\x1b[31mLorem ipsum\x1b[39m dolor sit amet, \x1b[4mconsectetur\x1b[24m adipiscing elit"
+      expect(stripAnsi(wrapAnsi(input, 12)).replace(/\n/g, " ")).toBe(stripAnsi(input))
+    })
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Tests for themes and $token color resolution
+ */
+
+import { describe, it, expect } from "vitest"
+import { darkTheme, lightTheme, defaultTheme, resolveThemeColor, type Theme } from "../src/theme.js"
+import { parseColor } from "../src/color.js"
+import { createTerm } from "../src/term.js"
+import { stripAnsi } from "../src/utils.js"
+
+describe("themes", () => {
+  describe("parseColor", () => {
+    it("parses ANSI names", () => {
+      expect(parseColor("red")).toEqual({ type: "ansi", name: "red" })
+      expect(parseColor("cyanBright")).toEqual({ type: "ansi", name: "cyanBright" })
+    })
+
+    it("parses 3- and 6-digit hex", () => {
+      expect(parseColor("#f80")).toEqual({ type: "rgb", rgb: [255, 136, 0] })
+      expect(parseColor("#FF8000")).toEqual({ type: "rgb", rgb: [255, 128, 0] })
+    })
+
+    it("parses rgb()", () => {
+      expect(parseColor("rgb(255, 128, 0)")).toEqual({ type: "rgb", rgb: [255, 128, 0] })
+      expect(parseColor("rgb(1,2,3)")).toEqual({ type: "rgb", rgb: [1, 2, 3] })
+    })
+
+    it("returns null for tokens and unknown strings", () => {
+      expect(parseColor("$primary")).toBeNull()
+      expect(parseColor("chartreuse")).toBeNull()
+      expect(parseColor("#12345")).toBeNull()
+    })
+  })
+
+  describe("resolveThemeColor", () => {
+    it("looks up tokens", () => {
+      expect(resolveThemeColor("$error", darkTheme)).toBe("#f38ba8")
+      expect(resolveThemeColor("$error", lightTheme)).toBe("#d20f39")
+    })
+
+    it("follows token references", () => {
+      expect(resolveThemeColor("$link", darkTheme)).toBe(darkTheme.colors.primary)
+      expect(resolveThemeColor("$surface-fg", lightTheme)).toBe(lightTheme.colors.fg)
+    })
+
+    it("passes non-token colors through", () => {
+      expect(resolveThemeColor("red", darkTheme)).toBe("red")
+      expect(resolveThemeColor("#fff", darkTheme)).toBe("#fff")
+    })
+
+    it("returns undefined for unknown tokens and cycles", () => {
+      const cyclic: Theme = { name: "cyclic", colors: { a: "$b", b: "$a" } }
+      expect(resolveThemeColor("$nope", darkTheme)).toBeUndefined()
+      expect(resolveThemeColor("$a", cyclic)).toBeUndefined()
+    })
+
+    it("built-in themes define the same tokens", () => {
+      expect(Object.keys(lightTheme.colors).sort()).toEqual(Object.keys(darkTheme.colors).sort())
+    })
+  })
+
+  describe("defaultTheme", () => {
+    it("picks by background", () => {
+      expect(defaultTheme(true)).toBe(darkTheme)
+      expect(defaultTheme(false)).toBe(lightTheme)
+    })
+  })
+
+  describe("term theming", () => {
+    it("picks the theme from caps.darkBackground", () => {
+      using dark = createTerm({ caps: { darkBackground: true } })
+      using light = createTerm({ caps: { darkBackground: false } })
+      expect(dark.theme).toBe(darkTheme)
+      expect(light.theme).toBe(lightTheme)
+    })
+
+    it("uses an explicit theme", () => {
+      const theme: Theme = { name: "brand", colors: { primary: "#ff0000" } }
+      using t = createTerm({ color: "truecolor", theme })
+      expect(t.theme).toBe(theme)
+      expect(t.color("$primary")("x")).toBe("\x1b[38;2;255;0;0mx\x1b[39m")
+    })
+
+    it("color() accepts every Color form", () => {
+      using t = createTerm({ color: "truecolor", caps: { darkBackground: true } })
+      expect(t.color("red")("x")).toBe("\x1b[31mx\x1b[39m")
+      expect(t.color("#00ff00")("x")).toBe("\x1b[38;2;0;255;0mx\x1b[39m")
+      expect(t.color("rgb(0, 0, 255)")("x")).toBe("\x1b[38;2;0;0;255mx\x1b[39m")
+      expect(t.color("$error")("x")).toBe("\x1b[38;2;243;139;168mx\x1b[39m")
+    })
+
+    it("bgColor() applies background colors", () => {
+      using t = createTerm({ color: "truecolor", caps: { darkBackground: true } })
+      expect(t.bgColor("blue")("x")).toBe("\x1b[44mx\x1b[49m")
+      expect(t.bgColor("$surface")("x")).toBe("\x1b[48;2;49;50;68mx\x1b[49m")
+    })
+
+    it("chains with other styles", () => {
+      using t = createTerm({ color: "truecolor" })
+      const styled = t.bold.color("$primary").bgColor("$surface")("x")
+      expect(styled).toContain("\x1b[1m")
+      expect(stripAnsi(styled)).toBe("x")
+    })
+
+    it("hex() resolves theme tokens", () => {
+      using t = createTerm({ color: "truecolor", caps: { darkBackground: false } })
+      expect(t.hex("$error")("x")).toBe(t.color("#d20f39")("x"))
+      expect(t.bgHex("$bg")("x")).toBe(t.bgColor("#eff1f5")("x"))
+    })
+
+    it("leaves text unstyled for unknown tokens", () => {
+      using t = createTerm({ color: "truecolor" })
+      expect(t.color("$nope")("x")).toBe("x")
+    })
+
+    it("emits nothing without color", () => {
+      using t = createTerm({ color: null })
+      expect(t.color("$error")("x")).toBe("x")
+    })
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Tests for the ANSI escape sequence tokenizer
+ */
+
+import { describe, it, expect } from "vitest"
+import { tokenizeAnsi } from "../src/tokenize.js"
+import { ANSI_REGEX, stripAnsi, displayLength } from "../src/utils.js"
+
+describe("tokenizeAnsi", () => {
+  it("returns no tokens for an empty string", () => {
+    expect(tokenizeAnsi("")).toEqual([])
+  })
+
+  it("splits text, SGR and control characters", () => {
+    expect(tokenizeAnsi("\x1b[1;31mhi\x1b[0m\n")).toEqual([
+      {
+        type: "sgr",
+        value: "\x1b[1;31m",
+        params: [
+          { value: 1, subparams: [] },
+          { value: 31, subparams: [] },
+        ],
+      },
+      { type: "text", value: "hi" },
+      { type: "sgr", value: "\x1b[0m", params: [{ value: 0, subparams: [] }] },
+      { type: "control", value: "\n", code: 10 },
+    ])
+  })
+
+  it("parses colon subparameters and empty defaults", () => {
+    const [token] = tokenizeAnsi("\x1b[4:3;58:2::255:0:0m")
+    expect(token).toEqual({
+      type: "sgr",
+      value: "\x1b[4:3;58:2::255:0:0m",
+      params: [
+        { value: 4, subparams: [3] },
+        { value: 58, subparams: [2, 0, 255, 0, 0] },
+      ],
+    })
+    expect(tokenizeAnsi("\x1b[m")[0]).toMatchObject({ type: "sgr", params: [{ value: 0, subparams: [] }] })
+  })
+
+  it("parses non-SGR CSI sequences", () => {
+    expect(tokenizeAnsi("\x1b[?25l")[0]).toEqual({
+      type: "csi",
+      value: "\x1b[?25l",
+      prefix: "?",
+      params: "25",
+      intermediates: "",
+      final: "l",
+    })
+    expect(tokenizeAnsi("\x1b[?2026;2$y")[0]).toMatchObject({ type: "csi", intermediates: "$", final: "y" })
+    // Private-prefixed "m" is not SGR (e.g. XTMODKEYS)
+    expect(tokenizeAnsi("\x1b[>4;1m")[0]).toMatchObject({ type: "csi", prefix: ">", final: "m" })
+  })
+
+  it("parses OSC with BEL and ST terminators", () => {
+    expect(tokenizeAnsi("\x1b]8;;https://x.dev\x1b\\")[0]).toEqual({
+      type: "osc",
+      value: "\x1b]8;;https://x.dev\x1b\\",
+      command: "8",
+      data: ";https://x.dev",
+    })
+    expect(tokenizeAnsi("\x1b]0;title\x07")[0]).toMatchObject({ type: "osc", command: "0", data: "title" })
+  })
+
+  it("parses DCS, APC, PM and SOS strings", () => {
+    expect(tokenizeAnsi("\x1bP>|kitty\x1b\\")[0]).toMatchObject({ type: "dcs", data: ">|kitty" })
+    expect(tokenizeAnsi("\x1b_Ga=q;AAAA\x1b\\")[0]).toMatchObject({ type: "apc", data: "Ga=q;AAAA" })
+    expect(tokenizeAnsi("\x1b^note\x1b\\")[0]).toMatchObject({ type: "pm", data: "note" })
+    expect(tokenizeAnsi("\x1bXstr\x1b\\")[0]).toMatchObject({ type: "sos", data: "str" })
+  })
+
+  it("parses plain ESC sequences", () => {
+    expect(tokenizeAnsi("\x1b7")[0]).toEqual({ type: "esc", value: "\x1b7", intermediates: "", final: "7" })
+    expect(tokenizeAnsi("\x1b(B")[0]).toEqual({ type: "esc", value: "\x1b(B", intermediates: "(", final: "B" })
+  })
+
+  it("recognizes 8-bit C1 introducers", () => {
+    expect(tokenizeAnsi("\x9b31mred")[0]).toMatchObject({ type: "sgr", params: [{ value: 31, subparams: [] }] })
+    expect(tokenizeAnsi("\x9d8;;url\x9c")[0]).toMatchObject({ type: "osc", command: "8", data: ";url" })
+  })
+
+  it("keeps a stray ESC as a control character", () => {
+    expect(tokenizeAnsi("\x1bhello")).toEqual([
+      { type: "control", value: "\x1b", code: 0x1b },
+      { type: "text", value: "hello" },
+    ])
+  })
+
+  it("handles unterminated and aborted sequences", () => {
+    expect(tokenizeAnsi("\x1b]8;;url")).toEqual([{ type: "osc", value: "\x1b]8;;url", command: "8", data: ";url" }])
+    expect(tokenizeAnsi("\x1b[12")).toEqual([
+      { type: "csi", value: "\x1b[12", prefix: "", params: "12", intermediates: "", final: "" },
+    ])
+    // An ESC that is not ST aborts the string and starts a new sequence
+    expect(tokenizeAnsi("\x1b]0;t\x1b[1m").map((t) => t.type)).toEqual(["osc", "sgr"])
+  })
+
+  it("round-trips its input", () => {
+    const input = "\x1b]8;;https://x.dev\x1b\\\x1b[4:3mlink\x1b[4:0m\x1b]8;;\x1b\\\r\n\x1b[2K\x1b(0q\x1b(B\x1b"
+    expect(
+      tokenizeAnsi(input)
+        .map((t) => t.value)
+        .join(""),
+    ).toBe(input)
+  })
+})
+
+describe("tokenizer-backed utilities", () => {
+  it("stripAnsi removes every sequence family", () => {
+    expect(stripAnsi("\x1b[2K\x1b[1Gdone")).toBe("done")
+    expect(stripAnsi("\x1b]0;title\x07text")).toBe("text")
+    expect(stripAnsi("\x1b_Ga=T;AAAA\x1b\\img")).toBe("img")
+    expect(stripAnsi("\x9b1mbold\x9b0m")).toBe("bold")
+  })
+
+  it("stripAnsi keeps whitespace controls", () => {
+    expect(stripAnsi("\x1b[31ma\tb\r\n\x1b[0m")).toBe("a\tb\r\n")
+  })
+
+  it("stripAnsi drops a dangling ESC and other stray controls", () => {
+    expect(stripAnsi("truncated\x1b")).toBe("truncated")
+    expect(stripAnsi("ding\x07 back\bspace\x7f")).toBe("ding backspace")
+    expect(displayLength("truncated\x1b")).toBe(9)
+  })
+
+  it("displayLength ignores non-SGR sequences", () => {
+    expect(displayLength("\x1b[?25l\x1b]0;title\x07hello")).toBe(5)
+  })
+
+  it("ANSI_REGEX matches the broader sequence families", () => {
+    expect("\x1b[?25l\x1b[2J".replace(ANSI_REGEX, "")).toBe("")
+    expect("\x1b]0;title\x07\x1bP>|x\x1b\\".replace(ANSI_REGEX, "")).toBe("")
+  })
+})
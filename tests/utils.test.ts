@@ -127,9 +127,9 @@ describe("ANSI utilities", () => {
     })
 
     it("handles malformed ANSI codes gracefully", () => {
-      // Incomplete escape sequence (not a valid ANSI code)
+      // Incomplete escape sequence (not a valid ANSI code): the stray ESC is dropped
       const malformed = "\x1bhello"
-      expect(stripAnsi(malformed)).toBe("\x1bhello")
+      expect(stripAnsi(malformed)).toBe("hello")
     })
 
     it("handles CJK and emoji with correct display width", () => {
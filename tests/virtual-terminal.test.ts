@@ -0,0 +1,201 @@
+/**
+ * Tests for the in-memory virtual terminal
+ */
+
+import { describe, it, expect } from "vitest"
+import { createVirtualTerminal } from "../src/virtual-terminal.js"
+import {
+  clearLine,
+  clearScreen,
+  cursorHide,
+  cursorTo,
+  enterAltScreen,
+  leaveAltScreen,
+  resetScrollRegion,
+  scrollUp,
+  setScrollRegion,
+  setTitle,
+} from "../src/ansi.js"
+import { createTerm } from "../src/term.js"
+import { hyperlink } from "../src/hyperlink.js"
+
+describe("virtual terminal", () => {
+  describe("text", () => {
+    it("prints text and moves the cursor", () => {
+      const vt = createVirtualTerminal(20, 5)
+      vt.write("hello")
+      expect(vt.toString()).toBe("hello")
+      expect(vt.cursor).toEqual({ row: 0, col: 5, visible: true })
+    })
+
+    it("treats newline as CR LF", () => {
+      const vt = createVirtualTerminal(20, 5)
+      vt.write("one\ntwo\r\nthree")
+      expect(vt.toString()).toBe("one\ntwo\nthree")
+    })
+
+    it("wraps at the right edge", () => {
+      const vt = createVirtualTerminal(4, 3)
+      vt.write("abcdef")
+      expect(vt.toString()).toBe("abcd\nef")
+    })
+
+    it("does not wrap until the next character is printed", () => {
+      const vt = createVirtualTerminal(4, 3)
+      vt.write("abcd\r")
+      expect(vt.cursor).toMatchObject({ row: 0, col: 0 })
+    })
+
+    it("scrolls when writing past the last row", () => {
+      const vt = createVirtualTerminal(10, 2)
+      vt.write("1\n2\n3")
+      expect(vt.toString()).toBe("2\n3")
+    })
+
+    it("stores wide characters in two cells", () => {
+      const vt = createVirtualTerminal(10, 2)
+      vt.write("한x")
+      expect(vt.cell(0, 0)).toMatchObject({ char: "한", width: 2 })
+      expect(vt.cell(0, 1)).toMatchObject({ char: "", width: 0 })
+      expect(vt.cell(0, 2).char).toBe("x")
+      expect(vt.line(0)).toBe("한x")
+    })
+
+    it("wraps a wide character that does not fit", () => {
+      const vt = createVirtualTerminal(3, 2)
+      vt.write("ab한")
+      expect(vt.toString()).toBe("ab\n한")
+    })
+
+    it("buffers sequences split across writes", () => {
+      const vt = createVirtualTerminal(10, 2)
+      vt.write("\x1b[")
+      vt.write("1mbold\x1b]8;;https://x")
+      vt.write(".dev\x1b\\x")
+      expect(vt.cell(0, 0).style.bold).toBe(true)
+      expect(vt.cell(0, 4).link).toBe("https://x.dev")
+    })
+  })
+
+  describe("cursor and erasing", () => {
+    it("positions with cursorTo", () => {
+      const vt = createVirtualTerminal(10, 5)
+      vt.write(cursorTo(2, 4) + "x")
+      expect(vt.toString()).toBe("\n\n    x")
+    })
+
+    it("clears the screen and lines", () => {
+      const vt = createVirtualTerminal(10, 3)
+      vt.write("abc\ndef")
+      vt.write(clearLine())
+      expect(vt.toString()).toBe("abc")
+      vt.write(clearScreen())
+      expect(vt.toString()).toBe("")
+    })
+
+    it("erases to the end of the line", () => {
+      const vt = createVirtualTerminal(10, 2)
+      vt.write("abcdef\x1b[1;3H\x1b[K")
+      expect(vt.toString()).toBe("ab")
+    })
+
+    it("moves relative to the cursor", () => {
+      const vt = createVirtualTerminal(10, 5)
+      vt.write("\x1b[3;3H\x1b[2A\x1b[1Cx\x1b[2B\x1b[3Dy")
+      expect(vt.toString()).toBe("   x\n\n y")
+    })
+
+    it("saves and restores the cursor", () => {
+      const vt = createVirtualTerminal(10, 3)
+      vt.write("ab\x1b7\x1b[3;1Hz\x1b8c")
+      expect(vt.toString()).toBe("abc\n\nz")
+    })
+
+    it("tracks cursor visibility", () => {
+      const vt = createVirtualTerminal(10, 3)
+      vt.write(cursorHide())
+      expect(vt.cursor.visible).toBe(false)
+    })
+  })
+
+  describe("scroll regions", () => {
+    it("scrolls only within the region", () => {
+      const vt = createVirtualTerminal(10, 4)
+      vt.write("head\nA\nB\nfoot")
+      vt.write(setScrollRegion(1, 2) + scrollUp(1) + resetScrollRegion())
+      expect(vt.toString()).toBe("head\nB\n\nfoot")
+    })
+
+    it("scrolls the region on line feed at its bottom margin", () => {
+      const vt = createVirtualTerminal(10, 4)
+      vt.write("head\n\n\nfoot")
+      vt.write(setScrollRegion(1, 2) + cursorTo(1, 0) + "A\nB\nC")
+      expect(vt.toString()).toBe("head\nB\nC\nfoot")
+    })
+  })
+
+  describe("alternate screen", () => {
+    it("switches buffers and restores the main screen", () => {
+      const vt = createVirtualTerminal(10, 3)
+      vt.write("main")
+      vt.write(enterAltScreen() + cursorTo(0, 0) + "alt")
+      expect(vt.altScreen).toBe(true)
+      expect(vt.toString()).toBe("alt")
+      vt.write(leaveAltScreen())
+      expect(vt.altScreen).toBe(false)
+      expect(vt.toString()).toBe("main")
+      expect(vt.cursor).toMatchObject({ row: 0, col: 4 })
+    })
+  })
+
+  describe("styles and links", () => {
+    it("records cell styles", () => {
+      const vt = createVirtualTerminal(20, 2)
+      vt.write("\x1b[1;31mred\x1b[0m \x1b[4:3;58:2::255:0:0mwavy\x1b[0m")
+      expect(vt.cell(0, 0).style).toMatchObject({ bold: true, fg: 1 })
+      expect(vt.cell(0, 3).style.bold).toBe(false)
+      expect(vt.cell(0, 4).style).toMatchObject({ underline: "curly", underlineColor: [255, 0, 0] })
+    })
+
+    it("records hyperlinks", () => {
+      const vt = createVirtualTerminal(20, 2)
+      vt.write(`see ${hyperlink("docs", "https://x.dev")}`)
+      expect(vt.cell(0, 0).link).toBeNull()
+      expect(vt.cell(0, 4).link).toBe("https://x.dev")
+    })
+
+    it("renders a styled snapshot independent of code order", () => {
+      const a = createVirtualTerminal(20, 2)
+      const b = createVirtualTerminal(20, 2)
+      a.write("\x1b[1m\x1b[31merror\x1b[39m\x1b[22m: \x1b[38;2;255;128;0mwarn\x1b[39m")
+      b.write("\x1b[31;1merror\x1b[0m: \x1b[38;2;255;128;0mwarn\x1b[0m")
+      expect(a.toStyledSnapshot()).toBe("[bold fg=red]error[/]: [fg=#ff8000]warn[/]")
+      expect(b.toStyledSnapshot()).toBe(a.toStyledSnapshot())
+    })
+
+    it("keeps the background for erased cells", () => {
+      const vt = createVirtualTerminal(4, 2)
+      vt.write("\x1b[44m\x1b[2K\x1b[0m")
+      expect(vt.cell(0, 3).style.bg).toBe(4)
+      expect(vt.toStyledSnapshot()).toBe("[bg=blue]    [/]")
+    })
+
+    it("records the window title", () => {
+      const vt = createVirtualTerminal(10, 2)
+      vt.write(setTitle("build"))
+      expect(vt.title).toBe("build")
+    })
+  })
+
+  describe("with createTerm", () => {
+    it("renders term output written to its stdout", () => {
+      const vt = createVirtualTerminal(40, 5)
+      using term = createTerm({ stdout: vt.stdout, color: "truecolor" })
+      term.writeLine(term.bold("Title"))
+      term.write(`${term.green("ok")} ${term.dim("done")}`)
+      expect(vt.toString()).toBe("Title\nok done")
+      expect(vt.toStyledSnapshot()).toBe("[bold]Title[/]\n[fg=green]ok[/] [dim]done[/]")
+      expect(term.cols).toBe(40)
+    })
+  })
+})